@@ -14,7 +14,13 @@ const __dirname = path.dirname(__filename);
 import { saveAudioFile, openAudioFile, getAudioSources } from './utils/audio.mjs';
 import notificationUtils from './utils/notification.mjs';
 import transcriptionUtils from './utils/transcription.mjs';
-import textClassifierUtils from './utils/textClassifier.mjs';
+import classifierPool from './utils/classifierPool.mjs';
+import localTranscriberUtils from './utils/localTranscriber.mjs';
+import callReminderUtils from './utils/callReminders.mjs';
+import deepLinkUtils from './utils/deepLinks.mjs';
+import meetingJournal from './utils/meetingJournal.mjs';
+import meetingRecorder from './utils/meetingRecorder.mjs';
+import callCardFiles from './utils/callCardFiles.mjs';
 import { setupGoogleCalendar } from './api/user-google-tokens.mjs';
 
 // The 'permissions' parameter is now an object with specific functions and constants
@@ -75,6 +81,32 @@ function setupIpcHandlers(windowManager, api) {
     openAudioFile(filePath);
   });
 
+  // Opt-in meeting recordings, streamed to disk chunk by chunk
+  ipcMain.handle('start-meeting-recording', (event, meetingId, mimeType) => {
+    return meetingRecorder.startRecording(meetingId, mimeType);
+  });
+
+  ipcMain.on('append-meeting-recording', (event, meetingId, chunk) => {
+    meetingRecorder.appendChunk(meetingId, chunk);
+  });
+
+  ipcMain.handle('stop-meeting-recording', (event, meetingId) => {
+    return meetingRecorder.stopRecording(meetingId);
+  });
+
+  ipcMain.handle('read-meeting-recording', (event, filePath) => {
+    return meetingRecorder.readRecording(filePath);
+  });
+
+  // Call card export/import through native save/open dialogs
+  ipcMain.handle('save-call-card-file', (event, file) => {
+    return callCardFiles.saveCallCardFile(event.sender, file);
+  });
+
+  ipcMain.handle('open-call-card-file', (event) => {
+    return callCardFiles.openCallCardFile(event.sender);
+  });
+
   // Add desktop-capturer handlers for audio
   ipcMain.handle('desktop-capturer-get-sources', async (event, options) => {
     try {
@@ -227,6 +259,19 @@ function setupIpcHandlers(windowManager, api) {
     
   });
 
+  // Local (on-device) transcription engine handlers
+  ipcMain.handle('start-local-transcription', async (event, streamId) => {
+    return localTranscriberUtils.startSession(streamId, event.sender);
+  });
+
+  ipcMain.on('local-transcription-audio', (event, streamId, frame) => {
+    localTranscriberUtils.pushAudio(streamId, frame);
+  });
+
+  ipcMain.handle('stop-local-transcription', async (event, streamId) => {
+    return localTranscriberUtils.stopSession(streamId);
+  });
+
   // Generic permission handlers used by PermissionGate and other parts of the app
   ipcMain.handle('check-permission', async (event, permissionType) => {
     if (checkPermission) {
@@ -271,6 +316,8 @@ function setupIpcHandlers(windowManager, api) {
 
   // Add a sign-out handler to ensure the main process session is cleared
   ipcMain.handle('sign-out', async () => {
+    // The next account's calendar shouldn't get this one's reminders
+    callReminderUtils.clearReminders();
     if (authManager) {
       return authManager.logout();
     }
@@ -385,6 +432,39 @@ function setupIpcHandlers(windowManager, api) {
     notificationUtils.sendTestNotification();
   });
 
+  // Pre-call reminders: the renderer syncs upcoming events with a linked call card
+  ipcMain.on('set-call-reminder-events', (event, events) => {
+    callReminderUtils.setUpcomingEvents(events);
+  });
+
+  ipcMain.on('set-call-reminder-settings', (event, reminderSettings) => {
+    callReminderUtils.setReminderSettings(reminderSettings);
+  });
+
+  // Route from a callcard:// link that arrived before the renderer was ready
+  ipcMain.handle('consume-pending-deep-link', () => {
+    return deepLinkUtils.consumePendingRoute();
+  });
+
+  // Crash-safe journal of the live meeting, offered for resume after a reload or crash
+  ipcMain.handle('journal-meeting', (event, snapshot) => {
+    return meetingJournal.writeJournal(snapshot);
+  });
+
+  ipcMain.handle('get-meeting-journal', (event, meetingId) => {
+    return meetingJournal.readJournal(meetingId);
+  });
+
+  ipcMain.handle('find-interrupted-meeting', () => {
+    return meetingJournal.findInterruptedMeeting();
+  });
+
+  ipcMain.on('clear-meeting-journal', (event, meetingId) => {
+    meetingJournal.clearJournal(meetingId).catch(error => {
+      console.error('Error clearing meeting journal:', error);
+    });
+  });
+
   // Handler for checking notification permission status
   ipcMain.handle('check-notification-permission', async () => {
     try {
@@ -456,21 +536,22 @@ function setupIpcHandlers(windowManager, api) {
   // Clean up old handler if it exists (no longer needed)
   // ipcMain.removeHandler('fetch-google-calendar-events');
   
-  // Topic labels storage for classification
-  let currentTopicLabels = [];
-  
-  // Handler to receive topic labels from the renderer
-  ipcMain.on('set-topic-labels', (event, topics) => {
-    if (Array.isArray(topics)) {
-      currentTopicLabels = topics;
+  // Create the classifier session for a meeting from its call card's topics
+  ipcMain.on('set-topic-labels', (event, payload) => {
+    const { sessionId, topics, options } = payload || {};
+    if (sessionId && Array.isArray(topics)) {
+      classifierPool.createSession(sessionId, topics, { multiLabel: !!options?.multiLabel });
     }
   });
+
+  // Drop a meeting's classifier session when the meeting ends
+  ipcMain.on('dispose-classifier-session', (event, sessionId) => {
+    classifierPool.disposeSession(sessionId);
+  });
   
   // Text classification handler for transcript analysis
   ipcMain.handle('classify-text', async (event, request) => {
     try {
-      const requestId = request?.id || 'unknown';
-      
       // Validate request format
       if (!request || typeof request !== 'object') {
         return { 
@@ -480,13 +561,8 @@ function setupIpcHandlers(windowManager, api) {
         };
       }
       
-      // Add the current topic labels to the request if available
-      if (currentTopicLabels.length > 0) {
-        request.topics = currentTopicLabels;
-      }
-      
-      // Process the text through the classifier
-      const result = await textClassifierUtils.classifyText(request);
+      // Queue the text for the classifier worker that owns the request's session
+      const result = await classifierPool.classifyText(request);
       return result;
     } catch (error) {
       return {
@@ -498,6 +574,28 @@ function setupIpcHandlers(windowManager, api) {
     }
   });
 
+  // Keep a meeting's open checklist questions in sync for auto-completion
+  ipcMain.on('set-checklist-questions', (event, payload) => {
+    const { sessionId, questions } = payload || {};
+    if (sessionId && Array.isArray(questions)) {
+      classifierPool.setQuestions(sessionId, questions);
+    }
+  });
+
+  // Match a final transcript turn against the meeting's open checklist questions
+  ipcMain.handle('match-checklist-turn', async (event, request) => {
+    try {
+      return await classifierPool.matchTurn(request);
+    } catch (error) {
+      return {
+        id: request?.id,
+        asked: [],
+        answered: [],
+        error: error.message || 'Unknown matching error'
+      };
+    }
+  });
+
   // App lifecycle handlers
   ipcMain.on('quit-app', () => {
     app.quit();
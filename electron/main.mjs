@@ -13,6 +13,10 @@ import trayManager from './tray.mjs';
 import { setupIpcHandlers } from './ipc.mjs';
 import supabase from './supabaseClient.mjs';
 import AuthManager from './authIpc.mjs';
+import { findDeepLinkInArgs, handleDeepLink } from './utils/deepLinks.mjs';
+import classifierPool from './utils/classifierPool.mjs';
+import meetingRecorder from './utils/meetingRecorder.mjs';
+import callReminders from './utils/callReminders.mjs';
 import { fileURLToPath } from 'url';
 
 
@@ -29,6 +33,34 @@ if (process.defaultApp) {
 } else {
   app.setAsDefaultProtocolClient('callcard');
 }
+
+// On Windows/Linux a callcard:// link launches a second instance with the
+// link in argv; forward it to the running instance instead
+const hasInstanceLock = app.requestSingleInstanceLock();
+if (!hasInstanceLock) {
+  app.quit();
+} else {
+  app.on('second-instance', (event, argv) => {
+    const link = findDeepLinkInArgs(argv);
+    if (link && handleDeepLink(link)) return;
+
+    const mainWindow = windowManager.getMainWindow();
+    if (mainWindow) {
+      if (mainWindow.isMinimized()) mainWindow.restore();
+      mainWindow.show();
+      mainWindow.focus();
+    }
+  });
+}
+
+// Handle the 'open-url' event for the custom protocol (macOS). Registered
+// before 'ready' so a link that launches the app isn't missed. OAuth
+// redirects are ignored here; the AuthManager's `will-navigate` event on the
+// authWindow picks those up.
+app.on('open-url', (event, url) => {
+  event.preventDefault();
+  handleDeepLink(url);
+});
 // --- End Custom Protocol Registration ---
 
 // Disable hardware acceleration to fix rendering issues
@@ -263,6 +295,9 @@ async function initializeApp() {
 
 // Wait for the app to be ready before initializing
 app.whenReady().then(() => {
+  // A second instance only hands its link over and quits; it sets nothing up
+  if (!hasInstanceLock) return;
+
   // Set the application icon
   setAppIcon();
   
@@ -297,13 +332,11 @@ app.whenReady().then(() => {
     }
   });
 
-  // Handle the 'open-url' event for the custom protocol (macOS)
-  app.on('open-url', (event, url) => {
-    event.preventDefault();
-    // No need to do anything here. The AuthManager's `will-navigate` event
-    // on the authWindow will automatically pick up the redirect.
-    // This handler's purpose is to ensure the app can receive the URL event.
-  });
+  // Windows/Linux: the app was launched from a callcard:// link
+  const launchLink = findDeepLinkInArgs(process.argv);
+  if (launchLink) {
+    handleDeepLink(launchLink);
+  }
 });
 
 // Quit when all windows are closed (except on macOS)
@@ -315,6 +348,7 @@ app.on('window-all-closed', () => {
 
 // On macOS, recreate window when dock icon is clicked
 app.on('activate', () => {
+  if (!hasInstanceLock) return;
   let mw = windowManager.getMainWindow();
   if (!mw) {
     try {
@@ -349,6 +383,9 @@ app.on('will-quit', () => {
   try {
     globalShortcut.unregisterAll();
     trayManager.destroyTray();
+    classifierPool.shutdown();
+    meetingRecorder.stopAll();
+    callReminders.clearReminders();
   } catch (err) {
     // Silent error handling for production
   }
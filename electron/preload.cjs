@@ -104,9 +104,24 @@ const electronApi = {
   grantNotificationPermission: () => ipcRenderer.invoke('grant-notification-permission'),
   revokeNotificationPermission: () => ipcRenderer.invoke('revoke-notification-permission'),
 
+  // Pre-call reminders and callcard:// deep links
+  setCallReminderEvents: (events) => ipcRenderer.send('set-call-reminder-events', events),
+  setCallReminderSettings: (settings) => ipcRenderer.send('set-call-reminder-settings', settings),
+  consumePendingDeepLink: () => ipcRenderer.invoke('consume-pending-deep-link'),
+  onDeepLinkNavigate: createIpcListener('deep-link-navigate'),
+
+  // Crash-safe meeting journal
+  journalMeeting: (snapshot) => ipcRenderer.invoke('journal-meeting', snapshot),
+  getMeetingJournal: (meetingId) => ipcRenderer.invoke('get-meeting-journal', meetingId),
+  findInterruptedMeeting: () => ipcRenderer.invoke('find-interrupted-meeting'),
+  clearMeetingJournal: (meetingId) => ipcRenderer.send('clear-meeting-journal', meetingId),
+
   // Text classification
   classifyText: (request) => ipcRenderer.invoke('classify-text', request),
-  setTopicLabels: (topics) => ipcRenderer.send('set-topic-labels', topics),
+  setTopicLabels: (sessionId, topics, options) => ipcRenderer.send('set-topic-labels', { sessionId, topics, options }),
+  disposeClassifierSession: (sessionId) => ipcRenderer.send('dispose-classifier-session', sessionId),
+  setChecklistQuestions: (sessionId, questions) => ipcRenderer.send('set-checklist-questions', { sessionId, questions }),
+  matchChecklistTurn: (request) => ipcRenderer.invoke('match-checklist-turn', request),
 
   // Audio and transcription
   getAudioSources: () => ipcRenderer.send('get-audio-sources'),
@@ -123,6 +138,23 @@ const electronApi = {
     return () => ipcRenderer.removeListener('transcript-update', wrappedCallback);
   },
 
+  // Local (on-device) transcription engine
+  startLocalTranscription: (streamId) => ipcRenderer.invoke('start-local-transcription', streamId),
+  sendLocalTranscriptionAudio: (streamId, frame) => ipcRenderer.send('local-transcription-audio', streamId, frame),
+  stopLocalTranscription: (streamId) => ipcRenderer.invoke('stop-local-transcription', streamId),
+  onLocalTranscriptionResult: createIpcListener('local-transcription-result'),
+  onLocalTranscriptionError: createIpcListener('local-transcription-error'),
+
+  // Meeting recordings (mic on the left channel, system audio on the right)
+  startMeetingRecording: (meetingId, mimeType) => ipcRenderer.invoke('start-meeting-recording', meetingId, mimeType),
+  appendMeetingRecording: (meetingId, chunk) => ipcRenderer.send('append-meeting-recording', meetingId, chunk),
+  stopMeetingRecording: (meetingId) => ipcRenderer.invoke('stop-meeting-recording', meetingId),
+  readMeetingRecording: (filePath) => ipcRenderer.invoke('read-meeting-recording', filePath),
+
+  // Call card export/import (native save/open dialogs)
+  saveCallCardFile: (file) => ipcRenderer.invoke('save-call-card-file', file),
+  openCallCardFile: () => ipcRenderer.invoke('open-call-card-file'),
+
   // Generic invoke for other handlers
   invoke: (channel, ...args) => ipcRenderer.invoke(channel, ...args),
   
@@ -0,0 +1,78 @@
+/**
+ * Call card files
+ *
+ * Native save/open dialogs for exporting call cards to portable files and
+ * importing them back. The renderer builds and validates the file contents;
+ * this module only picks the path and reads or writes UTF-8 text, so the
+ * renderer never gets general file system access.
+ */
+import { dialog, BrowserWindow } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+
+// ---------- Configuration ----------
+const FORMAT_FILTERS = {
+  json: { name: 'Call card (JSON)', extensions: ['json'] },
+  markdown: { name: 'Call card (Markdown)', extensions: ['md'] },
+};
+
+// Imports are small JSON documents; anything larger isn't a call card
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+// ---------- Helper Functions ----------
+const ownerWindow = (webContents) => BrowserWindow.fromWebContents(webContents) ?? undefined;
+
+// Keeps a suggested file name free of path separators and reserved characters
+const sanitizeFileName = (name) =>
+  String(name || 'call-card').replace(/[\\/:*?"<>|]+/g, '-').trim().slice(0, 120) || 'call-card';
+
+/**
+ * Asks where to save an exported call card and writes it there
+ * @param {Electron.WebContents} webContents - Renderer the dialog belongs to
+ * @param {object} file - `{ fileName, format, content }`; format is 'json' or 'markdown'
+ * @returns {Promise<{filePath: string}|null>} The saved path, or null if cancelled
+ */
+export async function saveCallCardFile(webContents, { fileName, format, content }) {
+  const filter = FORMAT_FILTERS[format];
+  if (!filter || typeof content !== 'string') {
+    throw new Error(`Unsupported call card export format: ${format}`);
+  }
+
+  const { canceled, filePath } = await dialog.showSaveDialog(ownerWindow(webContents), {
+    title: 'Export call card',
+    defaultPath: `${sanitizeFileName(fileName)}.${filter.extensions[0]}`,
+    filters: [filter],
+  });
+  if (canceled || !filePath) return null;
+
+  await fs.writeFile(filePath, content, 'utf8');
+  console.debug(`[CallCardFiles] Exported call card to ${path.basename(filePath)}`);
+  return { filePath };
+}
+
+/**
+ * Asks for a call card file to import and reads it
+ * @param {Electron.WebContents} webContents - Renderer the dialog belongs to
+ * @returns {Promise<{fileName: string, content: string}|null>} The file's text, or null if cancelled
+ */
+export async function openCallCardFile(webContents) {
+  const { canceled, filePaths } = await dialog.showOpenDialog(ownerWindow(webContents), {
+    title: 'Import call card',
+    filters: [FORMAT_FILTERS.json],
+    properties: ['openFile'],
+  });
+  if (canceled || filePaths.length === 0) return null;
+
+  const filePath = filePaths[0];
+  const { size } = await fs.stat(filePath);
+  if (size > MAX_IMPORT_BYTES) {
+    throw new Error('File is too large to be a call card');
+  }
+
+  return { fileName: path.basename(filePath), content: await fs.readFile(filePath, 'utf8') };
+}
+
+export default {
+  saveCallCardFile,
+  openCallCardFile
+};
@@ -0,0 +1,153 @@
+/**
+ * Call reminder scheduler
+ *
+ * Shows a native notification a few minutes before each upcoming calendar
+ * event that has a call card (template) linked. The renderer keeps the list
+ * of upcoming events in sync; this module owns the timers so reminders fire
+ * even while the window is hidden in the tray. Both notification actions
+ * deep-link into the app through the callcard:// protocol.
+ */
+import notificationUtils from './notification.mjs';
+import { buildDeepLink, handleDeepLink } from './deepLinks.mjs';
+
+// ---------- Configuration ----------
+const DEFAULT_LEAD_MINUTES = 5;
+
+// Events further out than this are picked up by a later sync instead of a
+// long-lived timer (setTimeout also overflows past ~24.8 days)
+const MAX_SCHEDULE_AHEAD_MS = 24 * 60 * 60 * 1000;
+
+// ---------- State Management ----------
+let settings = { enabled: true, leadMinutes: DEFAULT_LEAD_MINUTES };
+
+// eventId -> { id, title, startTime, templateId }
+let upcomingEvents = new Map();
+
+// eventId -> timeout handle
+const timers = new Map();
+
+// `${eventId}|${startTime}` -> start (ms) of reminders already shown, so a
+// resync doesn't repeat them
+const notifiedOccurrences = new Map();
+
+// Shown notifications are kept referenced so their click/action handlers
+// aren't garbage collected
+const activeNotifications = new Set();
+
+// ---------- Helper Functions ----------
+const occurrenceKey = (event) => `${event.id}|${event.startTime}`;
+
+/**
+ * Shows the reminder for an event
+ * @param {Object} event - { id, title, startTime, templateId }
+ */
+function showReminder(event) {
+  notifiedOccurrences.set(occurrenceKey(event), new Date(event.startTime).getTime());
+
+  const minutesLeft = Math.max(0, Math.round((new Date(event.startTime).getTime() - Date.now()) / 60000));
+  const openCallCard = () => handleDeepLink(buildDeepLink('g-calendar', { eventId: event.id }));
+  const startNow = () => handleDeepLink(
+    buildDeepLink(`start-meeting/${event.templateId}`, { eventId: event.id })
+  );
+
+  const notification = notificationUtils.showActionNotification({
+    title: event.title || 'Upcoming call',
+    body: minutesLeft > 0 ? `Starts in ${minutesLeft} min. Your call card is ready.` : 'Starting now. Your call card is ready.',
+    actions: [
+      { text: 'Open call card', onSelect: openCallCard },
+      { text: 'Start now', onSelect: startNow },
+    ],
+    onClick: openCallCard,
+  });
+
+  if (notification) {
+    activeNotifications.add(notification);
+    notification.on('close', () => activeNotifications.delete(notification));
+  }
+}
+
+/**
+ * Clears every pending reminder timer
+ */
+function clearTimers() {
+  timers.forEach(timer => clearTimeout(timer));
+  timers.clear();
+}
+
+/**
+ * Recreates the timers from the current events and settings
+ */
+function reschedule() {
+  clearTimers();
+  const now = Date.now();
+
+  // Occurrences that have started are never scheduled again, so they needn't be remembered
+  notifiedOccurrences.forEach((startMs, key) => {
+    if (startMs <= now) notifiedOccurrences.delete(key);
+  });
+
+  if (!settings.enabled) return;
+
+  const leadMs = settings.leadMinutes * 60 * 1000;
+
+  upcomingEvents.forEach(event => {
+    const startMs = new Date(event.startTime).getTime();
+    if (Number.isNaN(startMs) || startMs <= now) return;
+    if (notifiedOccurrences.has(occurrenceKey(event))) return;
+
+    const delay = startMs - leadMs - now;
+    if (delay > MAX_SCHEDULE_AHEAD_MS) return;
+
+    if (delay <= 0) {
+      // Already inside the reminder window, e.g. the app was just opened
+      showReminder(event);
+      return;
+    }
+
+    timers.set(event.id, setTimeout(() => {
+      timers.delete(event.id);
+      showReminder(event);
+    }, delay));
+  });
+}
+
+/**
+ * Replaces the set of upcoming events that have a call card linked
+ * @param {Array<Object>} events - [{ id, title, startTime, templateId }]
+ */
+export function setUpcomingEvents(events) {
+  upcomingEvents = new Map(
+    (events || [])
+      .filter(event => event && event.id && event.startTime && event.templateId)
+      .map(event => [event.id, event])
+  );
+  reschedule();
+}
+
+/**
+ * Updates whether reminders are shown and how many minutes before the call
+ * @param {Object} next - { enabled, leadMinutes }
+ */
+export function setReminderSettings(next) {
+  const leadMinutes = Number(next?.leadMinutes);
+  settings = {
+    enabled: next?.enabled !== false,
+    leadMinutes: Number.isFinite(leadMinutes) && leadMinutes > 0 ? leadMinutes : DEFAULT_LEAD_MINUTES,
+  };
+  reschedule();
+}
+
+/**
+ * Drops all events and timers; called on sign-out and when the app quits
+ */
+export function clearReminders() {
+  upcomingEvents = new Map();
+  notifiedOccurrences.clear();
+  clearTimers();
+}
+
+export default {
+  setUpcomingEvents,
+  setReminderSettings,
+  clearReminders
+};
@@ -0,0 +1,402 @@
+/**
+ * Classifier worker pool
+ *
+ * Runs the embedding classifier (textClassifier.mjs) in worker threads so
+ * inference never blocks window management, tray or auth IPC in the main
+ * process. Each classifier session is pinned to one worker, which keeps its
+ * hysteresis state in one place. Requests wait in a per-worker queue and are
+ * sent as micro-batches (one embedding pass per batch). A queued interim
+ * transcript chunk is cancelled as soon as a newer chunk from the same
+ * session and source arrives. Every response carries latency metrics.
+ *
+ * Checklist question matching (questionMatcher.mjs) shares the workers,
+ * sessions and queue, so it reuses the loaded model and stays in turn order.
+ */
+import { Worker } from 'worker_threads';
+import os from 'os';
+
+// ---------- Configuration ----------
+const WORKER_URL = new URL('./classifierWorker.mjs', import.meta.url);
+
+// Each worker loads its own copy of the model, so keep the pool small
+const POOL_SIZE = Math.max(1, Math.min(2, os.cpus().length - 1));
+
+// How long the first queued request waits for others to join its batch
+const BATCH_WINDOW_MS = 15;
+const MAX_BATCH_SIZE = 8;
+
+// A crashed worker is restarted with a growing delay; after this many
+// crashes without a completed batch the slot gives up (e.g. model can't load)
+const RESTART_DELAY_MS = 1000;
+const MAX_WORKER_RESTARTS = 3;
+
+// Session used by requests that don't name one (matches textClassifier.mjs)
+const DEFAULT_SESSION_ID = 'default';
+
+// Request kind -> worker message that processes a batch of them
+const BATCH_TYPES = {
+  classify: 'classify-batch',
+  match: 'match-batch',
+};
+
+// ---------- State Management ----------
+// Worker slots: { index, worker, queue, inFlight, flushTimer, restarts, failed }
+const slots = [];
+
+// sessionId -> slot index
+const sessionSlots = new Map();
+
+// sessionId -> { topics, params, questions }, replayed if the session's worker has to be restarted
+const sessionConfigs = new Map();
+
+let nextSlotIndex = 0;
+let nextBatchId = 1;
+let isShuttingDown = false;
+
+// ---------- Helper Functions ----------
+/**
+ * Builds an error response for a request that never reached the classifier
+ * @param {object} request - The classification or match request
+ * @param {string} message - Error message
+ * @param {string} [kind] - Request kind (see BATCH_TYPES)
+ * @returns {object} The response
+ */
+function errorResponse(request, message, kind = 'classify') {
+  if (kind === 'match') {
+    return { id: request?.id, asked: [], answered: [], error: message };
+  }
+  return {
+    id: request?.id,
+    label: 'error',
+    score: 0,
+    ema: 0,
+    error: message,
+    topCandidates: [],
+    activeTopics: [],
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Builds the response for a request superseded before it was classified
+ * @param {object} entry - Queue entry
+ * @returns {object} The response
+ */
+function cancelledResponse(entry) {
+  const metrics = {
+    queuedMs: Date.now() - entry.enqueuedAt,
+    inferenceMs: 0,
+    totalMs: Date.now() - entry.enqueuedAt,
+    batchSize: 0,
+  };
+  if (entry.kind === 'match') {
+    return { id: entry.request.id, asked: [], answered: [], cancelled: true, metrics };
+  }
+  return {
+    id: entry.request.id,
+    label: 'cancelled',
+    score: 0,
+    ema: 0,
+    cancelled: true,
+    topCandidates: [],
+    activeTopics: [],
+    timestamp: Date.now(),
+    metrics,
+  };
+}
+
+const sessionIdOf = (request) => request.sessionId || DEFAULT_SESSION_ID;
+const sourceOf = (request) => request.metadata?.source || 'unknown';
+const isInterim = (request) => request.metadata?.isFinal === false;
+
+/**
+ * Starts (or restarts) the worker for a slot
+ * @param {object} slot - Worker slot
+ */
+function startWorker(slot) {
+  const worker = new Worker(WORKER_URL);
+  slot.worker = worker;
+
+  worker.on('message', (message) => {
+    if (message?.type === 'batch-result') handleBatchResult(slot, message);
+  });
+
+  worker.on('error', (error) => {
+    console.error(`[ClassifierPool] Worker ${slot.index} error:`, error);
+  });
+
+  worker.on('exit', (code) => {
+    if (slot.worker !== worker) return;
+    slot.worker = null;
+
+    // The batch being processed is lost with the worker
+    if (slot.inFlight) {
+      slot.inFlight.entries.forEach(entry =>
+        entry.resolve(errorResponse(entry.request, 'Classifier worker stopped', entry.kind))
+      );
+      slot.inFlight = null;
+    }
+    if (isShuttingDown) return;
+
+    if (slot.restarts >= MAX_WORKER_RESTARTS) {
+      console.error(`[ClassifierPool] Worker ${slot.index} keeps exiting (code ${code}), giving up`);
+      slot.failed = true;
+      slot.queue.forEach(entry => entry.resolve(errorResponse(entry.request, 'Classifier unavailable', entry.kind)));
+      slot.queue = [];
+      return;
+    }
+
+    slot.restarts++;
+    console.error(`[ClassifierPool] Worker ${slot.index} exited with code ${code}, restarting`);
+    setTimeout(() => {
+      if (isShuttingDown) return;
+      startWorker(slot);
+
+      // Recreate the sessions the worker owned; their smoothing state starts over
+      sessionSlots.forEach((index, sessionId) => {
+        const config = sessionConfigs.get(sessionId);
+        if (index !== slot.index || !config) return;
+        if (config.topics) {
+          slot.worker.postMessage({ type: 'create-session', sessionId, topics: config.topics, params: config.params });
+        }
+        if (config.questions) {
+          slot.worker.postMessage({ type: 'set-questions', sessionId, questions: config.questions });
+        }
+      });
+      flush(slot);
+    }, RESTART_DELAY_MS * slot.restarts);
+  });
+}
+
+/**
+ * Creates the worker slots on first use
+ */
+function ensureWorkers() {
+  if (slots.length > 0) return;
+  for (let index = 0; index < POOL_SIZE; index++) {
+    const slot = { index, worker: null, queue: [], inFlight: null, flushTimer: null, restarts: 0, failed: false };
+    slots.push(slot);
+    startWorker(slot);
+  }
+}
+
+/**
+ * Returns the slot a session is pinned to, assigning one round-robin
+ * @param {string} sessionId - Classifier session identifier
+ * @returns {object} Worker slot
+ */
+function getSlot(sessionId) {
+  ensureWorkers();
+  if (!sessionSlots.has(sessionId)) {
+    sessionSlots.set(sessionId, nextSlotIndex);
+    nextSlotIndex = (nextSlotIndex + 1) % slots.length;
+  }
+  return slots[sessionSlots.get(sessionId)];
+}
+
+/**
+ * Removes queued entries matching a predicate and resolves them as cancelled
+ * @param {object} slot - Worker slot
+ * @param {Function} predicate - (entry) => boolean
+ */
+function cancelQueued(slot, predicate) {
+  slot.queue = slot.queue.filter(entry => {
+    if (!predicate(entry)) return true;
+    entry.resolve(cancelledResponse(entry));
+    return false;
+  });
+}
+
+/**
+ * Sends the next micro-batch to the slot's worker if it is idle. A batch is
+ * the run of same-kind requests at the head of the queue, so requests are
+ * always processed in the order they arrived.
+ * @param {object} slot - Worker slot
+ */
+function flush(slot) {
+  clearTimeout(slot.flushTimer);
+  slot.flushTimer = null;
+  if (slot.inFlight || !slot.worker || slot.queue.length === 0) return;
+
+  const kind = slot.queue[0].kind;
+  let count = 1;
+  while (count < slot.queue.length && count < MAX_BATCH_SIZE && slot.queue[count].kind === kind) count++;
+
+  const entries = slot.queue.splice(0, count);
+  const batchId = nextBatchId++;
+  slot.inFlight = { batchId, entries, sentAt: Date.now() };
+  slot.worker.postMessage({
+    type: BATCH_TYPES[kind],
+    batchId,
+    requests: entries.map(entry => entry.request),
+  });
+}
+
+/**
+ * Adds a request to its slot's queue and schedules the batch
+ * @param {object} slot - Worker slot
+ * @param {string} kind - Request kind (see BATCH_TYPES)
+ * @param {object} request - The request
+ * @returns {Promise<object>} The response
+ */
+function enqueue(slot, kind, request) {
+  return new Promise(resolve => {
+    slot.queue.push({ kind, request, enqueuedAt: Date.now(), resolve });
+
+    if (slot.queue.length >= MAX_BATCH_SIZE) {
+      flush(slot);
+    } else if (!slot.flushTimer && !slot.inFlight) {
+      slot.flushTimer = setTimeout(() => flush(slot), BATCH_WINDOW_MS);
+    }
+  });
+}
+
+/**
+ * Resolves the in-flight batch with the worker's responses
+ * @param {object} slot - Worker slot
+ * @param {object} message - { batchId, responses }
+ */
+function handleBatchResult(slot, message) {
+  const inFlight = slot.inFlight;
+  if (!inFlight || inFlight.batchId !== message.batchId) return;
+  slot.inFlight = null;
+  slot.restarts = 0;
+
+  const now = Date.now();
+  const responsesById = new Map((message.responses || []).map(response => [response.id, response]));
+
+  inFlight.entries.forEach(entry => {
+    const response = responsesById.get(entry.request.id);
+    if (!response) {
+      entry.resolve(errorResponse(entry.request, 'No classification result returned', entry.kind));
+      return;
+    }
+    entry.resolve({
+      ...response,
+      metrics: {
+        queuedMs: inFlight.sentAt - entry.enqueuedAt,
+        inferenceMs: response.metrics?.inferenceMs ?? now - inFlight.sentAt,
+        totalMs: now - entry.enqueuedAt,
+        batchSize: inFlight.entries.length,
+      },
+    });
+  });
+
+  // Requests that queued up meanwhile already form the next batch
+  flush(slot);
+}
+
+// ---------- Pool Functions ----------
+/**
+ * Creates (or replaces) a classifier session on its worker
+ * @param {string} sessionId - Meeting identifier
+ * @param {Array<{label: string, description: string}>} topics - Topics to classify against
+ * @param {object} [params] - Classifier parameter overrides, e.g. { multiLabel: true }
+ */
+export function createSession(sessionId, topics, params = {}) {
+  if (!sessionId || isShuttingDown) return;
+  const slot = getSlot(sessionId);
+  sessionConfigs.set(sessionId, { ...sessionConfigs.get(sessionId), topics, params });
+  slot.worker?.postMessage({ type: 'create-session', sessionId, topics, params });
+}
+
+/**
+ * Replaces the open checklist questions a session matches turns against
+ * @param {string} sessionId - Meeting identifier
+ * @param {Array<{id: string, text: string}>} questions - Open questions
+ */
+export function setQuestions(sessionId, questions) {
+  if (!sessionId || isShuttingDown) return;
+  const slot = getSlot(sessionId);
+  sessionConfigs.set(sessionId, { ...sessionConfigs.get(sessionId), questions });
+  slot.worker?.postMessage({ type: 'set-questions', sessionId, questions });
+}
+
+/**
+ * Drops a classifier session, cancelling any of its queued requests
+ * @param {string} sessionId - Meeting identifier
+ */
+export function disposeSession(sessionId) {
+  if (!sessionSlots.has(sessionId)) return;
+  const slot = slots[sessionSlots.get(sessionId)];
+
+  cancelQueued(slot, entry => sessionIdOf(entry.request) === sessionId);
+  slot.worker?.postMessage({ type: 'dispose-session', sessionId });
+  sessionSlots.delete(sessionId);
+  sessionConfigs.delete(sessionId);
+}
+
+/**
+ * Queues a request for classification on its session's worker
+ * @param {object} request - Classification request (see textClassifier.classifyText)
+ * @returns {Promise<object>} The response, with `metrics` ({ queuedMs,
+ *   inferenceMs, totalMs, batchSize }); `cancelled: true` if a newer chunk
+ *   superseded it
+ */
+export function classifyText(request) {
+  if (!request || typeof request !== 'object' || !request.text) {
+    return Promise.resolve(errorResponse(request, 'Invalid request: missing text'));
+  }
+  if (isShuttingDown) {
+    return Promise.resolve(errorResponse(request, 'Classifier is shutting down'));
+  }
+
+  const sessionId = sessionIdOf(request);
+  const slot = getSlot(sessionId);
+  if (slot.failed) {
+    return Promise.resolve(errorResponse(request, 'Classifier unavailable'));
+  }
+
+  // A newer chunk from the same speaker makes their queued interim chunk stale
+  const source = sourceOf(request);
+  cancelQueued(slot, entry =>
+    entry.kind === 'classify' &&
+    isInterim(entry.request) &&
+    sessionIdOf(entry.request) === sessionId &&
+    sourceOf(entry.request) === source
+  );
+
+  return enqueue(slot, 'classify', request);
+}
+
+/**
+ * Queues a final transcript turn for checklist question matching
+ * @param {object} request - { id, sessionId, turnId, channel, text }
+ * @returns {Promise<object>} { id, asked, answered, metrics } (see questionMatcher.matchTurnBatch)
+ */
+export function matchTurn(request) {
+  if (!request || typeof request !== 'object' || !request.sessionId || !request.text) {
+    return Promise.resolve(errorResponse(request, 'Invalid request: missing session or text', 'match'));
+  }
+  if (isShuttingDown) {
+    return Promise.resolve(errorResponse(request, 'Classifier is shutting down', 'match'));
+  }
+
+  const slot = getSlot(request.sessionId);
+  if (slot.failed) {
+    return Promise.resolve(errorResponse(request, 'Classifier unavailable', 'match'));
+  }
+  return enqueue(slot, 'match', request);
+}
+
+/**
+ * Stops all workers, e.g. when the app quits
+ * @returns {Promise<void>}
+ */
+export async function shutdown() {
+  isShuttingDown = true;
+  await Promise.all(slots.map(async slot => {
+    clearTimeout(slot.flushTimer);
+    cancelQueued(slot, () => true);
+    if (slot.worker) await slot.worker.terminate();
+  }));
+}
+
+export default {
+  createSession,
+  setQuestions,
+  disposeSession,
+  classifyText,
+  matchTurn,
+  shutdown
+};
@@ -0,0 +1,53 @@
+/**
+ * Classifier worker
+ *
+ * Worker thread entry point spawned by classifierPool.mjs. Owns the
+ * classifier and question-matcher sessions assigned to it and runs embedding inference off the
+ * Electron main process. The pool sends at most one batch at a time, so
+ * messages are handled strictly in order.
+ */
+import { parentPort } from 'worker_threads';
+import textClassifier from './textClassifier.mjs';
+import questionMatcher from './questionMatcher.mjs';
+
+parentPort.on('message', async (message) => {
+  switch (message?.type) {
+    case 'create-session':
+      textClassifier.createSession(message.sessionId, message.topics, message.params);
+      break;
+
+    case 'set-questions':
+      questionMatcher.setQuestions(message.sessionId, message.questions);
+      break;
+
+    case 'dispose-session':
+      textClassifier.disposeSession(message.sessionId);
+      questionMatcher.disposeSession(message.sessionId);
+      break;
+
+    case 'classify-batch': {
+      let responses;
+      try {
+        responses = await textClassifier.classifyTextBatch(message.requests);
+      } catch (error) {
+        responses = message.requests.map(request => textClassifier.errorResponse(request, error));
+      }
+      parentPort.postMessage({ type: 'batch-result', batchId: message.batchId, responses });
+      break;
+    }
+
+    case 'match-batch': {
+      let responses;
+      try {
+        responses = await questionMatcher.matchTurnBatch(message.requests);
+      } catch (error) {
+        responses = message.requests.map(request => ({ id: request.id, asked: [], answered: [], error: error.message }));
+      }
+      parentPort.postMessage({ type: 'batch-result', batchId: message.batchId, responses });
+      break;
+    }
+
+    default:
+      console.warn('[ClassifierWorker] Unknown message type:', message?.type);
+  }
+});
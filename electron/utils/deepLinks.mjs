@@ -0,0 +1,101 @@
+/**
+ * Deep link module
+ *
+ * Routes `callcard://` URLs to a page in the renderer. Links come from the
+ * OS (macOS `open-url`, or the argv of a second instance on Windows/Linux)
+ * and from in-app sources such as pre-call reminders. Only known routes are
+ * accepted; anything else (e.g. OAuth redirects) is ignored.
+ */
+import windowManager from '../windows.mjs';
+
+// ---------- Configuration ----------
+export const DEEP_LINK_PROTOCOL = 'callcard';
+
+// First path segment -> whether it may be opened from a link
+const ALLOWED_ROUTES = new Set(['start-meeting', 'g-calendar', 'meetings']);
+
+// ---------- State Management ----------
+// Route received before the renderer was ready to navigate
+let pendingRoute = null;
+
+// ---------- Helper Functions ----------
+/**
+ * Converts a deep link into a renderer route
+ * @param {string} link - e.g. callcard://start-meeting/<templateId>?eventId=<id>
+ * @returns {string|null} Route such as /start-meeting/<templateId>?eventId=<id>, or null
+ */
+export function parseDeepLink(link) {
+  let parsed;
+  try {
+    parsed = new URL(link);
+  } catch (error) {
+    return null;
+  }
+  if (parsed.protocol !== `${DEEP_LINK_PROTOCOL}:`) return null;
+
+  // callcard://start-meeting/abc parses with host "start-meeting" and path "/abc"
+  const segments = [parsed.hostname, ...parsed.pathname.split('/')].filter(Boolean);
+  if (segments.length === 0 || !ALLOWED_ROUTES.has(segments[0])) return null;
+
+  return `/${segments.join('/')}${parsed.search}`;
+}
+
+/**
+ * Builds a deep link for a renderer route
+ * @param {string} route - Route without the leading slash, e.g. start-meeting/<templateId>
+ * @param {Object} [params] - Query parameters
+ * @returns {string} The callcard:// URL
+ */
+export function buildDeepLink(route, params = {}) {
+  const query = new URLSearchParams(params).toString();
+  return `${DEEP_LINK_PROTOCOL}://${route}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Finds a deep link among process arguments (Windows/Linux launch or second instance)
+ * @param {string[]} argv - Process arguments
+ * @returns {string|null} The deep link, if any
+ */
+export function findDeepLinkInArgs(argv) {
+  return argv.find(arg => arg.startsWith(`${DEEP_LINK_PROTOCOL}://`)) || null;
+}
+
+/**
+ * Brings the main window forward and navigates the renderer to the link's route
+ * @param {string} link - The callcard:// URL
+ * @returns {boolean} Whether the link was recognised
+ */
+export function handleDeepLink(link) {
+  const route = parseDeepLink(link);
+  if (!route) return false;
+
+  const mainWindow = windowManager.getMainWindow();
+  if (!mainWindow || mainWindow.isDestroyed() || mainWindow.webContents.isLoading()) {
+    pendingRoute = route;
+    return true;
+  }
+
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+  mainWindow.webContents.send('deep-link-navigate', route);
+  return true;
+}
+
+/**
+ * Returns and clears the route received before the renderer was ready
+ * @returns {string|null} The pending route
+ */
+export function consumePendingRoute() {
+  const route = pendingRoute;
+  pendingRoute = null;
+  return route;
+}
+
+export default {
+  parseDeepLink,
+  buildDeepLink,
+  findDeepLinkInArgs,
+  handleDeepLink,
+  consumePendingRoute
+};
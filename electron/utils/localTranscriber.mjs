@@ -0,0 +1,215 @@
+/**
+ * Local transcription module
+ *
+ * On-device speech-to-text used when a meeting runs with the "local" engine.
+ * The renderer streams the same 16kHz Int16 frames produced by
+ * audio-processor.js; audio is buffered per stream, transcribed with a Whisper
+ * model through @xenova/transformers, and sent back in the Deepgram result
+ * shape so the renderer can consume both engines identically.
+ */
+import { pipeline } from '@xenova/transformers';
+
+// ---------- Configuration ----------
+const MODEL_ASR = 'Xenova/whisper-base.en';
+const SAMPLE_RATE = 16000;
+
+// Audio is transcribed in windows of this length
+const CHUNK_SECONDS = 5;
+const CHUNK_SAMPLES = SAMPLE_RATE * CHUNK_SECONDS;
+
+// Windows quieter than this RMS are skipped (Whisper hallucinates on silence)
+const MIN_SPEECH_RMS = 0.01;
+
+// ---------- State Management ----------
+let asrModel = null;
+let asrModelPromise = null;
+
+// streamId -> { sender, chunks, sampleCount, offsetSeconds, queue }
+const sessions = new Map();
+
+// ---------- Helper Functions ----------
+/**
+ * Loads the speech recognition model if not already loaded
+ * @returns {Promise<Object>} The ASR pipeline
+ */
+async function getAsrModel() {
+  if (asrModel) return asrModel;
+  if (!asrModelPromise) {
+    asrModelPromise = pipeline('automatic-speech-recognition', MODEL_ASR, { quantized: true })
+      .then(model => {
+        asrModel = model;
+        return model;
+      })
+      .catch(error => {
+        asrModelPromise = null;
+        console.error('[LocalTranscriber] Error loading ASR model:', error);
+        throw new Error('Failed to load local transcription model');
+      });
+  }
+  return asrModelPromise;
+}
+
+/**
+ * Converts an Int16 PCM frame to Float32 samples in [-1, 1]
+ * @param {ArrayBuffer} frame - Int16 PCM frame
+ * @returns {Float32Array} Float samples
+ */
+function toFloat32(frame) {
+  const int16 = new Int16Array(frame);
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / (int16[i] < 0 ? 0x8000 : 0x7FFF);
+  }
+  return float32;
+}
+
+/**
+ * Root-mean-square level of a window, used as a cheap silence gate
+ * @param {Float32Array} samples - Audio samples
+ * @returns {number} RMS level
+ */
+function rms(samples) {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (samples.length || 1));
+}
+
+/**
+ * Wraps a local transcript in the Deepgram `Results` message shape
+ * @param {string} transcript - Transcribed text
+ * @param {number} start - Window start in seconds from stream start
+ * @param {number} duration - Window length in seconds
+ * @returns {Object} Deepgram-compatible result
+ */
+function buildResultMessage(transcript, start, duration) {
+  return {
+    type: 'Results',
+    is_final: true,
+    speech_final: true,
+    start,
+    duration,
+    channel: {
+      alternatives: [{ transcript, words: [] }],
+    },
+  };
+}
+
+/**
+ * Drains the buffered audio of a session into one window
+ * @param {Object} session - Session state
+ * @returns {{ samples: Float32Array, start: number }} Window samples and start offset
+ */
+function takeWindow(session) {
+  const samples = new Float32Array(session.sampleCount);
+  let offset = 0;
+  for (const chunk of session.chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const start = session.offsetSeconds;
+  session.chunks = [];
+  session.sampleCount = 0;
+  session.offsetSeconds += samples.length / SAMPLE_RATE;
+  return { samples, start };
+}
+
+/**
+ * Transcribes one window and sends the result to the session's renderer
+ * @param {string} streamId - Stream identifier
+ * @param {Object} session - Session state
+ * @param {Float32Array} samples - Window samples
+ * @param {number} start - Window start in seconds
+ */
+async function transcribeWindow(streamId, session, samples, start) {
+  if (samples.length === 0 || rms(samples) < MIN_SPEECH_RMS) return;
+
+  try {
+    const model = await getAsrModel();
+    const output = await model(samples, { sampling_rate: SAMPLE_RATE });
+    const transcript = (output?.text || '').trim();
+    if (!transcript || session.sender.isDestroyed()) return;
+
+    session.sender.send('local-transcription-result', {
+      streamId,
+      data: buildResultMessage(transcript, start, samples.length / SAMPLE_RATE),
+    });
+  } catch (error) {
+    console.error('[LocalTranscriber] Transcription error:', error);
+    if (!session.sender.isDestroyed()) {
+      session.sender.send('local-transcription-error', { streamId, error: error.message });
+    }
+  }
+}
+
+/**
+ * Queues the buffered audio for transcription, one window at a time per stream
+ * @param {string} streamId - Stream identifier
+ * @param {Object} session - Session state
+ * @returns {Promise<void>} Resolves once the queued window is processed
+ */
+function flushSession(streamId, session) {
+  const { samples, start } = takeWindow(session);
+  session.queue = session.queue.then(() => transcribeWindow(streamId, session, samples, start));
+  return session.queue;
+}
+
+// ---------- Public API ----------
+/**
+ * Starts a local transcription session, loading the model on first use
+ * @param {string} streamId - Renderer-generated stream identifier
+ * @param {Electron.WebContents} sender - Renderer to deliver results to
+ * @returns {Promise<Object>} `{ success }` or `{ success: false, error }`
+ */
+export async function startSession(streamId, sender) {
+  try {
+    await getAsrModel();
+    sessions.set(streamId, {
+      sender,
+      chunks: [],
+      sampleCount: 0,
+      offsetSeconds: 0,
+      queue: Promise.resolve(),
+    });
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Appends an audio frame to a session, transcribing once a full window is buffered
+ * @param {string} streamId - Stream identifier
+ * @param {ArrayBuffer} frame - Int16 PCM frame at 16kHz
+ */
+export function pushAudio(streamId, frame) {
+  const session = sessions.get(streamId);
+  if (!session || !frame) return;
+
+  const samples = toFloat32(frame);
+  session.chunks.push(samples);
+  session.sampleCount += samples.length;
+
+  if (session.sampleCount >= CHUNK_SAMPLES) {
+    flushSession(streamId, session);
+  }
+}
+
+/**
+ * Stops a session, transcribing whatever audio is still buffered
+ * @param {string} streamId - Stream identifier
+ * @returns {Promise<boolean>} Whether a session was stopped
+ */
+export async function stopSession(streamId) {
+  const session = sessions.get(streamId);
+  if (!session) return false;
+
+  sessions.delete(streamId);
+  await flushSession(streamId, session);
+  return true;
+}
+
+export default {
+  startSession,
+  pushAudio,
+  stopSession
+};
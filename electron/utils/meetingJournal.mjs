@@ -0,0 +1,145 @@
+/**
+ * Meeting session journal
+ *
+ * Keeps a crash-safe copy of the live meeting on disk, so a renderer reload
+ * or an app crash mid-call doesn't lose the transcript, checklist or timers.
+ * The renderer sends a full snapshot every few seconds; each one replaces the
+ * meeting's journal file atomically (temp file + rename). A meeting that ends
+ * normally clears its journal, so any journal found later belongs to an
+ * interrupted meeting and is offered for resume.
+ */
+import { app } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+
+// ---------- Configuration ----------
+const JOURNAL_DIRNAME = 'meeting-journal';
+
+// Journals older than this are too stale to resume and are deleted
+const MAX_RESUME_AGE_MS = 12 * 60 * 60 * 1000;
+
+// ---------- State Management ----------
+// meetingId -> promise of the meeting's last journal operation, so writes and
+// clears for one meeting never interleave
+const pendingOperations = new Map();
+
+// ---------- Helper Functions ----------
+const journalDir = () => path.join(app.getPath('userData'), JOURNAL_DIRNAME);
+const journalPath = (meetingId) => path.join(journalDir(), `${encodeURIComponent(meetingId)}.json`);
+
+/**
+ * Runs a journal operation after the meeting's previous one has settled
+ * @param {string} meetingId - Meeting identifier
+ * @param {Function} operation - Async operation
+ * @returns {Promise<*>} The operation's result
+ */
+function enqueue(meetingId, operation) {
+  const previous = pendingOperations.get(meetingId) || Promise.resolve();
+  const next = previous.catch(() => {}).then(operation);
+  pendingOperations.set(meetingId, next);
+  next.finally(() => {
+    if (pendingOperations.get(meetingId) === next) pendingOperations.delete(meetingId);
+  }).catch(() => {});
+  return next;
+}
+
+/**
+ * Reads and parses a journal file
+ * @param {string} filePath - Journal file
+ * @returns {Promise<object|null>} The snapshot, or null if unreadable
+ */
+async function readSnapshot(filePath) {
+  try {
+    const snapshot = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    return snapshot?.meeting?.id ? snapshot : null;
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error(`[MeetingJournal] Unreadable journal ${filePath}:`, error.message);
+    }
+    return null;
+  }
+}
+
+const isStale = (snapshot) => Date.now() - (snapshot.savedAt || 0) > MAX_RESUME_AGE_MS;
+
+// ---------- Journal Functions ----------
+/**
+ * Replaces a meeting's journal with a new snapshot
+ * @param {object} snapshot - Meeting snapshot; must include meeting.id
+ * @returns {Promise<boolean>} Whether the snapshot was written
+ */
+export function writeJournal(snapshot) {
+  const meetingId = snapshot?.meeting?.id;
+  if (!meetingId) return Promise.resolve(false);
+
+  return enqueue(meetingId, async () => {
+    const filePath = journalPath(meetingId);
+    const tempPath = `${filePath}.tmp`;
+    try {
+      await fs.mkdir(journalDir(), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify({ ...snapshot, savedAt: Date.now() }), 'utf8');
+      await fs.rename(tempPath, filePath);
+      return true;
+    } catch (error) {
+      console.error(`[MeetingJournal] Error writing journal for meeting ${meetingId}:`, error);
+      return false;
+    }
+  });
+}
+
+/**
+ * Returns a meeting's journaled snapshot
+ * @param {string} meetingId - Meeting identifier
+ * @returns {Promise<object|null>} The snapshot, or null if there is none
+ */
+export function readJournal(meetingId) {
+  if (!meetingId) return Promise.resolve(null);
+  return enqueue(meetingId, () => readSnapshot(journalPath(meetingId)));
+}
+
+/**
+ * Finds the most recent interrupted meeting. Stale and unreadable journals
+ * are deleted along the way.
+ * @returns {Promise<object|null>} The newest snapshot, or null if there is none
+ */
+export async function findInterruptedMeeting() {
+  let files;
+  try {
+    files = (await fs.readdir(journalDir())).filter(file => file.endsWith('.json'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') console.error('[MeetingJournal] Error listing journals:', error);
+    return null;
+  }
+
+  let newest = null;
+  for (const file of files) {
+    const filePath = path.join(journalDir(), file);
+    const snapshot = await readSnapshot(filePath);
+    if (!snapshot || isStale(snapshot)) {
+      await fs.rm(filePath, { force: true });
+      continue;
+    }
+    if (!newest || snapshot.savedAt > newest.savedAt) newest = snapshot;
+  }
+  return newest;
+}
+
+/**
+ * Deletes a meeting's journal once the meeting has ended or was discarded
+ * @param {string} meetingId - Meeting identifier
+ * @returns {Promise<void>}
+ */
+export function clearJournal(meetingId) {
+  if (!meetingId) return Promise.resolve();
+  return enqueue(meetingId, async () => {
+    const filePath = journalPath(meetingId);
+    await Promise.all([fs.rm(filePath, { force: true }), fs.rm(`${filePath}.tmp`, { force: true })]);
+  });
+}
+
+export default {
+  writeJournal,
+  readJournal,
+  findInterruptedMeeting,
+  clearJournal
+};
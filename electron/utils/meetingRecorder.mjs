@@ -0,0 +1,131 @@
+/**
+ * Meeting recorder
+ *
+ * Writes opt-in meeting recordings to disk as the renderer streams them. The
+ * renderer mixes the mic (left channel) and system loopback (right channel)
+ * into one stereo MediaRecorder stream and sends its chunks every second;
+ * this module appends them to a file per meeting under userData, so a long
+ * call never has to be held in renderer memory. Recordings are read back
+ * only from that directory.
+ */
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+
+// ---------- Configuration ----------
+const RECORDINGS_DIRNAME = 'recordings';
+
+// ---------- State Management ----------
+// meetingId -> { stream, filePath, bytes, startedAt }
+const activeRecordings = new Map();
+
+// ---------- Helper Functions ----------
+const recordingsDir = () => path.join(app.getPath('userData'), RECORDINGS_DIRNAME);
+
+const extensionFor = (mimeType) => (mimeType?.includes('ogg') ? 'ogg' : 'webm');
+
+/**
+ * Resolves a recording path, refusing anything outside the recordings directory
+ * @param {string} filePath - Path from the renderer
+ * @returns {string|null} The resolved path, or null if not allowed
+ */
+function resolveRecordingPath(filePath) {
+  if (typeof filePath !== 'string') return null;
+  const resolved = path.resolve(filePath);
+  return resolved.startsWith(recordingsDir() + path.sep) ? resolved : null;
+}
+
+/**
+ * Ends a recording's file stream
+ * @param {object} recording - Active recording
+ * @returns {Promise<void>}
+ */
+function closeStream(recording) {
+  return new Promise(resolve => {
+    recording.stream.end(resolve);
+  });
+}
+
+// ---------- Recorder Functions ----------
+/**
+ * Opens the recording file for a meeting. Starting again for the same meeting
+ * (e.g. after a crash resume) starts a new file.
+ * @param {string} meetingId - Meeting identifier
+ * @param {string} mimeType - MediaRecorder mime type
+ * @returns {Promise<{filePath: string}>}
+ */
+export async function startRecording(meetingId, mimeType) {
+  if (!meetingId) throw new Error('Missing meeting id');
+  if (activeRecordings.has(meetingId)) {
+    await stopRecording(meetingId);
+  }
+
+  await fs.promises.mkdir(recordingsDir(), { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filePath = path.join(recordingsDir(), `${encodeURIComponent(meetingId)}-${stamp}.${extensionFor(mimeType)}`);
+  const stream = fs.createWriteStream(filePath);
+  stream.on('error', error => {
+    console.error(`[MeetingRecorder] Error writing recording for meeting ${meetingId}:`, error);
+  });
+
+  activeRecordings.set(meetingId, { stream, filePath, bytes: 0, startedAt: Date.now() });
+  return { filePath };
+}
+
+/**
+ * Appends a chunk of encoded audio; chunks arrive in order over IPC
+ * @param {string} meetingId - Meeting identifier
+ * @param {Uint8Array} chunk - Encoded audio
+ */
+export function appendChunk(meetingId, chunk) {
+  const recording = activeRecordings.get(meetingId);
+  if (!recording || !chunk?.byteLength) return;
+  recording.stream.write(Buffer.from(chunk));
+  recording.bytes += chunk.byteLength;
+}
+
+/**
+ * Closes a meeting's recording file
+ * @param {string} meetingId - Meeting identifier
+ * @returns {Promise<{filePath: string, bytes: number}|null>} null if nothing was recording
+ */
+export async function stopRecording(meetingId) {
+  const recording = activeRecordings.get(meetingId);
+  if (!recording) return null;
+  activeRecordings.delete(meetingId);
+
+  await closeStream(recording);
+  return { filePath: recording.filePath, bytes: recording.bytes };
+}
+
+/**
+ * Reads a finished recording for playback
+ * @param {string} filePath - Recording path, as returned by stopRecording
+ * @returns {Promise<Uint8Array|null>} The file contents, or null if missing or not allowed
+ */
+export async function readRecording(filePath) {
+  const resolved = resolveRecordingPath(filePath);
+  if (!resolved) return null;
+  try {
+    return new Uint8Array(await fs.promises.readFile(resolved));
+  } catch (error) {
+    if (error.code !== 'ENOENT') console.error('[MeetingRecorder] Error reading recording:', error);
+    return null;
+  }
+}
+
+/**
+ * Closes every open recording file; called on app quit
+ * @returns {Promise<void>}
+ */
+export async function stopAll() {
+  await Promise.all([...activeRecordings.keys()].map(stopRecording));
+}
+
+export default {
+  startRecording,
+  appendChunk,
+  stopRecording,
+  readRecording,
+  stopAll
+};
@@ -34,29 +34,61 @@ const getNotificationIcon = () => {
 };
 
 
+// Builds the options shared by every notification (icon, sound, urgency)
+function buildNotificationOptions(title, body) {
+  const icon = getNotificationIcon();
+  const notificationOptions = {
+    title,
+    body,
+    silent: false, // Ensure sound plays
+    urgency: 'normal', // Set urgency level
+  };
+
+  if (icon) {
+    notificationOptions.icon = icon;
+  }
+
+  return notificationOptions;
+}
+
 // A utility function to show a native Electron notification.
 // This can be expanded to handle different notification types.
 function showNotification(title, body) {
   if (Notification.isSupported()) {
-    const icon = getNotificationIcon();
-    const notificationOptions = {
-      title,
-      body,
-      silent: false, // Ensure sound plays
-      urgency: 'normal', // Set urgency level
-    };
-
-    if (icon) {
-      notificationOptions.icon = icon;
-    }
-
-    const notification = new Notification(notificationOptions);
+    const notification = new Notification(buildNotificationOptions(title, body));
     notification.show();
   } else {
     console.log('Notifications are not supported on this system.');
   }
 }
 
+// Shows a notification with action buttons. `actions` is a list of
+// { text, onSelect }; clicking the notification body runs `onClick`.
+// Action buttons are only rendered on macOS, so `onClick` must lead
+// somewhere useful on its own.
+function showActionNotification({ title, body, actions = [], onClick }) {
+  if (!Notification.isSupported()) {
+    console.log('Notifications are not supported on this system.');
+    return null;
+  }
+
+  const notification = new Notification({
+    ...buildNotificationOptions(title, body),
+    urgency: 'critical', // Keep it on screen until the user reacts
+    actions: actions.map(action => ({ type: 'button', text: action.text })),
+  });
+
+  notification.on('action', (event, index) => {
+    actions[index]?.onSelect();
+  });
+  if (onClick) {
+    notification.on('click', onClick);
+  }
+
+  notification.show();
+  return notification;
+}
+
 // Specific function for sending a test notification.
 function sendTestNotification() {
   showNotification(
@@ -76,4 +108,5 @@ function showMeetingNotification(notificationData) {
 export default {
   sendTestNotification,
   showMeetingNotification,
+  showActionNotification,
 }; 
\ No newline at end of file
@@ -0,0 +1,192 @@
+/**
+ * Checklist question matcher
+ *
+ * Detects, from transcript semantics, when the rep has asked one of the call
+ * card's checklist questions and when the prospect answered it. Mic turns
+ * are compared against the open questions with the local embedding model; a
+ * close match marks the question as asked. The next substantive system audio
+ * (prospect) turn that relates to an asked question completes it. The
+ * renderer keeps the list of open questions in sync, so a question it
+ * re-opens (undo) can be matched again later.
+ *
+ * Runs inside classifierWorker.mjs threads, next to the topic classifier.
+ */
+import { embedTexts, similarityScore } from './textClassifier.mjs';
+
+// ---------- Configuration ----------
+// Mic turn vs question: the rep asked it (0-1 scale, see similarityScore)
+const ASKED_THRESHOLD = 0.8;
+
+// System audio turn vs an asked question: the prospect's reply is on topic
+const ANSWER_THRESHOLD = 0.6;
+
+// Backchannels ("yeah", "sure") don't count as answers
+const MIN_ANSWER_WORDS = 3;
+
+// Prospect turns an asked question waits for its answer before it is dropped
+const ANSWER_WINDOW_TURNS = 4;
+
+// ---------- State Management ----------
+// sessionId -> { questions, embeddings, pending, ready }
+// pending: questionId -> { askedTurnId, askedScore, turnsWaited }
+const sessions = new Map();
+
+// ---------- Helper Functions ----------
+const wordCount = (text) => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Returns a session, creating an empty one on first use
+ * @param {string} sessionId - Meeting identifier
+ * @returns {object} The session
+ */
+function getSession(sessionId) {
+  if (!sessions.has(sessionId)) {
+    sessions.set(sessionId, { questions: [], embeddings: new Map(), pending: new Map(), ready: Promise.resolve() });
+  }
+  return sessions.get(sessionId);
+}
+
+/**
+ * Applies one final turn to a session's asked/answered state
+ * @param {object} session - Matcher session
+ * @param {object} request - { turnId, channel, text }
+ * @param {ArrayLike<number>|null} textEmb - Turn embedding, null if too short to embed
+ * @returns {{asked: Array<object>, answered: Array<object>}}
+ */
+function applyTurn(session, request, textEmb) {
+  const asked = [];
+  const answered = [];
+  if (!textEmb) return { asked, answered };
+
+  if (request.channel === 'mic') {
+    // The rep's turn: which open question (if any) did they just ask?
+    let best = null;
+    session.questions.forEach(question => {
+      const embedding = session.embeddings.get(question.id);
+      if (!embedding) return;
+      const score = similarityScore(textEmb, embedding);
+      if (score >= ASKED_THRESHOLD && (!best || score > best.score)) {
+        best = { questionId: question.id, score };
+      }
+    });
+
+    if (best) {
+      session.pending.set(best.questionId, { askedTurnId: request.turnId, askedScore: best.score, turnsWaited: 0 });
+      asked.push({ questionId: best.questionId, turnId: request.turnId, score: best.score });
+    }
+    return { asked, answered };
+  }
+
+  // The prospect's turn: does it answer a question the rep asked?
+  const isSubstantive = wordCount(request.text) >= MIN_ANSWER_WORDS;
+  session.pending.forEach((pending, questionId) => {
+    const embedding = session.embeddings.get(questionId);
+    const score = embedding ? similarityScore(textEmb, embedding) : 0;
+
+    if (isSubstantive && score >= ANSWER_THRESHOLD) {
+      answered.push({
+        questionId,
+        askedTurnId: pending.askedTurnId,
+        answeredTurnId: request.turnId,
+        score: Math.min(pending.askedScore, score),
+      });
+      session.pending.delete(questionId);
+      return;
+    }
+
+    pending.turnsWaited++;
+    if (pending.turnsWaited >= ANSWER_WINDOW_TURNS) {
+      session.pending.delete(questionId);
+    }
+  });
+
+  return { asked, answered };
+}
+
+// ---------- Matcher Functions ----------
+/**
+ * Replaces a session's open checklist questions. Embeddings of questions
+ * already known are kept; questions no longer open stop waiting for answers.
+ *
+ * @param {string} sessionId - Meeting identifier
+ * @param {Array<{id: string, text: string}>} questions - Open questions
+ * @returns {Promise<void>} Resolves once the new embeddings are ready
+ */
+export function setQuestions(sessionId, questions) {
+  const session = getSession(sessionId);
+  const open = (questions || []).filter(question => question?.id && question.text?.trim());
+  const openIds = new Set(open.map(question => question.id));
+
+  session.questions = open;
+  session.pending.forEach((pending, questionId) => {
+    if (!openIds.has(questionId)) session.pending.delete(questionId);
+  });
+
+  const missing = open.filter(question => !session.embeddings.has(question.id));
+  const previous = session.ready;
+  session.ready = previous
+    .then(() => embedTexts(missing.map(question => question.text)))
+    .then(embeddings => {
+      missing.forEach((question, index) => session.embeddings.set(question.id, embeddings[index]));
+    })
+    .catch(error => {
+      console.error(`[QuestionMatcher] Error embedding questions for session ${sessionId}:`, error);
+    });
+  return session.ready;
+}
+
+/**
+ * Drops a session's questions and pending asks
+ * @param {string} sessionId - Meeting identifier
+ */
+export function disposeSession(sessionId) {
+  sessions.delete(sessionId);
+}
+
+/**
+ * Matches a batch of final transcript turns, in order, with one embedding pass
+ * @param {Array<object>} requests - [{ id, sessionId, turnId, channel, text }]
+ * @returns {Promise<Array<object>>} One response per request:
+ *   { id, asked: [{ questionId, turnId, score }],
+ *     answered: [{ questionId, askedTurnId, answeredTurnId, score }], metrics }
+ */
+export async function matchTurnBatch(requests) {
+  const startedAt = Date.now();
+  const responses = new Array(requests.length);
+
+  try {
+    const targets = requests.map(request => (request.sessionId ? getSession(request.sessionId) : null));
+    await Promise.all(targets.filter(Boolean).map(session => session.ready));
+
+    // Sessions without open questions have nothing to match
+    const toEmbed = requests
+      .map((request, index) => ({ request, index, session: targets[index] }))
+      .filter(({ request, session }) =>
+        session && session.questions.length > 0 && typeof request.text === 'string' && request.text.trim()
+      );
+    const embeddings = await embedTexts(toEmbed.map(({ request }) => request.text));
+    const embeddingByIndex = new Map(toEmbed.map(({ index }, row) => [index, embeddings[row]]));
+
+    requests.forEach((request, index) => {
+      const session = targets[index];
+      const result = session
+        ? applyTurn(session, request, embeddingByIndex.get(index) || null)
+        : { asked: [], answered: [] };
+      responses[index] = { id: request.id, ...result };
+    });
+  } catch (error) {
+    console.error('[QuestionMatcher] Batch matching error:', error);
+    requests.forEach((request, index) => {
+      responses[index] = { id: request.id, asked: [], answered: [], error: error.message };
+    });
+  }
+
+  const metrics = { inferenceMs: Date.now() - startedAt, batchSize: requests.length };
+  return responses.map(response => ({ ...response, metrics }));
+}
+
+export default {
+  setQuestions,
+  disposeSession,
+  matchTurnBatch
+};
@@ -3,6 +3,13 @@
  *
  * This module provides functions to classify text from meeting transcripts
  * and identify important segments, topics, and sentiment using semantic similarity.
+ *
+ * Each meeting classifies against its own session: the call card's topics,
+ * their embeddings and the EMA/hysteresis state live in the session, so one
+ * meeting's labels and smoothing never leak into the next.
+ *
+ * In the app this module runs inside classifierWorker.mjs threads (see
+ * classifierPool.mjs), never in the Electron main process.
  */
 import { pipeline, env } from '@xenova/transformers';
 
@@ -22,18 +29,33 @@ const MIN_CONFIDENCE_THRESHOLD = 0.62;
 
 // Hysteresis for topic "stickiness"
 const HYSTERESIS_SWITCH_FACTOR = 1.10; // New topic must be 10% stronger to switch.
-const HYSTERESIS_DEACTIVATION_THRESHOLD = MIN_CONFIDENCE_THRESHOLD - 0.05; // Score drop-off point.
+const HYSTERESIS_DEACTIVATION_MARGIN = 0.05; // Drop-off point, below the confidence threshold.
+
+// Multi-label policy: topics that stay active at the same time
+const MAX_ACTIVE_TOPICS = 3;
+
+// Tunable parameters. Sessions can override them, which is how
+// scripts/evaluate-classifier.mjs sweeps candidate values.
+export const DEFAULT_PARAMS = Object.freeze({
+  emaAlpha: EMA_ALPHA,
+  minConfidence: MIN_CONFIDENCE_THRESHOLD,
+  switchFactor: HYSTERESIS_SWITCH_FACTOR,
+  deactivationMargin: HYSTERESIS_DEACTIVATION_MARGIN,
+  multiLabel: false,
+  maxActiveTopics: MAX_ACTIVE_TOPICS,
+});
+
+// Session used by requests that don't name one
+const DEFAULT_SESSION_ID = 'default';
 
 // ---------- State Management ----------
-// Cache for model and embeddings
+// Cache for the model (shared by all sessions)
 let embeddingModel = null;
-const labelEmbeddings = new Map();
-
-// State for smoothing
-const emaScores = new Map();
 
-// State for Hysteresis
-let activeTopicState = { label: null, score: 0 };
+// sessionId -> { topics, params, labelEmbeddings, emaScores, activeTopicState, topicStates, ready }
+// activeTopicState is the single stable topic; topicStates (label -> { active, score })
+// holds the per-topic hysteresis used in multi-label mode
+const sessions = new Map();
 
 // ---------- Helper Functions ----------
 /**
@@ -64,22 +86,25 @@ function penalizeShort(score, text) {
 
 /**
  * Gets or initializes EMA state for a label
+ * @param {object} session - Classifier session
  * @param {string} label - Classification label
  * @returns {object} Label state object
  */
-function getLabelState(label) {
-  if (!emaScores.has(label)) emaScores.set(label, { ema: 0, history: [] });
-  return emaScores.get(label);
+function getLabelState(session, label) {
+  if (!session.emaScores.has(label)) session.emaScores.set(label, { ema: 0, history: [] });
+  return session.emaScores.get(label);
 }
 
 /**
  * Updates the exponential moving average for a label
+ * @param {object} session - Classifier session
  * @param {string} label - Classification label
  * @param {number} score - Current score
  */
-function updateEMA(label, score) {
-  const st = getLabelState(label);
-  st.ema = EMA_ALPHA * score + (1 - EMA_ALPHA) * st.ema;
+function updateEMA(session, label, score) {
+  const st = getLabelState(session, label);
+  const { emaAlpha } = session.params;
+  st.ema = emaAlpha * score + (1 - emaAlpha) * st.ema;
   st.history.push(score);
   if (st.history.length > WINDOW_KEEP) st.history.shift();
 }
@@ -105,10 +130,11 @@ async function getEmbeddingModel() {
 
 /**
  * Precomputes embeddings for topic descriptions
+ * @param {Map<string, Array<number>>} labelEmbeddings - Session map to fill
  * @param {Array<Object>} topics - Array of topic objects with label and description
  * @returns {Promise<void>}
  */
-async function precomputeTopicEmbeddings(topics) {
+async function precomputeTopicEmbeddings(labelEmbeddings, topics) {
   const embedder = await getEmbeddingModel();
 
   for (const topic of topics) {
@@ -126,115 +152,341 @@ async function precomputeTopicEmbeddings(topics) {
   }
 }
 
+/**
+ * Embeds several texts in one forward pass of the shared model
+ * @param {string[]} texts - Texts to embed
+ * @returns {Promise<Array<Float32Array>>} One normalized embedding per text
+ */
+export async function embedTexts(texts) {
+  if (texts.length === 0) return [];
+  const embedder = await getEmbeddingModel();
+
+  // Rows of the [n, dim] output tensor
+  const output = await embedder(texts, { pooling: 'mean', normalize: true });
+  const dim = output.dims[output.dims.length - 1];
+  return texts.map((text, row) => output.data.subarray(row * dim, (row + 1) * dim));
+}
+
+/**
+ * Similarity of two normalized embeddings mapped to 0-1, the scale all
+ * classifier thresholds use
+ * @param {ArrayLike<number>} a - First embedding
+ * @param {ArrayLike<number>} b - Second embedding
+ * @returns {number} Score (0 to 1)
+ */
+export function similarityScore(a, b) {
+  return (1 + cosineSim(a, b)) / 2;
+}
+
+// ---------- Session Functions ----------
+/**
+ * Creates (or replaces) the classifier session for a meeting. Topic
+ * embeddings are computed in the background; classification waits for them.
+ *
+ * @param {string} sessionId - Meeting identifier
+ * @param {Array<{id: string, label: string, description: string}>} topics - Topics to classify against
+ * @param {object} [params] - Overrides for DEFAULT_PARAMS
+ * @returns {Promise<void>} Resolves once the topic embeddings are ready
+ */
+export function createSession(sessionId, topics, params = {}) {
+  const sessionTopics = Array.isArray(topics) && topics.length > 0 ? topics : DEFAULT_TOPICS;
+  const sessionParams = { ...DEFAULT_PARAMS, ...params };
+
+  // Re-sending the same topics (e.g. after a re-render) keeps the smoothing state
+  const existing = sessions.get(sessionId);
+  if (
+    existing &&
+    JSON.stringify(existing.topics) === JSON.stringify(sessionTopics) &&
+    JSON.stringify(existing.params) === JSON.stringify(sessionParams)
+  ) {
+    return existing.ready;
+  }
+  const labelEmbeddings = new Map();
+  const session = {
+    topics: sessionTopics,
+    params: sessionParams,
+    labelEmbeddings,
+    emaScores: new Map(),
+    activeTopicState: { label: null, score: 0 },
+    topicStates: new Map(),
+    ready: precomputeTopicEmbeddings(labelEmbeddings, sessionTopics).catch(error => {
+      console.error(`[TextClassifier] Error preparing session ${sessionId}:`, error);
+    }),
+  };
+
+  sessions.set(sessionId, session);
+  return session.ready;
+}
+
+/**
+ * Drops a meeting's classifier session and all of its state
+ * @param {string} sessionId - Meeting identifier
+ * @returns {boolean} Whether a session was removed
+ */
+export function disposeSession(sessionId) {
+  return sessions.delete(sessionId);
+}
+
 // ---------- Classification Functions ----------
+/**
+ * Looks up the session a request classifies in; the default session is
+ * created on first use, any other session must have been created first
+ * @param {string} sessionId - Classifier session (meeting) identifier
+ * @returns {object} The session
+ */
+function getSession(sessionId) {
+  if (!sessions.has(sessionId)) {
+    if (sessionId !== DEFAULT_SESSION_ID) {
+      throw new Error(`Unknown classifier session: ${sessionId}`);
+    }
+    createSession(DEFAULT_SESSION_ID, DEFAULT_TOPICS);
+  }
+  return sessions.get(sessionId);
+}
+
+/**
+ * Whether a text is long enough to be embedded and scored
+ * @param {string} text - Text content to classify
+ * @returns {boolean}
+ */
+function isClassifiable(text) {
+  return !!text && typeof text === 'string' && !!text.trim() && text.length >= MIN_CHARS_FOR_CONFIDENT;
+}
+
+/**
+ * Returns a session's current stable topic without scoring new text
+ * @param {object} session - Classifier session
+ * @returns {object} Classification result
+ */
+function currentState(session) {
+  return {
+    label: session.activeTopicState.label || 'none',
+    score: session.activeTopicState.score,
+    topCandidates: [], // No candidates for empty text
+    activeTopics: listActiveTopics(session),
+  };
+}
+
+/**
+ * Lists the topics currently active in a session, strongest first. In
+ * single-label mode that is at most the stable topic.
+ * @param {object} session - Classifier session
+ * @returns {Array<{label: string, score: number, ema: number}>}
+ */
+function listActiveTopics(session) {
+  const active = session.params.multiLabel
+    ? [...session.topicStates.entries()]
+        .filter(([, state]) => state.active)
+        .map(([label, state]) => ({ label, score: state.score }))
+        .sort((a, b) => b.score - a.score)
+    : session.activeTopicState.label
+      ? [{ label: session.activeTopicState.label, score: session.activeTopicState.score }]
+      : [];
+
+  return active.map(topic => ({ ...topic, ema: getLabelState(session, topic.label).ema }));
+}
+
+/**
+ * Multi-label hysteresis: each topic activates and deactivates on its own.
+ * A topic joins only if it clears the confidence threshold and is within the
+ * switch factor of the strongest topic; once active it stays until it drops
+ * below the deactivation point or is pushed out by stronger topics.
+ *
+ * @param {object} session - Classifier session
+ * @param {Array<{label: string, score: number}>} results - Scores, strongest first
+ */
+function updateTopicStates(session, results) {
+  const { params, topicStates } = session;
+  const topScore = results.length > 0 ? results[0].score : 0;
+  let activeCount = 0;
+
+  for (const res of results) {
+    const state = topicStates.get(res.label) || { active: false, score: 0 };
+    const stays = state.active && res.score >= params.minConfidence - params.deactivationMargin;
+    const joins = res.score >= params.minConfidence && res.score * params.switchFactor >= topScore;
+
+    state.active = (stays || joins) && activeCount < params.maxActiveTopics;
+    state.score = state.active ? res.score : 0;
+    if (state.active) activeCount++;
+    topicStates.set(res.label, state);
+  }
+}
+
+/**
+ * Scores a text embedding against a session's topics and advances the
+ * session's hysteresis and EMA state.
+ *
+ * @param {object} session - Classifier session
+ * @param {string} text - Text the embedding was computed from
+ * @param {ArrayLike<number>} textEmb - Normalized text embedding
+ * @returns {object} Classification result with a stable label and scores
+ */
+function scoreEmbedding(session, text, textEmb) {
+  const { topics, params, labelEmbeddings, activeTopicState } = session;
+
+  // Calculate semantic scores for all topics
+  const results = topics.map(topic => {
+    if (!labelEmbeddings.has(topic.label)) {
+      return { label: topic.label, score: 0 };
+    }
+    let score = similarityScore(textEmb, labelEmbeddings.get(topic.label));
+    score = penalizeShort(score, text);
+    return { label: topic.label, score };
+  });
+
+  results.sort((a, b) => b.score - a.score);
+
+  // ⭐ --- New: Get top 3 candidates and format as percentage ---
+  const topCandidates = results.slice(0, 3).map(res => ({
+    label: res.label,
+    percentage: Math.round(res.score * 100),
+  }));
+
+  // Hysteresis Logic for the stable topic (remains unchanged)
+  const topResult = results[0];
+  const activeTopicCurrentResult = activeTopicState.label
+    ? results.find(r => r.label === activeTopicState.label)
+    : null;
+  const activeTopicCurrentScore = activeTopicCurrentResult ? activeTopicCurrentResult.score : 0;
+
+  if (!activeTopicState.label) {
+    if (topResult && topResult.score >= params.minConfidence) {
+      activeTopicState.label = topResult.label;
+      activeTopicState.score = topResult.score;
+    }
+  } else {
+    if (
+      topResult.label !== activeTopicState.label &&
+      topResult.score > activeTopicCurrentScore * params.switchFactor
+    ) {
+      activeTopicState.label = topResult.label;
+      activeTopicState.score = topResult.score;
+    } else if (activeTopicCurrentScore < params.minConfidence - params.deactivationMargin) {
+      activeTopicState.label = null;
+      activeTopicState.score = 0;
+    } else {
+      activeTopicState.score = activeTopicCurrentScore;
+    }
+  }
+
+  // Multi-label mode tracks every topic's own hysteresis state as well
+  if (params.multiLabel) {
+    updateTopicStates(session, results);
+  }
+
+  // Update EMA state based on the STABLE active topic(s)
+  for (const res of results) {
+    let scoreForEma;
+    if (params.multiLabel) {
+      scoreForEma = session.topicStates.get(res.label)?.score ?? 0.0;
+    } else {
+      scoreForEma = (res.label === activeTopicState.label) ? activeTopicState.score : 0.0;
+    }
+    updateEMA(session, res.label, scoreForEma);
+  }
+
+  // Return the stable result along with the top candidates
+  const st = activeTopicState.label ? getLabelState(session, activeTopicState.label) : { ema: 0, history: [] };
+
+  return {
+    label: activeTopicState.label || 'none',
+    score: activeTopicState.score,
+    ema: st.ema,
+    matches: st.history.filter(s => s > 0).length,
+    topCandidates: topCandidates, // ⭐ Add the new field to the result
+    activeTopics: listActiveTopics(session),
+  };
+}
+
+/**
+ * Builds the result returned when classification fails
+ * @param {Error} error - The failure
+ * @returns {object} Error classification result
+ */
+function errorResult(error) {
+  return {
+    label: 'error',
+    score: 0,
+    ema: 0,
+    error: error.message,
+    topCandidates: [],
+    activeTopics: [],
+  };
+}
+
 /**
  * Classifies text using semantic similarity and hysteresis logic for stability.
  *
  * @param {string} text - Text content to classify
- * @param {Array<{id: string, label: string, description: string}>} [topics] - Topics to classify against
+ * @param {string} [sessionId] - Classifier session (meeting) to classify in
  * @returns {Promise<object>} Classification result with a stable label and scores
  */
-export async function classify(text, topics = null) {
+export async function classify(text, sessionId = DEFAULT_SESSION_ID) {
   try {
-    // Basic validation
-    if (!text || typeof text !== 'string' || !text.trim() || text.length < MIN_CHARS_FOR_CONFIDENT) {
-        // Even on empty text, return the current state
-        return {
-            label: activeTopicState.label || 'none',
-            score: activeTopicState.score,
-            topCandidates: [], // No candidates for empty text
-        };
-    }
+    const session = getSession(sessionId);
 
-    // If no topics provided or empty array, use default topics
-    if (!topics || !Array.isArray(topics) || topics.length === 0) {
-      topics = DEFAULT_TOPICS;
+    // Basic validation: even on empty text, return the current state
+    if (!isClassifiable(text)) {
+      return currentState(session);
     }
 
-    // Precompute topic embeddings if needed
-    if (labelEmbeddings.size === 0) {
-      await precomputeTopicEmbeddings(topics);
-    }
+    // Wait for the session's topic embeddings
+    await session.ready;
 
     // Get the embedding model
     const embedder = await getEmbeddingModel();
 
     // Calculate text embedding
     const textEmbRaw = await embedder(text, { pooling: 'mean', normalize: true });
-    const textEmb = textEmbRaw.data;
+    return scoreEmbedding(session, text, textEmbRaw.data);
+  } catch (error) {
+    console.error('[TextClassifier] Classification error:', error);
+    return errorResult(error);
+  }
+}
 
-    // Calculate semantic scores for all topics
-    const results = topics.map(topic => {
-      if (!labelEmbeddings.has(topic.label)) {
-        return { label: topic.label, score: 0 };
-      }
-      let score = (1 + cosineSim(textEmb, labelEmbeddings.get(topic.label))) / 2;
-      score = penalizeShort(score, text);
-      return { label: topic.label, score };
-    });
+/**
+ * Classifies several texts with a single embedding pass. Results are scored
+ * in input order, so texts from the same session advance its hysteresis
+ * state exactly as if they had been classified one by one.
+ *
+ * @param {Array<{text: string, sessionId?: string}>} items - Texts to classify
+ * @returns {Promise<Array<object>>} One classification result per item
+ */
+export async function classifyBatch(items) {
+  const results = new Array(items.length);
+  const pending = [];
 
-    results.sort((a, b) => b.score - a.score);
-    
-    // ⭐ --- New: Get top 3 candidates and format as percentage ---
-    const topCandidates = results.slice(0, 3).map(res => ({
-      label: res.label,
-      percentage: Math.round(res.score * 100),
-    }));
-
-    // Hysteresis Logic for the stable topic (remains unchanged)
-    const topResult = results[0];
-    const activeTopicCurrentResult = activeTopicState.label
-      ? results.find(r => r.label === activeTopicState.label)
-      : null;
-    const activeTopicCurrentScore = activeTopicCurrentResult ? activeTopicCurrentResult.score : 0;
-
-    if (!activeTopicState.label) {
-      if (topResult.score >= MIN_CONFIDENCE_THRESHOLD) {
-        activeTopicState.label = topResult.label;
-        activeTopicState.score = topResult.score;
-      }
-    } else {
-      if (
-        topResult.label !== activeTopicState.label &&
-        topResult.score > activeTopicCurrentScore * HYSTERESIS_SWITCH_FACTOR
-      ) {
-        activeTopicState.label = topResult.label;
-        activeTopicState.score = topResult.score;
-      } else if (activeTopicCurrentScore < HYSTERESIS_DEACTIVATION_THRESHOLD) {
-        activeTopicState.label = null;
-        activeTopicState.score = 0;
+  items.forEach((item, index) => {
+    try {
+      const session = getSession(item.sessionId || DEFAULT_SESSION_ID);
+      if (isClassifiable(item.text)) {
+        pending.push({ index, session, text: item.text });
       } else {
-        activeTopicState.score = activeTopicCurrentScore;
+        results[index] = currentState(session);
       }
+    } catch (error) {
+      results[index] = errorResult(error);
     }
+  });
 
-    // Update EMA state based on the STABLE active topic
-    for (const res of results) {
-      const scoreForEma = (res.label === activeTopicState.label) ? activeTopicState.score : 0.0;
-      updateEMA(res.label, scoreForEma);
-    }
+  if (pending.length === 0) return results;
 
-    // Return the stable result along with the top candidates
-    const st = activeTopicState.label ? getLabelState(activeTopicState.label) : { ema: 0, history: [] };
-    
-    return {
-        label: activeTopicState.label || 'none',
-        score: activeTopicState.score,
-        ema: st.ema,
-        matches: st.history.filter(s => s > 0).length,
-        topCandidates: topCandidates, // ⭐ Add the new field to the result
-    };
-    
+  try {
+    await Promise.all(pending.map(entry => entry.session.ready));
+    const embeddings = await embedTexts(pending.map(entry => entry.text));
+
+    pending.forEach((entry, row) => {
+      results[entry.index] = scoreEmbedding(entry.session, entry.text, embeddings[row]);
+    });
   } catch (error) {
-    console.error('[TextClassifier] Classification error:', error);
-    return {
-      label: 'error',
-      score: 0,
-      ema: 0,
-      error: error.message,
-      topCandidates: [],
-    };
+    console.error('[TextClassifier] Batch classification error:', error);
+    pending.forEach(entry => {
+      results[entry.index] = errorResult(error);
+    });
   }
+
+  return results;
 }
 
 /**
@@ -245,12 +497,47 @@ const DEFAULT_TOPICS = [
 ];
 
 
+/**
+ * Builds the IPC response for a request from its classification result
+ * @param {object} request - The classification request
+ * @param {object} result - Classification result
+ * @returns {object} The response
+ */
+function buildResponse(request, result) {
+  // ⭐ Build the response, including the new topCandidates field
+  const response = {
+    id: request.id,
+    label: result.label, // The stable, overall topic
+    score: result.score,
+    ema: result.ema,
+    matches: result.matches,
+    topCandidates: result.topCandidates, // The top 3 for the latest chunk
+    activeTopics: result.activeTopics || [], // Every topic active right now
+    timestamp: Date.now()
+  };
+
+  if (result.error) response.error = result.error;
+
+  return response;
+}
+
+/**
+ * Builds the response for a request that failed, in the same shape as a
+ * successful one (also used by the worker when a whole batch fails)
+ * @param {object} request - The classification request
+ * @param {Error} error - The failure
+ * @returns {object} Error response
+ */
+export function errorResponse(request, error) {
+  return buildResponse(request, errorResult(error));
+}
+
 /**
  * Classifies text and returns labeled results
  * @param {object} request - The classification request
  * @param {string} request.id - Unique identifier for the request
  * @param {string} request.text - Text content to classify
- * @param {Array} [request.topics] - Optional array of topics with descriptions to match
+ * @param {string} [request.sessionId] - Classifier session (meeting) to classify in
  * @returns {object} Classification result with labels and scores
  */
 export async function classifyText(request) {
@@ -259,36 +546,44 @@ export async function classifyText(request) {
       throw new Error('Invalid request: missing text');
     }
 
-    const result = await classify(request.text, request.topics);
-
-    // ⭐ Build the response, including the new topCandidates field
-    const response = {
-      id: request.id,
-      label: result.label, // The stable, overall topic
-      score: result.score,
-      ema: result.ema,
-      matches: result.matches,
-      topCandidates: result.topCandidates, // The top 3 for the latest chunk
-      timestamp: Date.now()
-    };
-    
-    if (result.error) response.error = result.error;
-
-    return response;
+    const result = await classify(request.text, request.sessionId);
+    return buildResponse(request, result);
   } catch (error) {
     console.error('[TextClassifier] Classification error:', error);
-    return {
-      id: request.id,
-      label: 'error',
-      score: 0,
-      error: error.message,
-      topCandidates: [],
-    };
+    return errorResponse(request, error);
   }
 }
 
+/**
+ * Classifies a micro-batch of requests with one embedding pass
+ * @param {Array<object>} requests - Classification requests (see classifyText)
+ * @returns {Promise<Array<object>>} One response per request, in order, each
+ *   with `metrics.inferenceMs` (time for the whole batch) and `metrics.batchSize`
+ */
+export async function classifyTextBatch(requests) {
+  const startedAt = Date.now();
+  const results = await classifyBatch(requests.map(request => ({
+    text: request.text,
+    sessionId: request.sessionId,
+  })));
+  const metrics = { inferenceMs: Date.now() - startedAt, batchSize: requests.length };
+
+  return requests.map((request, index) => ({
+    ...buildResponse(request, results[index]),
+    metrics,
+  }));
+}
+
 export default {
+  createSession,
+  disposeSession,
   classifyText,
+  classifyTextBatch,
+  errorResponse,
   classify,
+  classifyBatch,
+  embedTexts,
+  similarityScore,
+  DEFAULT_PARAMS,
   DEFAULT_TOPICS
 };
\ No newline at end of file
@@ -26,7 +26,7 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    // baseURL: 'http://localhost:3000',
+    baseURL: 'http://127.0.0.1:8080',
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -79,5 +79,12 @@ export default defineConfig({
     url: 'http://127.0.0.1:8080',
     // Reuse the server if it's already running (great for local dev)
     reuseExistingServer: !process.env.CI,
+    // Scripted transcription instead of Deepgram/on-device audio; Supabase is
+    // mocked per test, so any URL works when none is configured
+    env: {
+      VITE_TRANSCRIPTION_PROVIDER: 'fake',
+      VITE_SUPABASE_URL: process.env.VITE_SUPABASE_URL ?? 'http://127.0.0.1:54321',
+      VITE_SUPABASE_ANON_KEY: process.env.VITE_SUPABASE_ANON_KEY ?? 'test-anon-key',
+    },
   },
 });
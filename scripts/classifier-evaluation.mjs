@@ -0,0 +1,113 @@
+// classifier-evaluation.mjs
+//
+// The model-free parts of scripts/evaluate-classifier.mjs: parameter parsing,
+// per-topic metrics and the sweep grid. Kept apart from the replay so they can
+// be tested without loading the embedding model
+// (see classifier-evaluation.test.mjs).
+
+// ---------- Parameters ----------
+/**
+ * Parses a `--set key=value` assignment against the classifier's defaults;
+ * the value takes the type of the parameter's default (number or boolean)
+ * @returns {[string, number|boolean]}
+ */
+export function parseParamOverride(defaults, assignment) {
+  const [key, value] = assignment.split('=');
+  const invalid = () =>
+    new Error(`Invalid --set "${assignment}". Parameters: ${Object.keys(defaults).join(', ')}`);
+
+  if (!(key in defaults) || value === undefined) throw invalid();
+  if (typeof defaults[key] === 'boolean') {
+    if (value !== 'true' && value !== 'false') throw invalid();
+    return [key, value === 'true'];
+  }
+  if (value.trim() === '' || Number.isNaN(Number(value))) throw invalid();
+  return [key, Number(value)];
+}
+
+// ---------- Metrics ----------
+function emptyCounts() {
+  return { tp: 0, fp: 0, fn: 0, segments: 0, detected: 0, latencyTotal: 0 };
+}
+
+/**
+ * Adds one fixture's turns to the per-topic counts. A segment is a run of
+ * turns expecting the same topic; its switch latency is the number of turns
+ * until the classifier first shows that topic within the run.
+ */
+export function accumulate(counts, turns) {
+  const countsFor = (label) => {
+    if (!counts.has(label)) counts.set(label, emptyCounts());
+    return counts.get(label);
+  };
+
+  turns.forEach(({ expected, predicted }) => {
+    if (predicted === expected) {
+      if (expected !== 'none') countsFor(expected).tp++;
+      return;
+    }
+    if (predicted !== 'none') countsFor(predicted).fp++;
+    if (expected !== 'none') countsFor(expected).fn++;
+  });
+
+  for (let start = 0; start < turns.length;) {
+    const expected = turns[start].expected;
+    let end = start;
+    while (end < turns.length && turns[end].expected === expected) end++;
+
+    if (expected !== 'none') {
+      const topic = countsFor(expected);
+      topic.segments++;
+      const hit = turns.slice(start, end).findIndex(turn => turn.predicted === expected);
+      if (hit !== -1) {
+        topic.detected++;
+        topic.latencyTotal += hit;
+      }
+    }
+    start = end;
+  }
+}
+
+const ratio = (numerator, denominator) => (denominator === 0 ? null : numerator / denominator);
+
+export function summarize(counts, turnCount, correctCount) {
+  const topics = [...counts.entries()].map(([label, c]) => {
+    const precision = ratio(c.tp, c.tp + c.fp);
+    const recall = ratio(c.tp, c.tp + c.fn);
+    const f1 = precision === null || recall === null || precision + recall === 0
+      ? 0
+      : (2 * precision * recall) / (precision + recall);
+    return {
+      label,
+      support: c.tp + c.fn,
+      precision,
+      recall,
+      f1,
+      segments: c.segments,
+      detected: c.detected,
+      meanSwitchLatency: ratio(c.latencyTotal, c.detected),
+    };
+  }).sort((a, b) => a.label.localeCompare(b.label));
+
+  // Topics that never occur in the fixtures don't count towards macro F1
+  const scored = topics.filter(topic => topic.support > 0);
+  const detected = topics.reduce((sum, topic) => sum + topic.detected, 0);
+  const latencyTotal = [...counts.values()].reduce((sum, c) => sum + c.latencyTotal, 0);
+
+  return {
+    accuracy: ratio(correctCount, turnCount),
+    macroF1: scored.length ? scored.reduce((sum, topic) => sum + topic.f1, 0) / scored.length : 0,
+    meanSwitchLatency: ratio(latencyTotal, detected),
+    missedSegments: topics.reduce((sum, topic) => sum + topic.segments - topic.detected, 0),
+    topics,
+  };
+}
+
+// ---------- Sweep ----------
+// Every combination of the grid's values, on top of the base parameters
+export function expandGrid(grid, base) {
+  return Object.entries(grid).reduce(
+    (combos, [key, values]) => combos.flatMap(combo => values.map(value => ({ ...combo, [key]: value }))),
+    [base]
+  );
+}
@@ -0,0 +1,130 @@
+// Run with: npm test
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { accumulate, expandGrid, parseParamOverride, summarize } from './classifier-evaluation.mjs';
+
+const turn = (expected, predicted) => ({ expected, predicted });
+
+// One of each outcome: a miss, a hit, a wrong topic, a false alarm, and a quiet line
+const MIXED_TURNS = [
+  turn('A', 'none'),
+  turn('A', 'A'),
+  turn('A', 'B'),
+  turn('none', 'B'),
+  turn('B', 'B'),
+  turn('none', 'none'),
+];
+
+const countsOf = (...fixtures) => {
+  const counts = new Map();
+  fixtures.forEach(turns => accumulate(counts, turns));
+  return counts;
+};
+
+describe('accumulate', () => {
+  it('counts hits, false alarms and misses per topic', () => {
+    const counts = countsOf(MIXED_TURNS);
+
+    assert.deepEqual(counts.get('A'), { tp: 1, fp: 0, fn: 2, segments: 1, detected: 1, latencyTotal: 1 });
+    assert.deepEqual(counts.get('B'), { tp: 1, fp: 2, fn: 0, segments: 1, detected: 1, latencyTotal: 0 });
+    assert.equal(counts.has('none'), false);
+  });
+
+  it('counts each run of a topic as its own segment', () => {
+    const counts = countsOf([
+      turn('A', 'none'),
+      turn('A', 'A'),
+      turn('B', 'B'),
+      turn('A', 'B'),
+      turn('A', 'B'),
+    ]);
+
+    assert.equal(counts.get('A').segments, 2);
+    assert.equal(counts.get('A').detected, 1);
+    assert.equal(counts.get('A').latencyTotal, 1);
+    assert.equal(counts.get('B').segments, 1);
+  });
+
+  it('does not join segments across fixtures', () => {
+    const counts = countsOf([turn('A', 'none')], [turn('A', 'A')]);
+
+    assert.equal(counts.get('A').segments, 2);
+    assert.equal(counts.get('A').detected, 1);
+    assert.equal(counts.get('A').latencyTotal, 0);
+  });
+});
+
+describe('summarize', () => {
+  it('reports precision, recall, F1 and switch latency', () => {
+    const summary = summarize(countsOf(MIXED_TURNS), 6, 3);
+
+    assert.equal(summary.accuracy, 0.5);
+    assert.equal(summary.macroF1, 0.5);
+    assert.equal(summary.meanSwitchLatency, 0.5);
+    assert.equal(summary.missedSegments, 0);
+    assert.deepEqual(summary.topics.map(topic => topic.label), ['A', 'B']);
+
+    const [a, b] = summary.topics;
+    assert.equal(a.support, 3);
+    assert.equal(a.precision, 1);
+    assert.equal(a.recall, 1 / 3);
+    assert.equal(a.f1, 0.5);
+    assert.equal(a.meanSwitchLatency, 1);
+    assert.equal(b.support, 1);
+    assert.equal(b.precision, 1 / 3);
+    assert.equal(b.recall, 1);
+    assert.equal(b.meanSwitchLatency, 0);
+  });
+
+  it('leaves topics that never occur out of macro F1', () => {
+    const summary = summarize(countsOf([turn('A', 'A'), turn('none', 'C')]), 2, 1);
+    const c = summary.topics.find(topic => topic.label === 'C');
+
+    assert.equal(summary.macroF1, 1);
+    assert.equal(c.support, 0);
+    assert.equal(c.precision, 0);
+    assert.equal(c.recall, null);
+    assert.equal(c.meanSwitchLatency, null);
+  });
+
+  it('counts segments the classifier never switched to', () => {
+    const summary = summarize(countsOf([turn('A', 'none'), turn('B', 'A')]), 2, 0);
+
+    assert.equal(summary.missedSegments, 2);
+    assert.equal(summary.meanSwitchLatency, null);
+    assert.equal(summary.macroF1, 0);
+  });
+});
+
+describe('expandGrid', () => {
+  it('returns every combination on top of the base parameters', () => {
+    assert.deepEqual(expandGrid({ a: [1, 2], b: [3, 4] }, { a: 0, c: 5 }), [
+      { a: 1, b: 3, c: 5 },
+      { a: 1, b: 4, c: 5 },
+      { a: 2, b: 3, c: 5 },
+      { a: 2, b: 4, c: 5 },
+    ]);
+  });
+
+  it('returns just the base parameters for an empty grid', () => {
+    assert.deepEqual(expandGrid({}, { a: 1 }), [{ a: 1 }]);
+  });
+});
+
+describe('parseParamOverride', () => {
+  const defaults = { minConfidence: 0.62, multiLabel: false };
+
+  it('parses numeric parameters', () => {
+    assert.deepEqual(parseParamOverride(defaults, 'minConfidence=0.6'), ['minConfidence', 0.6]);
+  });
+
+  it('parses boolean parameters', () => {
+    assert.deepEqual(parseParamOverride(defaults, 'multiLabel=true'), ['multiLabel', true]);
+    assert.deepEqual(parseParamOverride(defaults, 'multiLabel=false'), ['multiLabel', false]);
+  });
+
+  it('rejects unknown parameters and values of the wrong type', () => {
+    ['unknown=1', 'minConfidence', 'minConfidence=', 'minConfidence=high', 'multiLabel=1', 'multiLabel=yes']
+      .forEach(assignment => assert.throws(() => parseParamOverride(defaults, assignment), /Invalid --set/));
+  });
+});
@@ -0,0 +1,227 @@
+// evaluate-classifier.mjs
+//
+// Replays labeled transcript fixtures through the embedding classifier
+// (electron/utils/textClassifier.mjs) and reports per-topic precision, recall
+// and switch latency, so threshold changes can be judged on evidence.
+//
+// Usage:
+//   node scripts/evaluate-classifier.mjs [options] [fixture.json ...]
+//
+// Options:
+//   --set key=value   Override a classifier parameter (repeatable), e.g. --set minConfidence=0.6
+//   --sweep           Evaluate every combination of the parameter grid
+//   --grid <file>     JSON grid to sweep instead of the default, e.g. {"switchFactor": [1.05, 1.2]}
+//   --top <n>         Number of sweep results to print (default 10)
+//   --min-f1 <n>      Exit with code 1 if macro F1 (of the best run) is below n
+//   --json            Print the report as JSON
+//
+// Fixtures default to scripts/fixtures/classifier/*.json. Each one holds the
+// call card topics and a transcript in the fake-transcript format
+// (see documentation/test/playright.md) where every final line also carries
+// `topic`: the label a correct classifier would show after that line, or "none".
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import textClassifier from '../electron/utils/textClassifier.mjs';
+import { accumulate, expandGrid, parseParamOverride, summarize } from './classifier-evaluation.mjs';
+
+// Get __dirname equivalent in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'classifier');
+
+// Grid swept by --sweep. emaAlpha only smooths the reported `ema`, it never
+// changes the label, so it isn't swept by default.
+const DEFAULT_GRID = {
+  minConfidence: [0.58, 0.62, 0.66],
+  switchFactor: [1.05, 1.10, 1.15],
+  deactivationMargin: [0.03, 0.05, 0.08],
+};
+
+// ---------- Arguments ----------
+function parseArgs(argv) {
+  const options = { overrides: {}, sweep: false, grid: null, top: 10, minF1: null, json: false, files: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--set': {
+        const [key, value] = parseParamOverride(textClassifier.DEFAULT_PARAMS, argv[++i] || '');
+        options.overrides[key] = value;
+        break;
+      }
+      case '--sweep':
+        options.sweep = true;
+        break;
+      case '--grid':
+        options.grid = JSON.parse(fs.readFileSync(argv[++i], 'utf8'));
+        options.sweep = true;
+        break;
+      case '--top':
+        options.top = Number(argv[++i]);
+        break;
+      case '--min-f1':
+        options.minF1 = Number(argv[++i]);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option: ${arg}`);
+        options.files.push(arg);
+    }
+  }
+  return options;
+}
+
+// ---------- Fixtures ----------
+function loadFixtures(files) {
+  const paths = files.length > 0
+    ? files
+    : fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.json')).map(file => path.join(FIXTURES_DIR, file));
+
+  return paths.map(file => {
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const name = fixture.name || path.basename(file, '.json');
+    const labels = new Set(fixture.topics.map(topic => topic.label));
+
+    fixture.transcript.forEach((line, index) => {
+      if (line.isFinal === false) return;
+      if (!line.topic || (line.topic !== 'none' && !labels.has(line.topic))) {
+        throw new Error(`${name}: line ${index + 1} has unknown topic "${line.topic}"`);
+      }
+    });
+    return { ...fixture, name };
+  });
+}
+
+// ---------- Replay ----------
+let runCounter = 0;
+
+/**
+ * Classifies a fixture's final lines in order, in a fresh session
+ * @returns {Promise<Array<{expected: string, predicted: string}>>}
+ */
+async function replayFixture(fixture, params) {
+  const sessionId = `${fixture.name}#${++runCounter}`;
+  await textClassifier.createSession(sessionId, fixture.topics, params);
+
+  const turns = [];
+  try {
+    for (const line of fixture.transcript) {
+      // The meeting page only classifies final results
+      if (line.isFinal === false) continue;
+
+      const response = await textClassifier.classifyText({
+        id: `${sessionId}:${turns.length}`,
+        sessionId,
+        text: line.transcript,
+        metadata: { source: line.channel || 'mic', timestamp: line.atMs, isFinal: true },
+      });
+      if (response.error) throw new Error(`${fixture.name}: ${response.error}`);
+
+      turns.push({ expected: line.topic, predicted: response.label });
+    }
+  } finally {
+    textClassifier.disposeSession(sessionId);
+  }
+  return turns;
+}
+
+// ---------- Evaluation ----------
+/**
+ * Evaluates one parameter set over every fixture
+ */
+async function evaluate(fixtures, params) {
+  const counts = new Map();
+  let turnCount = 0;
+  let correctCount = 0;
+
+  for (const fixture of fixtures) {
+    const turns = await replayFixture(fixture, params);
+    accumulate(counts, turns);
+    turnCount += turns.length;
+    correctCount += turns.filter(turn => turn.predicted === turn.expected).length;
+  }
+  return { params, ...summarize(counts, turnCount, correctCount) };
+}
+
+// ---------- Output ----------
+const fmt = (value, digits = 2) => (value === null || value === undefined ? '-' : value.toFixed(digits));
+
+function printRun(run) {
+  console.log(`Parameters: ${JSON.stringify(run.params)}`);
+  console.table(run.topics.map(topic => ({
+    topic: topic.label,
+    support: topic.support,
+    precision: fmt(topic.precision),
+    recall: fmt(topic.recall),
+    f1: fmt(topic.f1),
+    'segments hit': `${topic.detected}/${topic.segments}`,
+    'switch latency (turns)': fmt(topic.meanSwitchLatency, 1),
+  })));
+  console.log(
+    `Accuracy ${fmt(run.accuracy)} | macro F1 ${fmt(run.macroF1)} | ` +
+    `mean switch latency ${fmt(run.meanSwitchLatency, 1)} turns | missed segments ${run.missedSegments}`
+  );
+}
+
+function printSweep(runs, top) {
+  const defaults = JSON.stringify({ ...textClassifier.DEFAULT_PARAMS });
+  console.table(runs.slice(0, top).map(run => ({
+    ...run.params,
+    accuracy: fmt(run.accuracy),
+    macroF1: fmt(run.macroF1),
+    latency: fmt(run.meanSwitchLatency, 1),
+    missed: run.missedSegments,
+    current: JSON.stringify(run.params) === defaults ? '*' : '',
+  })));
+  console.log(`${runs.length} combinations evaluated; * marks the current defaults.`);
+}
+
+// ---------- Main ----------
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = loadFixtures(options.files);
+  const base = { ...textClassifier.DEFAULT_PARAMS, ...options.overrides };
+
+  let runs;
+  if (options.sweep) {
+    runs = [];
+    const combos = expandGrid(options.grid || DEFAULT_GRID, base);
+    for (const params of combos) {
+      runs.push(await evaluate(fixtures, params));
+      if (!options.json) process.stderr.write(`\rEvaluated ${runs.length}/${combos.length}`);
+    }
+    if (!options.json) process.stderr.write('\n');
+
+    // Best first: macro F1, then faster switching
+    runs.sort((a, b) =>
+      b.macroF1 - a.macroF1 || (a.meanSwitchLatency ?? Infinity) - (b.meanSwitchLatency ?? Infinity)
+    );
+  } else {
+    runs = [await evaluate(fixtures, base)];
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ fixtures: fixtures.map(fixture => fixture.name), runs }, null, 2));
+  } else {
+    console.log(`Fixtures: ${fixtures.map(fixture => fixture.name).join(', ')}\n`);
+    if (options.sweep) {
+      printSweep(runs, options.top);
+      console.log('\nBest run:');
+    }
+    printRun(runs[0]);
+  }
+
+  if (options.minF1 !== null && runs[0].macroF1 < options.minF1) {
+    console.error(`Macro F1 ${fmt(runs[0].macroF1)} is below the required ${options.minF1}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exitCode = 1;
+});
@@ -19,6 +19,8 @@ import StartMeetingPage from "./pages/start-meeting/page";
 import NotFound from "./pages/NotFound";
 import BackgroundParticles from "./components/BackgroundParticles";
 import GCalendarPage from "./pages/g-calendar/page";
+import MeetingsPage from "./pages/meetings/page";
+import TemplatesPage from "./pages/templates/page";
 import LoginWithGoogle from "./pages/login-with-google";
 
 const queryClient = new QueryClient();
@@ -50,6 +52,9 @@ const App = () => {
                   <Route path="/start-meeting/:templateId" element={<ProtectedRoute><Layout><StartMeetingPage /></Layout></ProtectedRoute>} />
                   <Route path="/setting" element={<ProtectedRoute><Layout><Settings /></Layout></ProtectedRoute>} />
                   <Route path="/g-calendar" element={<ProtectedRoute><Layout><GCalendarPage /></Layout></ProtectedRoute>} />
+                  <Route path="/meetings" element={<ProtectedRoute><Layout><MeetingsPage /></Layout></ProtectedRoute>} />
+                  <Route path="/meetings/:meetingId" element={<ProtectedRoute><Layout><MeetingsPage /></Layout></ProtectedRoute>} />
+                  <Route path="/templates" element={<ProtectedRoute><Layout><TemplatesPage /></Layout></ProtectedRoute>} />
                   
                   {/* Special routes */}
                   <Route path="/checklist-floating" element={
@@ -2,10 +2,16 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { CallPackNotifier } from './call-pack-notifier';
+import { CallReminderSync } from './call-reminder-sync';
+import { MeetingRecoveryPrompt } from './meeting-recovery-prompt';
 
 const AuthLayout: React.FC = () => {
   return (
     <AuthProvider>
+      <CallReminderSync />
+      <MeetingRecoveryPrompt />
+      <CallPackNotifier />
       <Outlet />
     </AuthProvider>
   );
@@ -8,10 +8,14 @@ import {
   Phone,
   User,
   Calendar,
+  History,
+  FileText,
 } from 'lucide-react';
 
 const navItems = [
   { to: '/g-calendar', label: 'Calendar', icon: <Phone size={20} /> },
+  { to: '/meetings', label: 'Past Meetings', icon: <History size={20} /> },
+  { to: '/templates', label: 'Call Cards', icon: <FileText size={20} /> },
   { to: '/setting', label: 'Settings', icon: <SettingsIcon size={20} /> },
 ];
 
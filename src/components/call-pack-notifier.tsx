@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/notifications-context';
+import { useTemplateUpdates } from '@/hooks/useTemplateUpdates';
+import { getTemplates } from '@/services/templatesFunction';
+import { isCallPackGenerating } from '@/utils/callPackGeneration';
+
+/**
+ * Renders nothing; notifies when a call pack the agent was generating is
+ * ready for review or has failed, wherever the user is in the app.
+ */
+export function CallPackNotifier() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  // Templates seen generating, so only the end of a job notifies
+  const generatingIdsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!user) return;
+
+    getTemplates().then((templates) => {
+      templates
+        .filter(isCallPackGenerating)
+        .forEach(template => generatingIdsRef.current.add(template.template_id));
+    }).catch((error) => {
+      console.error('Error loading call packs in progress:', error);
+    });
+  }, [user]);
+
+  useTemplateUpdates((template) => {
+    const generatingIds = generatingIdsRef.current;
+    if (isCallPackGenerating(template)) {
+      generatingIds.add(template.template_id);
+      return;
+    }
+    if (!generatingIds.delete(template.template_id)) return;
+
+    if (template.status === 'IN_REVIEW') {
+      addNotification({
+        title: 'Call card ready',
+        message: `"${template.template_name}" is ready for review.`,
+        type: 'success',
+        link: '/templates',
+      });
+      toast.success(`"${template.template_name}" is ready for review`, {
+        action: { label: 'Review', onClick: () => navigate('/templates') },
+      });
+    } else if (template.status === 'ERROR') {
+      addNotification({
+        title: 'Call card generation failed',
+        message: template.error_message || 'The call pack could not be generated.',
+        type: 'error',
+        link: '/templates',
+      });
+    }
+  });
+
+  return null;
+}
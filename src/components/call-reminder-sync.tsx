@@ -0,0 +1,12 @@
+import { useCallReminders } from '@/hooks/useCallReminders';
+import { useDeepLinkNavigation } from '@/hooks/useDeepLinkNavigation';
+
+/**
+ * Renders nothing; wires the desktop app's pre-call reminders and
+ * callcard:// deep links into the router for the whole app lifetime.
+ */
+export function CallReminderSync() {
+  useCallReminders();
+  useDeepLinkNavigation();
+  return null;
+}
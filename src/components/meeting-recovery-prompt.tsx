@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { formatTime } from '@/utils/formatUtils';
+
+/**
+ * Renders nothing; on launch, offers to resume a meeting that was cut short
+ * by a crash or reload (its journal was never cleared). No-op outside the
+ * desktop app.
+ */
+export function MeetingRecoveryPrompt() {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const electron = window.electron;
+    if (!electron?.findInterruptedMeeting) return;
+
+    electron.findInterruptedMeeting().then((snapshot) => {
+      if (!snapshot) return;
+
+      const { meeting, calendarEventId } = snapshot;
+      const params = new URLSearchParams({ resume: meeting.id });
+      if (calendarEventId) params.set('eventId', calendarEventId);
+
+      toast(`"${snapshot.title}" was interrupted`, {
+        description: `Resume the call at ${formatTime(snapshot.elapsedSeconds)} with its transcript and checklist.`,
+        duration: Infinity,
+        action: {
+          label: 'Resume',
+          onClick: () => navigate(`/start-meeting/${meeting.templateId}?${params.toString()}`),
+        },
+        cancel: {
+          label: 'Discard',
+          onClick: () => electron.clearMeetingJournal?.(meeting.id),
+        },
+      });
+    }).catch((error) => {
+      console.error('Error checking for an interrupted meeting:', error);
+    });
+  }, [navigate]);
+
+  return null;
+}
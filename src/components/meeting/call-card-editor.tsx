@@ -6,7 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { Plus, Save, X, Loader2, ChevronRight, Trash2, ChevronDown, ChevronUp, Expand } from 'lucide-react';
+import { Plus, Save, X, Loader2, ChevronRight, Trash2, ChevronDown, ChevronUp, Expand, History, Download, Upload } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
@@ -14,82 +14,32 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-
-// Framework data structures
-interface FrameworkQuestion {
-  title: string;
-  question: string;
-}
-
-interface SalesFramework {
-  framework_name: string;
-  framework_content: FrameworkQuestion[];
-  framework_description: string;
-}
-
-// Predefined frameworks
-const FRAMEWORKS: { [key: string]: SalesFramework } = {
-  MEDDIC: {
-    framework_name: "MEDDIC",
-    framework_description: "A comprehensive sales qualification methodology",
-    framework_content: [
-      {
-        title: "Metrics",
-        question: "What measurable goals or KPIs are most important to you right now (e.g., revenue growth, cost reduction, productivity)?"
-      },
-      {
-        title: "Economic Buyer",
-        question: "Who is ultimately responsible for making the financial decision on this project or purchase?"
-      },
-      {
-        title: "Decision Criteria",
-        question: "What factors will you use to evaluate potential solutions and vendors?"
-      },
-      {
-        title: "Decision Process",
-        question: "Can you walk me through the steps you usually take when making a purchase like this?"
-      },
-      {
-        title: "Identify Pain",
-        question: "What challenges are you currently facing that are costing you time, money, or resources?"
-      },
-      {
-        title: "Champion",
-        question: "Who within your team is most motivated to solve this problem and would advocate for this solution internally?"
-      }
-    ]
-  },
-  BANT: {
-    framework_name: "BANT",
-    framework_description: "Budget, Authority, Need, Timeline qualification",
-    framework_content: [
-      {
-        title: "Budget",
-        question: "What's your budget for this project?"
-      },
-      {
-        title: "Authority",
-        question: "Who makes the final decision?"
-      },
-      {
-        title: "Need",
-        question: "What problem are you trying to solve?"
-      },
-      {
-        title: "Timeline",
-        question: "When do you need this implemented?"
-      }
-    ]
-  }
-};
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useSalesFrameworks } from '@/hooks/useSalesFrameworks';
+import { CallFramework } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+import {
+  DETACHED_SALES_FRAMEWORK,
+  SalesFrameworkAttachment,
+  attachSalesFramework,
+  toCallFramework,
+} from '@/utils/salesFrameworks';
+import { CallCardSnapshot } from '@/utils/callCardRevisions';
+import { exportCallCardFile, importCallCardFile } from '@/utils/callCardFiles';
+import { CallCardFileFormat } from '@/utils/callCardPortable';
+import { TemplateRevision } from '@/services/templatesFunction';
+import { CallCardHistoryDialog } from './call-card-history-dialog';
+
+// Select value for a framework attached before the library existed
+const UNLISTED_FRAMEWORK = 'unlisted';
 
 interface CallCardEditorProps {
   template: CallCard;
-  onSave: (template: CallCard, salesFramework?: SalesFramework) => Promise<void>;
+  // salesFramework is undefined when the attached framework should be left as is
+  onSave: (template: CallCard, salesFramework?: SalesFrameworkAttachment) => Promise<void>;
   onCancel: () => void;
   isActive?: boolean;
   onSetActive?: (isActive: boolean) => Promise<void>;
-  initialSalesFramework?: SalesFramework | null;
+  initialSalesFramework?: SalesFrameworkAttachment | null;
 }
 
 const CallCardEditor: React.FC<CallCardEditorProps> = ({
@@ -108,6 +58,10 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
   const [activeItemId, setActiveItemId] = useState<{ type: 'useCases' | 'painPoints'; id: string } | null>(null);
   const [selectedFramework, setSelectedFramework] = useState<string>('');
   const [isFrameworkPopoverOpen, setIsFrameworkPopoverOpen] = useState<boolean>(false);
+  // Set when the rep moves a pinned framework to its latest version
+  const [isFrameworkUpgraded, setIsFrameworkUpgraded] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { frameworks } = useSalesFrameworks();
   const itemRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
   // Update local state when prop changes
@@ -120,12 +74,33 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
     setActiveItemId(null);
   }, [activeTab]);
 
-  // Initialize selected framework from initialSalesFramework
+  // Initialize selected framework from initialSalesFramework (callers build it
+  // inline, so key on its values rather than the object)
+  const hasInitialFramework = Boolean(initialSalesFramework);
+  const initialFrameworkId = initialSalesFramework?.sales_framework_id ?? null;
   useEffect(() => {
-    if (initialSalesFramework) {
-      setSelectedFramework(initialSalesFramework.framework_name);
+    if (hasInitialFramework) {
+      setSelectedFramework(initialFrameworkId ?? UNLISTED_FRAMEWORK);
+      setIsFrameworkUpgraded(false);
     }
-  }, [initialSalesFramework]);
+  }, [hasInitialFramework, initialFrameworkId]);
+
+  const libraryFramework = frameworks.find(framework => framework.id === selectedFramework) ?? null;
+  const isPinnedFramework = hasInitialFramework
+    && (selectedFramework === UNLISTED_FRAMEWORK || selectedFramework === initialFrameworkId);
+  const hasNewerVersion = isPinnedFramework && !isFrameworkUpgraded && libraryFramework !== null
+    && libraryFramework.version > (initialSalesFramework?.sales_framework_version ?? 0);
+
+  // The pinned version for the card's current framework, otherwise the library's latest
+  const previewFramework: CallFramework | null = isPinnedFramework && !isFrameworkUpgraded
+    ? (initialSalesFramework?.sales_framework as unknown as CallFramework)
+    : libraryFramework && toCallFramework(libraryFramework);
+
+  const resolveFrameworkAttachment = (): SalesFrameworkAttachment | undefined => {
+    if (selectedFramework === 'none') return DETACHED_SALES_FRAMEWORK;
+    if (isPinnedFramework && !isFrameworkUpgraded) return undefined;
+    return libraryFramework ? attachSalesFramework(libraryFramework) : undefined;
+  };
 
   const handleUpdateTemplate = (field: keyof CallCard, value: any) => {
     setEditedTemplate(prev => ({ ...prev, [field]: value }));
@@ -343,8 +318,7 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
 
     try {
       setIsSaving(true);
-      const salesFramework = selectedFramework && selectedFramework !== 'none' ? FRAMEWORKS[selectedFramework] : undefined;
-      await onSave(editedTemplate, salesFramework);
+      await onSave(editedTemplate, resolveFrameworkAttachment());
     } catch (error) {
       console.error('Error saving template:', error);
       toast.error('Failed to save template');
@@ -353,6 +327,51 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
     }
   };
 
+  // Restoring only loads the revision; saving it records a new revision
+  const handleRestoreRevision = (snapshot: CallCardSnapshot, revision: TemplateRevision) => {
+    setEditedTemplate(prev => ({ ...prev, ...snapshot }));
+    setActiveItemId(null);
+    toast.success(`Loaded v${revision.revision}. Save to restore it.`);
+  };
+
+  const handleExport = async (format: CallCardFileFormat) => {
+    try {
+      const saved = await exportCallCardFile({
+        callCard: editedTemplate,
+        salesFramework: selectedFramework === 'none' ? null : previewFramework,
+      }, format);
+      if (saved) toast.success('Call card exported');
+    } catch (error) {
+      console.error('Error exporting call card:', error);
+      toast.error('Failed to export call card');
+    }
+  };
+
+  // Replaces the edits with an imported card; its framework is attached when
+  // the library has one with the same name
+  const handleImport = async () => {
+    try {
+      const imported = await importCallCardFile();
+      if (!imported) return;
+
+      setEditedTemplate(prev => ({ ...prev, ...imported.callCard }));
+      setActiveItemId(null);
+
+      const frameworkName = imported.salesFramework?.framework_name;
+      const match = frameworkName ? frameworks.find(framework => framework.name === frameworkName) : null;
+      if (match) {
+        setSelectedFramework(match.id);
+        setIsFrameworkUpgraded(false);
+      }
+      toast.success(frameworkName && !match
+        ? `Imported "${imported.callCard.name}". ${frameworkName} isn't in your framework library, so no framework was attached.`
+        : `Imported "${imported.callCard.name}". Save to keep it.`);
+    } catch (error) {
+      console.error('Error importing call card:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import call card');
+    }
+  };
+
   const handleSetActive = async () => {
     if (!onSetActive) return;
 
@@ -642,7 +661,10 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
                         <div className="flex gap-2">
                           <Select
                             value={selectedFramework}
-                            onValueChange={setSelectedFramework}
+                            onValueChange={(value) => {
+                              setSelectedFramework(value);
+                              setIsFrameworkUpgraded(false);
+                            }}
                             disabled={isSaving}
                           >
                             <SelectTrigger className="border-gray-300 focus:border-gray-400 focus:ring-1 focus:ring-gray-400 flex-1">
@@ -650,10 +672,15 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
                             </SelectTrigger>
                             <SelectContent>
                               <SelectItem value="none">None</SelectItem>
-                              {Object.entries(FRAMEWORKS).map(([key, framework]) => (
-                                <SelectItem key={key} value={key}>
+                              {selectedFramework === UNLISTED_FRAMEWORK && previewFramework && (
+                                <SelectItem value={UNLISTED_FRAMEWORK}>
+                                  <span className="font-medium">{previewFramework.framework_name}</span>
+                                </SelectItem>
+                              )}
+                              {frameworks.map(framework => (
+                                <SelectItem key={framework.id} value={framework.id}>
                                   <div className="flex flex-col">
-                                    <span className="font-medium">{framework.framework_name}</span>
+                                    <span className="font-medium">{framework.name}</span>
                                   </div>
                                 </SelectItem>
                               ))}
@@ -670,7 +697,7 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
                                       variant="outline"
                                       size="sm"
                                       className="px-2"
-                                      disabled={isSaving || !selectedFramework || selectedFramework === 'none'}
+                                      disabled={isSaving || !previewFramework}
                                     >
                                       {isFrameworkPopoverOpen ? (
                                         <ChevronUp className="h-4 w-4" />
@@ -679,21 +706,21 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
                                       )}
                                     </Button>
                                   </PopoverTrigger>
-                                  {selectedFramework && selectedFramework !== 'none' && (
+                                  {previewFramework && (
                                     <PopoverContent className="w-96 p-0" align="start">
                                       <ScrollArea className="max-h-96">
                                         <div className="p-4">
                                           <div className="mb-3">
                                             <h3 className="text-sm font-semibold text-foreground mb-2">
-                                              {FRAMEWORKS[selectedFramework].framework_name} Questions
+                                              {previewFramework.framework_name} Questions
                                             </h3>
                                             <p className="text-xs text-muted-foreground mb-3">
-                                              {FRAMEWORKS[selectedFramework].framework_description}
+                                              {previewFramework.framework_description}
                                             </p>
                                           </div>
                                           
                                           <div className="space-y-1.5">
-                                            {FRAMEWORKS[selectedFramework].framework_content.map((item, index) => {
+                                            {previewFramework.framework_content.map((item, index) => {
                                               const defaultColors = [
                                                 'bg-blue-500', 'bg-green-500', 'bg-yellow-500', 
                                                 'bg-purple-500', 'bg-red-500', 'bg-indigo-500',
@@ -734,10 +761,10 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
                               </TooltipTrigger>
                               <TooltipContent>
                                 <p>
-                                  {selectedFramework && selectedFramework !== 'none' 
+                                  {previewFramework
                                     ? (isFrameworkPopoverOpen 
-                                        ? `Hide ${FRAMEWORKS[selectedFramework].framework_name} Questions`
-                                        : `View ${FRAMEWORKS[selectedFramework].framework_name} Questions`
+                                        ? `Hide ${previewFramework.framework_name} Questions`
+                                        : `View ${previewFramework.framework_name} Questions`
                                       )
                                     : 'Select a framework to view questions'
                                   }
@@ -746,6 +773,23 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
                             </Tooltip>
                           </TooltipProvider>
                         </div>
+                        {hasNewerVersion && (
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span>
+                              Using v{initialSalesFramework?.sales_framework_version}; v{libraryFramework?.version} is available
+                            </span>
+                            <Button
+                              type="button"
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0 text-xs"
+                              onClick={() => setIsFrameworkUpgraded(true)}
+                              disabled={isSaving}
+                            >
+                              Update
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -848,6 +892,32 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
               <X className="h-4 w-4 mr-1" />
               Cancel
             </Button>
+            {template.id && (
+              <Button
+                variant="outline"
+                onClick={() => setIsHistoryOpen(true)}
+                disabled={isSaving}
+              >
+                <History className="h-4 w-4 mr-1" />
+                History
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleImport} disabled={isSaving}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={isSaving}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => handleExport('json')}>JSON (for importing)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('markdown')}>Markdown</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
           <div className="flex items-center gap-2">
             <Button
@@ -869,6 +939,16 @@ const CallCardEditor: React.FC<CallCardEditorProps> = ({
           </div>
         </div>
       </div>
+
+      {template.id && (
+        <CallCardHistoryDialog
+          isOpen={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          templateId={template.id}
+          current={editedTemplate}
+          onRestore={handleRestoreRevision}
+        />
+      )}
     </div>
   );
 };
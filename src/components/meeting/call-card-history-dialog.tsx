@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { TemplateRevision, getTemplateRevisions } from '@/services/templatesFunction';
+import {
+  CallCardItemDiff,
+  CallCardSnapshot,
+  DiffStatus,
+  diffCallCards,
+  toCallCardSnapshot
+} from '@/utils/callCardRevisions';
+
+// Select value for the editor's unsaved state
+const CURRENT = 'current';
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'border-green-300 bg-green-50 dark:bg-green-950/30',
+  removed: 'border-red-300 bg-red-50 dark:bg-red-950/30',
+  changed: 'border-amber-300 bg-amber-50 dark:bg-amber-950/30',
+  unchanged: 'border-border',
+};
+
+interface CallCardHistoryDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateId: string;
+  current: CallCardSnapshot;
+  onRestore: (snapshot: CallCardSnapshot, revision: TemplateRevision) => void;
+}
+
+// One side of an item row; `side` picks which questions are shown and marked
+function DiffCell({ diff, side }: { diff: CallCardItemDiff; side: 'before' | 'after' }) {
+  const item = diff[side];
+  if (!item) return <div />;
+
+  const hiddenStatus = side === 'before' ? 'added' : 'removed';
+  const markedStatus = side === 'before' ? 'removed' : 'added';
+  const isMarked = diff.status === 'changed' || diff.status === markedStatus;
+
+  return (
+    <div className={cn('rounded-md border p-2 text-sm', isMarked ? STATUS_STYLES[diff.status] : STATUS_STYLES.unchanged)}>
+      <p className="font-medium">{item.title || 'Untitled'}</p>
+      {item.description && <p className="text-xs text-muted-foreground">{item.description}</p>}
+      {diff.questions.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {diff.questions
+            .filter(question => question.status !== hiddenStatus)
+            .map((question, index) => (
+              <li
+                key={`${question.status}-${index}`}
+                className={cn(
+                  'text-xs',
+                  question.status === markedStatus && (side === 'before'
+                    ? 'text-red-700 line-through dark:text-red-400'
+                    : 'text-green-700 dark:text-green-400')
+                )}
+              >
+                {question.text}
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function DiffSection({ title, items }: { title: string; items: CallCardItemDiff[] }) {
+  const changeCount = items.filter(item => item.status !== 'unchanged').length;
+
+  return (
+    <section className="space-y-2">
+      <h4 className="text-sm font-medium">
+        {title}
+        <span className="ml-2 text-xs font-normal text-muted-foreground">
+          {changeCount === 0 ? 'No changes' : `${changeCount} changed`}
+        </span>
+      </h4>
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">None in either version</p>
+      ) : (
+        items.map(item => (
+          <div key={item.key} className="grid grid-cols-2 gap-3">
+            <DiffCell diff={item} side="before" />
+            <DiffCell diff={item} side="after" />
+          </div>
+        ))
+      )}
+    </section>
+  );
+}
+
+/**
+ * CallCardHistoryDialog Component
+ *
+ * Lists a call card's saved revisions (who saved each and when) and shows a
+ * side-by-side diff of use cases, pain points and their questions between a
+ * revision and a later one or the editor's current state. Restoring loads a
+ * revision back into the editor; saving it then records a new revision.
+ */
+export function CallCardHistoryDialog({
+  isOpen,
+  onOpenChange,
+  templateId,
+  current,
+  onRestore
+}: CallCardHistoryDialogProps) {
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<TemplateRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    getTemplateRevisions(templateId)
+      .then((data) => {
+        if (isCancelled) return;
+        setRevisions(data);
+        setBaseId(data[0]?.id ?? null);
+        setCompareId(CURRENT);
+      })
+      .catch((error) => {
+        console.error('Error loading call card revisions:', error);
+        toast.error('Failed to load revision history');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, templateId]);
+
+  const baseRevision = revisions.find(revision => revision.id === baseId) ?? null;
+  const compareRevision = revisions.find(revision => revision.id === compareId) ?? null;
+  const compareSnapshot = compareRevision ? toCallCardSnapshot(compareRevision) : current;
+
+  const diff = baseRevision && diffCallCards(toCallCardSnapshot(baseRevision), compareSnapshot);
+
+  // A later revision stays the comparison only while it's still later
+  const selectBase = (revision: TemplateRevision) => {
+    setBaseId(revision.id);
+    if (compareRevision && compareRevision.revision <= revision.revision) setCompareId(CURRENT);
+  };
+
+  const authorName = (revision: TemplateRevision) =>
+    revision.created_by && revision.created_by === user?.id ? 'You' : revision.created_by_name || 'Unknown';
+
+  const handleRestore = (revision: TemplateRevision) => {
+    onRestore(toCallCardSnapshot(revision), revision);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision history
+          </DialogTitle>
+          <DialogDescription>
+            Pick a revision to compare it with a later one or your current edits, and restore it if needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : revisions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No saved revisions yet.</p>
+        ) : (
+          <div className="flex gap-4">
+            <ScrollArea className="h-[60vh] w-56 shrink-0 border-r pr-3">
+              <div className="space-y-1">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => selectBase(revision)}
+                    className={cn(
+                      'w-full rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent',
+                      revision.id === baseId && 'bg-accent'
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{revision.revision}</span>
+                      {index === 0 && (
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Latest</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {authorName(revision)} · {new Date(revision.created_at).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="min-w-0 flex-1 space-y-3">
+              {baseRevision && (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>Comparing v{baseRevision.revision} with</span>
+                    <Select value={compareId} onValueChange={setCompareId}>
+                      <SelectTrigger className="h-8 w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={CURRENT}>Current edits</SelectItem>
+                        {revisions
+                          .filter(revision => revision.revision > baseRevision.revision)
+                          .map(revision => (
+                            <SelectItem key={revision.id} value={revision.id}>v{revision.revision}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleRestore(baseRevision)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore v{baseRevision.revision}
+                  </Button>
+                </div>
+              )}
+
+              {diff && (
+                <ScrollArea className="h-[calc(60vh-3rem)] pr-3">
+                  <div className="space-y-4">
+                    {(diff.nameChanged || diff.descriptionChanged) && (
+                      <p className="text-xs text-muted-foreground">
+                        {[diff.nameChanged && 'Name', diff.descriptionChanged && 'Description'].filter(Boolean).join(' and ')} changed
+                      </p>
+                    )}
+                    <DiffSection title="Use Cases" items={diff.useCases} />
+                    <DiffSection title="Pain Points" items={diff.painPoints} />
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
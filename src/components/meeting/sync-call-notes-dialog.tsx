@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { CalendarPlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  CalendarEvent,
+  createCalendarEvent,
+  fetchCalendarEvent,
+  updateCalendarEvent
+} from '@/services/google-calendar-api-function';
+import { MeetingSummary } from '@/types/meeting-record';
+import { formatCallNotes, mergeCallNotesIntoDescription } from '@/utils/callNotesUtils';
+import { getGuestAttendees } from '@/utils/calendarEventUtils';
+import type { FrameworkProgress } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+
+const DEFAULT_FOLLOW_UP_DAYS = 7;
+const DEFAULT_DURATION_MS = 30 * 60 * 1000;
+
+interface SyncCallNotesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventId: string;
+  summary: MeetingSummary | null;
+  frameworkProgress: FrameworkProgress | null;
+  startedAt: string;
+  durationSeconds?: number | null;
+}
+
+/**
+ * SyncCallNotesDialog Component
+ *
+ * Writes the post-call notes (summary, framework coverage and next steps)
+ * into the linked Google Calendar event's description and optionally
+ * schedules a follow-up meeting with the same attendees.
+ */
+export function SyncCallNotesDialog({
+  isOpen,
+  onOpenChange,
+  eventId,
+  summary,
+  frameworkProgress,
+  startedAt,
+  durationSeconds
+}: SyncCallNotesDialogProps) {
+  const [event, setEvent] = useState<CalendarEvent | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [scheduleFollowUp, setScheduleFollowUp] = useState(false);
+  const [followUpTitle, setFollowUpTitle] = useState('');
+  const [followUpDate, setFollowUpDate] = useState('');
+  const [followUpTime, setFollowUpTime] = useState('');
+
+  const notes = useMemo(
+    () => formatCallNotes({ summary, frameworkProgress, startedAt, durationSeconds }),
+    [summary, frameworkProgress, startedAt, durationSeconds]
+  );
+
+  const attendees = useMemo(() => (event ? getGuestAttendees(event) : []), [event]);
+
+  // Load the event and seed the follow-up from the earliest next-step due date
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    fetchCalendarEvent(eventId)
+      .then((loaded) => {
+        if (isCancelled) return;
+        setEvent(loaded);
+
+        const eventStart = loaded.start_time ? new Date(loaded.start_time) : new Date(startedAt);
+        const dueDates = (summary?.nextSteps ?? [])
+          .map(step => step.dueDate)
+          .filter((date): date is string => Boolean(date))
+          .sort();
+        setFollowUpTitle(`Follow-up: ${loaded.title || 'Call'}`);
+        setFollowUpDate(dueDates[0] ?? format(addDays(eventStart, DEFAULT_FOLLOW_UP_DAYS), 'yyyy-MM-dd'));
+        setFollowUpTime(format(eventStart, 'HH:mm'));
+      })
+      .catch((error) => {
+        if (isCancelled) return;
+        console.error('Error loading calendar event:', error);
+        toast.error('Failed to load the calendar event');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, eventId, startedAt, summary]);
+
+  const handleSync = async () => {
+    if (!event || !event.start_time) return;
+
+    setIsSyncing(true);
+    try {
+      await updateCalendarEvent(event.id, {
+        title: event.title || '',
+        description: mergeCallNotesIntoDescription(event.description, notes),
+        startTime: event.start_time,
+        endTime: event.end_time || undefined,
+      });
+
+      if (scheduleFollowUp) {
+        const followUpStart = new Date(`${followUpDate}T${followUpTime}`);
+        if (Number.isNaN(followUpStart.getTime())) {
+          throw new Error('Invalid follow-up date or time');
+        }
+        const duration = event.end_time
+          ? new Date(event.end_time).getTime() - new Date(event.start_time).getTime()
+          : DEFAULT_DURATION_MS;
+
+        await createCalendarEvent({
+          title: followUpTitle.trim() || `Follow-up: ${event.title || 'Call'}`,
+          description: notes,
+          startTime: followUpStart.toISOString(),
+          endTime: new Date(followUpStart.getTime() + duration).toISOString(),
+          attendees: attendees.map(a => a.email),
+        });
+      }
+
+      toast.success(scheduleFollowUp ? 'Call notes added and follow-up scheduled' : 'Call notes added to the event');
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error syncing call notes:', error);
+      toast.error(error?.message || 'Failed to update the calendar event');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add call notes to event</DialogTitle>
+          <DialogDescription>
+            {event?.title ? <>Notes are written to <strong>{event.title}</strong>. </> : null}
+            Syncing again replaces the previous notes instead of adding a copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <pre className="max-h-48 overflow-auto rounded-md border bg-muted/40 p-2 text-xs whitespace-pre-wrap">
+              {notes}
+            </pre>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="schedule-follow-up" className="text-sm">Schedule follow-up meeting</Label>
+                <p className="text-xs text-muted-foreground">
+                  Invites the same attendees
+                </p>
+              </div>
+              <Switch
+                id="schedule-follow-up"
+                checked={scheduleFollowUp}
+                onCheckedChange={setScheduleFollowUp}
+                disabled={!event}
+              />
+            </div>
+
+            {scheduleFollowUp && (
+              <div className="space-y-2">
+                <Input
+                  value={followUpTitle}
+                  onChange={(e) => setFollowUpTitle(e.target.value)}
+                  placeholder="Follow-up title"
+                />
+                <div className="flex gap-2">
+                  <Input type="date" value={followUpDate} onChange={(e) => setFollowUpDate(e.target.value)} />
+                  <Input type="time" value={followUpTime} onChange={(e) => setFollowUpTime(e.target.value)} className="w-32" />
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {attendees.length === 0 ? (
+                    <span className="text-xs text-muted-foreground">No other attendees on this event</span>
+                  ) : (
+                    attendees.map(a => (
+                      <Badge key={a.email} variant="secondary" className="text-[10px]">
+                        {a.displayName || a.email}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSyncing}>
+            Cancel
+          </Button>
+          <Button onClick={handleSync} disabled={!event || isLoading || isSyncing}>
+            {isSyncing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarPlus className="h-4 w-4 mr-2" />
+            )}
+            Update event
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { CalendarEvent, fetchUpcomingEvents } from '@/services/google-calendar-api-function';
+import { CallReminderEvent } from '@/types/electron';
+import { getCallReminderSettings } from '@/utils/callReminderSettings';
+
+// How often upcoming events are re-sent to the reminder scheduler
+const REMINDER_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Only events with a linked call card get a reminder
+const toReminderEvents = (events: CalendarEvent[]): CallReminderEvent[] =>
+  events
+    .filter(event => event.template_id && event.start_time && new Date(event.start_time).getTime() > Date.now())
+    .map(event => ({
+      id: event.id,
+      title: event.title,
+      startTime: event.start_time!,
+      templateId: event.template_id!,
+    }));
+
+/**
+ * Keeps the main-process reminder scheduler in sync with the signed-in
+ * user's upcoming calendar events. No-op outside the desktop app.
+ */
+export const useCallReminders = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    const electron = window.electron;
+    if (!electron?.setCallReminderEvents) return;
+
+    electron.setCallReminderSettings?.(getCallReminderSettings());
+
+    if (!userId) {
+      electron.setCallReminderEvents([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const syncReminders = async () => {
+      try {
+        const events = await fetchUpcomingEvents();
+        if (!isCancelled) {
+          electron.setCallReminderEvents?.(toReminderEvents(events));
+        }
+      } catch (error) {
+        console.error('Error syncing call reminders:', error);
+      }
+    };
+
+    syncReminders();
+    const interval = setInterval(syncReminders, REMINDER_SYNC_INTERVAL_MS);
+
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [userId]);
+};
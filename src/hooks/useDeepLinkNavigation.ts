@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+/**
+ * Navigates to the route of a callcard:// link opened by the OS or a
+ * pre-call reminder, including one that arrived before the app loaded.
+ * No-op outside the desktop app.
+ */
+export const useDeepLinkNavigation = () => {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const electron = window.electron;
+    if (!electron?.onDeepLinkNavigate) return;
+
+    electron.consumePendingDeepLink?.().then((route) => {
+      if (route) navigate(route);
+    });
+
+    return electron.onDeepLinkNavigate((route) => navigate(route));
+  }, [navigate]);
+};
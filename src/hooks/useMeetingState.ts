@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
 import { ActiveMeeting, MeetingSection } from '@/types/meetingTemplates';
 import { Template } from '@/services/templatesFunction';
 
@@ -26,6 +27,7 @@ export const useMeetingState = ({ initialMeeting = null }: UseMeetingStateProps
     
     // Set the meeting state
     setActiveMeeting({
+      id: uuidv4(),
       templateId: templateId,
       startTime: Date.now(),
       currentSectionIndex: 0,
@@ -46,6 +48,16 @@ export const useMeetingState = ({ initialMeeting = null }: UseMeetingStateProps
     }, 700); // 700ms to match the skeleton display time
   };
   
+  // Resume a meeting restored from the crash journal
+  const restoreMeeting = (meeting: ActiveMeeting) => {
+    setActiveMeeting(meeting);
+    setIsMeetingComplete(false);
+
+    if (window.electron) {
+      (window.electron as any).minimizeAndPositionWindow();
+    }
+  };
+
   // End the current meeting
   const stopMeeting = () => {
     // Immediately set the meeting to null to prevent restart issues
@@ -169,6 +181,7 @@ export const useMeetingState = ({ initialMeeting = null }: UseMeetingStateProps
     isMeetingStarting,
     setIsMeetingComplete,
     startMeeting,
+    restoreMeeting,
     stopMeeting,
     pauseMeeting,
     resumeMeeting,
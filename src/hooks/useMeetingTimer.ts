@@ -157,6 +157,16 @@ export const useMeetingTimer = ({
     }
   }, []);
   
+  // Continue from the elapsed time of a meeting restored from the crash journal
+  const restoreTimer = useCallback((seconds: number) => {
+    setTimer(seconds);
+    setSectionTimer(0);
+    sectionStartTimeRef.current = seconds;
+    pausedAtRef.current = seconds;
+    startTimeRef.current = Date.now() - (seconds * 1000);
+    lastUpdateRef.current = Date.now();
+  }, []);
+
   // Reset section time
   const resetSectionTime = useCallback(() => {
     sectionStartTimeRef.current = timer;
@@ -197,6 +207,7 @@ export const useMeetingTimer = ({
     setIsTimerRunning,
     toggleTimer,
     resetTimer,
+    restoreTimer,
     resetSectionTime,
     formatTime
   };
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { SalesFramework, getSalesFrameworks } from '@/services/sales-frameworks-api-function';
+
+/**
+ * The sales framework library: the user's own frameworks and the shared
+ * defaults, defaults first.
+ */
+export const useSalesFrameworks = () => {
+  const { user } = useAuth();
+  const [frameworks, setFrameworks] = useState<SalesFramework[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchFrameworks = useCallback(async () => {
+    if (!user) {
+      setFrameworks([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const data = await getSalesFrameworks();
+      setFrameworks([...data].sort((a, b) =>
+        Number(b.is_default_framework) - Number(a.is_default_framework) || a.name.localeCompare(b.name)
+      ));
+    } catch (error) {
+      toast.error('Failed to fetch sales frameworks');
+      console.error(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchFrameworks();
+  }, [fetchFrameworks]);
+
+  return {
+    frameworks,
+    isLoading,
+    refetchFrameworks: fetchFrameworks,
+  };
+};
@@ -0,0 +1,34 @@
+import { useEffect, useId, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Template } from '@/services/templatesFunction';
+
+/**
+ * Subscribes to inserts and updates of the user's templates over Supabase
+ * realtime, e.g. to follow a call pack the agent is generating. Pass a
+ * template id to only hear about that template, or null to not subscribe yet.
+ */
+export const useTemplateUpdates = (onChange: (template: Template) => void, templateId?: string | null) => {
+  const { user } = useAuth();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // Channel topics must be unique per subscriber
+  const subscriberId = useId();
+
+  useEffect(() => {
+    if (!user || templateId === null) return;
+
+    const filter = templateId ? `template_id=eq.${templateId}` : `user_id=eq.${user.id}`;
+    const channel = supabase
+      .channel(`templates:${templateId ?? user.id}:${subscriberId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'templates', filter }, (payload) => {
+        if (payload.eventType === 'DELETE') return;
+        onChangeRef.current(payload.new as Template);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, templateId, subscriberId]);
+};
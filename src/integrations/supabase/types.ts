@@ -106,6 +106,85 @@ export type Database = {
           },
         ]
       }
+      meetings: {
+        Row: {
+          calendar_event_id: string | null
+          checklist: Json | null
+          created_at: string
+          duration_seconds: number | null
+          ended_at: string | null
+          finalized_at: string | null
+          framework_progress: Json | null
+          id: string
+          recording: Json | null
+          started_at: string
+          summary: Json | null
+          template_id: string | null
+          title: string | null
+          transcript: Json | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calendar_event_id?: string | null
+          checklist?: Json | null
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          finalized_at?: string | null
+          framework_progress?: Json | null
+          id?: string
+          recording?: Json | null
+          started_at: string
+          summary?: Json | null
+          template_id?: string | null
+          title?: string | null
+          transcript?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          calendar_event_id?: string | null
+          checklist?: Json | null
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          finalized_at?: string | null
+          framework_progress?: Json | null
+          id?: string
+          recording?: Json | null
+          started_at?: string
+          summary?: Json | null
+          template_id?: string | null
+          title?: string | null
+          transcript?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meetings_calendar_event_id_fkey"
+            columns: ["calendar_event_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meetings_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["template_id"]
+          },
+          {
+            foreignKeyName: "meetings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           company_data: Json | null
@@ -142,14 +221,143 @@ export type Database = {
         }
         Relationships: []
       }
+      sales_framework_versions: {
+        Row: {
+          created_at: string
+          description: string | null
+          framework_id: string
+          id: string
+          name: string
+          questions: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          framework_id: string
+          id?: string
+          name: string
+          questions?: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          framework_id?: string
+          id?: string
+          name?: string
+          questions?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_framework_versions_framework_id_fkey"
+            columns: ["framework_id"]
+            isOneToOne: false
+            referencedRelation: "sales_frameworks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_frameworks: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_default_framework: boolean
+          name: string
+          questions: Json
+          updated_at: string
+          user_id: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default_framework?: boolean
+          name: string
+          questions?: Json
+          updated_at?: string
+          user_id?: string | null
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default_framework?: boolean
+          name?: string
+          questions?: Json
+          updated_at?: string
+          user_id?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_frameworks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      template_revisions: {
+        Row: {
+          content: Json | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          description: string | null
+          id: string
+          revision: number
+          template_id: string
+          template_name: string
+        }
+        Insert: {
+          content?: Json | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string | null
+          id?: string
+          revision: number
+          template_id: string
+          template_name: string
+        }
+        Update: {
+          content?: Json | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string | null
+          id?: string
+          revision?: number
+          template_id?: string
+          template_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_revisions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["template_id"]
+          },
+        ]
+      }
       templates: {
         Row: {
           content: Json | null
           created_at: string
           description: string | null
           error_message: string | null
+          generation_progress: Json | null
           is_default_template: boolean
           sales_framework: Json | null
+          sales_framework_id: string | null
+          sales_framework_version: number | null
           status: Database["public"]["Enums"]["template_status"]
           template_id: string
           template_name: string
@@ -161,8 +369,11 @@ export type Database = {
           created_at?: string
           description?: string | null
           error_message?: string | null
+          generation_progress?: Json | null
           is_default_template?: boolean
           sales_framework?: Json | null
+          sales_framework_id?: string | null
+          sales_framework_version?: number | null
           status?: Database["public"]["Enums"]["template_status"]
           template_id?: string
           template_name: string
@@ -174,8 +385,11 @@ export type Database = {
           created_at?: string
           description?: string | null
           error_message?: string | null
+          generation_progress?: Json | null
           is_default_template?: boolean
           sales_framework?: Json | null
+          sales_framework_id?: string | null
+          sales_framework_version?: number | null
           status?: Database["public"]["Enums"]["template_status"]
           template_id?: string
           template_name?: string
@@ -183,6 +397,13 @@ export type Database = {
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "templates_sales_framework_id_fkey"
+            columns: ["sales_framework_id"]
+            isOneToOne: false
+            referencedRelation: "sales_frameworks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "templates_user_id_fkey"
             columns: ["user_id"]
@@ -192,6 +413,53 @@ export type Database = {
           },
         ]
       }
+      user_calendars: {
+        Row: {
+          access_role: string | null
+          background_color: string | null
+          calendar_id: string
+          created_at: string
+          id: string
+          is_primary: boolean
+          is_selected: boolean
+          summary: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_role?: string | null
+          background_color?: string | null
+          calendar_id: string
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          is_selected?: boolean
+          summary: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_role?: string | null
+          background_color?: string | null
+          calendar_id?: string
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          is_selected?: boolean
+          summary?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_calendars_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_google_tokens: {
         Row: {
           access_token_expires_at: string | null
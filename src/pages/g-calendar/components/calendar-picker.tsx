@@ -0,0 +1,68 @@
+import { CalendarDays } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { type UserCalendar } from "@/services/google-calendar-api-function";
+import { DEFAULT_CALENDAR_COLOR } from "@/utils/calendarEventUtils";
+
+interface CalendarPickerProps {
+  calendars: UserCalendar[];
+  isLoading: boolean;
+  onToggleCalendar: (calendarId: string, isSelected: boolean) => void;
+}
+
+/**
+ * CalendarPicker Component
+ *
+ * Lists all of the user's Google calendars, including shared team calendars,
+ * and lets them choose which ones are synced. Each calendar shows the color
+ * its events use in the calendar view and event list.
+ */
+export function CalendarPicker({ calendars, isLoading, onToggleCalendar }: CalendarPickerProps) {
+  const selectedCount = calendars.filter(calendar => calendar.is_selected).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isLoading}>
+          <CalendarDays className="h-4 w-4 mr-2" />
+          {isLoading ? "Loading calendars..." : `Calendars (${selectedCount}/${calendars.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <p className="px-2 pb-2 text-xs text-muted-foreground">Choose which calendars to sync</p>
+        {calendars.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">No calendars found</p>
+        ) : (
+          <ScrollArea className="max-h-72">
+            <div className="space-y-1">
+              {calendars.map((calendar) => (
+                <label
+                  key={calendar.calendar_id}
+                  htmlFor={`calendar-${calendar.calendar_id}`}
+                  className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-accent cursor-pointer"
+                >
+                  <span
+                    className="h-3 w-3 rounded-sm shrink-0"
+                    style={{ backgroundColor: calendar.background_color || DEFAULT_CALENDAR_COLOR }}
+                  />
+                  <span className="flex-1 truncate text-sm">{calendar.summary}</span>
+                  {calendar.is_primary && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0">Primary</Badge>
+                  )}
+                  <Switch
+                    id={`calendar-${calendar.calendar_id}`}
+                    checked={calendar.is_selected}
+                    onCheckedChange={(checked) => onToggleCalendar(calendar.calendar_id, checked)}
+                  />
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,32 +1,50 @@
 import { Calendar } from "@/components/ui/calendar";
 import { CardContent } from "@/components/ui/card";
-import { type CalendarEvent } from "@/services/google-calendar-api-function";
+import { type CalendarEvent, type UserCalendar } from "@/services/google-calendar-api-function";
 import { cn } from "@/lib/utils";
 import { DayContent, DayContentProps } from "react-day-picker";
+import { getCalendarColor, isRecurringEvent } from "@/utils/calendarEventUtils";
+
+// Most calendar dots shown under a single day
+const MAX_DAY_MARKERS = 3;
 
 interface CalendarWithEventsProps {
   date: Date | undefined;
   onSelect: (date: Date | undefined) => void;
   events: CalendarEvent[];
+  calendars?: UserCalendar[];
+}
+
+interface DayMarker {
+  color: string;
+  isRecurring: boolean;
 }
 
 /**
  * CalendarWithEvents Component
  * 
  * Extends the base Calendar component to show indicators for dates that have events.
- * Dates with events are highlighted with a border.
+ * Dates with events are highlighted with a border, plus one dot per calendar
+ * in that calendar's color. Occurrences of recurring events get a hollow dot.
  */
-export function CalendarWithEvents({ date, onSelect, events }: CalendarWithEventsProps) {
-  // Create a map of dates that have events
-  const eventDates = new Map<string, boolean>();
+export function CalendarWithEvents({ date, onSelect, events, calendars = [] }: CalendarWithEventsProps) {
+  // Create a map of dates to the calendars that have events on them
+  const eventDates = new Map<string, Map<string, DayMarker>>();
   events.forEach(event => {
     const eventDate = new Date(event.start_time || "");
-    eventDates.set(eventDate.toDateString(), true);
+    const markers = eventDates.get(eventDate.toDateString()) ?? new Map<string, DayMarker>();
+    const existing = markers.get(event.calendar_id);
+    markers.set(event.calendar_id, {
+      color: getCalendarColor(calendars, event.calendar_id),
+      isRecurring: (existing?.isRecurring ?? true) && isRecurringEvent(event),
+    });
+    eventDates.set(eventDate.toDateString(), markers);
   });
 
   // Custom day render function to add event indicators
   const renderDay = (props: DayContentProps) => {
-    const hasEvents = eventDates.has(props.date.toDateString());
+    const markers = eventDates.get(props.date.toDateString());
+    const hasEvents = markers !== undefined;
     
     return (
       <div className={cn(
@@ -34,6 +52,20 @@ export function CalendarWithEvents({ date, onSelect, events }: CalendarWithEvent
         hasEvents && "border-2 border-primary rounded-sm"
       )}>
         <DayContent {...props} />
+        {markers && (
+          <div className="absolute bottom-0.5 left-0 right-0 flex justify-center gap-0.5">
+            {Array.from(markers.values()).slice(0, MAX_DAY_MARKERS).map((marker, index) => (
+              <span
+                key={index}
+                className="h-1 w-1 rounded-full border"
+                style={{
+                  borderColor: marker.color,
+                  backgroundColor: marker.isRecurring ? "transparent" : marker.color
+                }}
+              />
+            ))}
+          </div>
+        )}
       </div>
     );
   };
@@ -18,9 +18,10 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import CallCardEditor from '@/components/meeting/call-card-editor';
 import { CallCard } from '@/types/agent/call-card-create.types';
-import { createTemplate, updateTemplate, deleteTemplate } from '@/services/templatesFunction';
+import { createTemplate, updateTemplate, deleteTemplate, isTemplateSelectable } from '@/services/templatesFunction';
 import { createCalendarEvent, linkTemplateToEvent } from '@/services/google-calendar-api-function';
 import type { Json } from '@/integrations/supabase/types';
+import { getFrameworkAttachment, SalesFrameworkAttachment } from '@/utils/salesFrameworks';
 
 
 interface CreateEventDialogProps {
@@ -215,7 +216,7 @@ export function CreateEventDialog({
   };
 
   // Handle template save - second step in the new flow, includes event data
-  const handleSaveTemplate = async (template: CallCard, salesFramework?: any) => {
+  const handleSaveTemplate = async (template: CallCard, salesFramework?: SalesFrameworkAttachment) => {
     if (!user) {
       toast.error('You must be logged in to save templates');
       return;
@@ -240,7 +241,7 @@ export function CreateEventDialog({
           template_name: template.name,
           description: template.description,
           content: content as unknown as Json,
-          sales_framework: salesFramework as any,
+          ...salesFramework,
           is_default_template: editingTemplate.is_default_template
         });
         toast.dismiss(loadingToast);
@@ -251,7 +252,7 @@ export function CreateEventDialog({
           template_name: template.name,
           description: template.description,
           content: content as unknown as Json,
-          sales_framework: salesFramework as any,
+          ...salesFramework,
           user_id: user.id,
           is_default_template: false,
           status: 'ACTIVE' // Set the template status to active
@@ -568,7 +569,7 @@ export function CreateEventDialog({
                           <SelectValue placeholder="Select an existing template" />
                         </SelectTrigger>
                         <SelectContent>
-                          {templates.map((template) => {
+                          {templates.filter(isTemplateSelectable).map((template) => {
                             const content = template.content as any;
                             return (
                               <SelectItem key={template.template_id} value={template.template_id}>
@@ -654,7 +655,7 @@ export function CreateEventDialog({
                   onSave={handleSaveTemplate}
                   onCancel={handleCancelTemplate}
                   isActive={editingTemplate.is_default_template}
-                  initialSalesFramework={editingTemplate.sales_framework as any || null}
+                  initialSalesFramework={getFrameworkAttachment(editingTemplate)}
                   onSetActive={async () => {
                     // Handle setting active template
                     toast.info('Template set as active');
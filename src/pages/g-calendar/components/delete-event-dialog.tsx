@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type {
+  CalendarEvent,
+  CalendarEventDeleteScope,
+  DeleteCalendarEventOptions
+} from '@/services/google-calendar-api-function';
+import { getGuestAttendees, isRecurringEvent } from '@/utils/calendarEventUtils';
+
+interface DeleteEventDialogProps {
+  event: CalendarEvent | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (event: CalendarEvent, options: DeleteCalendarEventOptions) => void;
+}
+
+/**
+ * DeleteEventDialog Component
+ *
+ * Confirms deleting a calendar event. Lets the user choose whether guests
+ * get a cancellation email and, for recurring events, whether only this
+ * occurrence or the whole series is removed.
+ */
+export function DeleteEventDialog({ event, onOpenChange, onConfirm }: DeleteEventDialogProps) {
+  const [notifyAttendees, setNotifyAttendees] = useState(true);
+  const [scope, setScope] = useState<CalendarEventDeleteScope>('instance');
+
+  // Reset choices whenever a different event is opened
+  useEffect(() => {
+    setNotifyAttendees(true);
+    setScope('instance');
+  }, [event?.id]);
+
+  const guests = event ? getGuestAttendees(event) : [];
+  const isRecurring = event ? isRecurringEvent(event) : false;
+
+  return (
+    <AlertDialog open={event !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{event?.title || 'Untitled Event'}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The event is removed from your Google Calendar. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {isRecurring && (
+            <div className="space-y-2">
+              <Label className="text-sm">This is a recurring event</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as CalendarEventDeleteScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="instance">This event only</SelectItem>
+                  <SelectItem value="series">All events in the series</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {guests.length > 0 && (
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="notify-attendees" className="text-sm">Notify attendees</Label>
+                <p className="text-xs text-muted-foreground">
+                  Send a cancellation email to {guests.length} {guests.length === 1 ? 'guest' : 'guests'}
+                </p>
+              </div>
+              <Switch
+                id="notify-attendees"
+                checked={notifyAttendees}
+                onCheckedChange={setNotifyAttendees}
+              />
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            onClick={() => event && onConfirm(event, {
+              notifyAttendees: guests.length > 0 && notifyAttendees,
+              scope: isRecurring ? scope : 'instance',
+            })}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
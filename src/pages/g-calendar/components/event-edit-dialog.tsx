@@ -20,8 +20,9 @@ import { Progress } from '@/components/ui/progress';
 import CallCardEditor from '@/components/meeting/call-card-editor';
 import { CallCard } from '@/types/agent/call-card-create.types';
 import { linkTemplateToEvent, updateCalendarEvent } from '@/services/google-calendar-api-function';
-import { updateTemplate } from '@/services/templatesFunction';
+import { updateTemplate, isTemplateSelectable } from '@/services/templatesFunction';
 import type { CalendarEvent } from '@/services/google-calendar-api-function';
+import { getFrameworkAttachment, SalesFrameworkAttachment } from '@/utils/salesFrameworks';
 import { useNavigate } from "react-router-dom";
 
 interface EventEditDialogProps {
@@ -324,16 +325,18 @@ export function EventEditDialog({
                       <SelectValue placeholder="Select a template" />
                     </SelectTrigger>
                     <SelectContent>
-                      {templates.map((template) => (
-                        <SelectItem key={template.template_id} value={template.template_id}>
-                          <div className="flex items-center justify-between w-full">
-                            <span>{template.template_name}</span>
-                            {template.is_default_template && (
-                              <Badge variant="secondary" className="ml-2">Default</Badge>
-                            )}
-                          </div>
-                        </SelectItem>
-                      ))}
+                      {templates
+                        .filter(template => isTemplateSelectable(template) || template.template_id === selectedTemplateId)
+                        .map((template) => (
+                          <SelectItem key={template.template_id} value={template.template_id}>
+                            <div className="flex items-center justify-between w-full">
+                              <span>{template.template_name}</span>
+                              {template.is_default_template && (
+                                <Badge variant="secondary" className="ml-2">Default</Badge>
+                              )}
+                            </div>
+                          </SelectItem>
+                        ))}
                     </SelectContent>
                   </Select>
                   <Button
@@ -399,9 +402,9 @@ export function EventEditDialog({
                 })()}
                 initialSalesFramework={(() => {
                   const template = templates.find(t => t.template_id === selectedTemplateId);
-                  return template?.sales_framework as any || null;
+                  return getFrameworkAttachment(template);
                 })()}
-                onSave={async (template: CallCard, salesFramework?: any) => {
+                onSave={async (template: CallCard, salesFramework?: SalesFrameworkAttachment) => {
                   if (!selectedTemplateId) return;
                   
                   try {
@@ -416,7 +419,7 @@ export function EventEditDialog({
                       template_name: template.name,
                       description: template.description,
                       content: content as any,
-                      sales_framework: salesFramework as any,
+                      ...salesFramework,
                       is_default_template: templates.find(t => t.template_id === selectedTemplateId)?.is_default_template
                     });
                     
@@ -1,10 +1,11 @@
-import { AlertCircle, Mail, User, Users, Calendar as CalendarIcon, Settings, Edit, Plus, Trash2, FileText } from "lucide-react";
+import { AlertCircle, Mail, User, Users, Calendar as CalendarIcon, Settings, Edit, Plus, Trash2, FileText, Repeat } from "lucide-react";
 import { MeetingStartButton } from "./meeting-start-button";
 import { EventEditDialog } from "./event-edit-dialog";
+import { DeleteEventDialog } from "./delete-event-dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { type CalendarEvent } from "@/services/google-calendar-api-function";
+import { type CalendarEvent, type DeleteCalendarEventOptions, type UserCalendar } from "@/services/google-calendar-api-function";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Separator } from "@/components/ui/separator";
@@ -17,9 +18,11 @@ import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import CallCardEditor from '@/components/meeting/call-card-editor';
 import { CallCard } from '@/types/agent/call-card-create.types';
-import { createTemplate, updateTemplate } from '@/services/templatesFunction';
+import { createTemplate, updateTemplate, isTemplateSelectable } from '@/services/templatesFunction';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Json } from '@/integrations/supabase/types';
+import { getCalendarColor, getRecurrenceLabel, getRecurringEventId } from '@/utils/calendarEventUtils';
+import { getFrameworkAttachment, SalesFrameworkAttachment } from '@/utils/salesFrameworks';
 
 interface EventListProps {
   date: Date | undefined;
@@ -27,6 +30,11 @@ interface EventListProps {
   isLoading: boolean;
   error: string | null;
   onRefresh: () => void;
+  // seriesId is set when a whole recurring series was deleted
+  onEventsDeleted?: (eventIds: string[], seriesId: string | null) => void;
+  calendars?: UserCalendar[];
+  callCardEventId?: string | null;
+  onCallCardOpened?: () => void;
 }
 
 interface Attendee {
@@ -86,7 +94,7 @@ function TemplateSelectionDialog({
   /**
    * Handles creating a new template and linking it to the event
    */
-  const handleCreateTemplate = async (template: CallCard, salesFramework?: any) => {
+  const handleCreateTemplate = async (template: CallCard, salesFramework?: SalesFrameworkAttachment) => {
     if (!user) {
       toast.error('You must be logged in to create templates');
       return;
@@ -105,7 +113,7 @@ function TemplateSelectionDialog({
         template_name: template.name,
         description: template.description,
         content: content as unknown as Json,
-        sales_framework: salesFramework as any,
+        ...salesFramework,
         user_id: user.id,
         is_default_template: false,
         status: 'ACTIVE'
@@ -161,7 +169,7 @@ function TemplateSelectionDialog({
                 <SelectValue placeholder={isLoading ? "Loading Callcard..." : "Choose a Callcard"} />
               </SelectTrigger>
               <SelectContent>
-                {templates.map((template) => (
+                {templates.filter(isTemplateSelectable).map((template) => (
                   <SelectItem key={template.template_id} value={template.template_id}>
                     <div className="flex flex-col">
                       <span className="font-medium">{template.template_name}</span>
@@ -243,14 +251,26 @@ function TemplateSelectionDialog({
  * Displays a list of events for a selected date with loading and error states.
  * Shows attendee information including organizer and participants.
  * Always displays labels with "Unknown" as fallback when data is missing.
+ * Each event is marked with its calendar's color and, for recurring events,
+ * how often it repeats.
  */
-export function EventList({ date, events, isLoading, error, onRefresh }: EventListProps) {
+export function EventList({
+  date,
+  events,
+  isLoading,
+  error,
+  onRefresh,
+  onEventsDeleted,
+  calendars = [],
+  callCardEventId = null,
+  onCallCardOpened
+}: EventListProps) {
   // State to track locally updated events with linked templates
   const navigate = useNavigate();
   const { templates } = useTemplates();
   const [updatedEvents, setUpdatedEvents] = useState<CalendarEvent[]>(events);
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
-  const [deletingEventId, setDeletingEventId] = useState<string | null>(null);
+  const [eventPendingDelete, setEventPendingDelete] = useState<CalendarEvent | null>(null);
   const [editingCallCard, setEditingCallCard] = useState<CalendarEvent | null>(null);
 
   // Update local state when events prop changes
@@ -258,6 +278,16 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
     setUpdatedEvents(events);
   }, [events]);
 
+  // Open the call card requested from a pre-call reminder once its event is listed
+  React.useEffect(() => {
+    if (!callCardEventId) return;
+    const event = updatedEvents.find(e => e.id === callCardEventId);
+    if (event?.template_id) {
+      setEditingCallCard(event);
+      onCallCardOpened?.();
+    }
+  }, [callCardEventId, updatedEvents, onCallCardOpened]);
+
   /**
    * Handles template linking for a specific event
    * Updates the local event state to reflect the newly linked template
@@ -273,20 +303,33 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
   };
 
   /**
-   * Handles deleting an event
-   * Removes the event from the local state and calls the API
+   * Handles deleting an event (or its whole series)
+   * Removes the events from the local state straight away and puts them back
+   * if the API call fails
    */
-  const handleDeleteEvent = async (eventId: string) => {
-    setDeletingEventId(eventId);
+  const handleDeleteEvent = async (event: CalendarEvent, options: DeleteCalendarEventOptions) => {
+    setEventPendingDelete(null);
+
+    const seriesId = options.scope === 'series' ? getRecurringEventId(event) : null;
+    const isDeleted = (candidate: CalendarEvent) =>
+      candidate.id === event.id || (seriesId !== null && getRecurringEventId(candidate) === seriesId);
+    const removedEvents = updatedEvents.filter(isDeleted);
+
+    setUpdatedEvents(prevEvents => prevEvents.filter(candidate => !isDeleted(candidate)));
     try {
-      await deleteCalendarEvent(eventId);
-      setUpdatedEvents(prevEvents => prevEvents.filter(event => event.id !== eventId));
-      toast.success('Not implemented');
+      const result = await deleteCalendarEvent(seriesId ?? event.id, options);
+      if (!result.success) throw new Error(result.message);
+
+      onEventsDeleted?.(removedEvents.map(removed => removed.id), seriesId);
+      toast.success(seriesId ? 'Recurring event deleted' : 'Event deleted');
     } catch (error) {
       console.error('Error deleting event:', error);
-      toast.error('Not implemented');
-    } finally {
-      setDeletingEventId(null);
+      setUpdatedEvents(prevEvents =>
+        [...prevEvents, ...removedEvents].sort((a, b) =>
+          new Date(a.start_time || 0).getTime() - new Date(b.start_time || 0).getTime()
+        )
+      );
+      toast.error('Failed to delete event');
     }
   };
 
@@ -299,6 +342,12 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
     }
   };
 
+  // Calendar name, only worth showing when events come from several calendars
+  const getCalendarName = (calendarId: string) => {
+    if (calendars.filter(calendar => calendar.is_selected).length < 2) return null;
+    return calendars.find(calendar => calendar.calendar_id === calendarId)?.summary ?? null;
+  };
+
   // Format date range for display
   const formatDateRange = (startTime: string | null, endTime: string | null) => {
     if (!startTime) return "All day";
@@ -452,124 +501,139 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
             </p>
           </div>
         ) : (
-          updatedEvents.map((event) => (
-            <div
-              key={event.id}
-              className="border border-border rounded-lg transition-colors hover:bg-accent/50 group overflow-hidden"
-            >
-              <div className="flex flex-row items-center justify-between py-1.5 px-3 border-b border-border bg-muted/30">
-                <h3 className="text-sm font-medium truncate flex-1">
-                  {event.title || "Untitled Event"}
-                </h3>
-                <div className="flex items-center space-x-2">
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
+          updatedEvents.map((event) => {
+            const recurrenceLabel = getRecurrenceLabel(event, updatedEvents);
+            const calendarName = getCalendarName(event.calendar_id);
+
+            return (
+              <div
+                key={event.id}
+                className="border border-border border-l-4 rounded-lg transition-colors hover:bg-accent/50 group overflow-hidden"
+                style={{ borderLeftColor: getCalendarColor(calendars, event.calendar_id) }}
+              >
+                <div className="flex flex-row items-center justify-between py-1.5 px-3 border-b border-border bg-muted/30">
+                  <h3 className="text-sm font-medium truncate flex-1">
+                    {event.title || "Untitled Event"}
+                  </h3>
+                  <div className="flex items-center space-x-2">
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 hover:bg-accent"
+                            onClick={() => setEditingEvent(event)}
+                          >
+                            <Edit className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent side="left">
+                          <p>Edit Event</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 hover:bg-accent hover:text-destructive"
+                            onClick={() => setEventPendingDelete(event)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent side="left">
+                          <p>Delete Event</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                    {event.template_id ? (
+                      <>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 hover:bg-accent"
+                                onClick={() => handleEditCallCard(event)}
+                              >
+                                <FileText className="h-3.5 w-3.5" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent side="left">
+                              <p>Edit Call-Card</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                        <MeetingStartButton
+                          templateId={event.template_id}
+                          eventId={event.id}
+                          eventTitle={event.title}
                           variant="ghost"
                           size="icon"
                           className="h-6 w-6 hover:bg-accent"
-                          onClick={() => setEditingEvent(event)}
-                        >
-                          <Edit className="h-3.5 w-3.5" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent side="left">
-                        <p>Edit Event</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6 hover:bg-accent hover:text-destructive"
-                          onClick={() => handleDeleteEvent(event.id)}
-                          disabled={deletingEventId === event.id}
-                        >
-                          <Trash2 className="h-3.5 w-3.5" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent side="left">
-                        <p>Delete Event</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                  {event.template_id ? (
-                    <>
+                        />
+                      </>
+                    ) : (
                       <TooltipProvider>
                         <Tooltip>
                           <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6 hover:bg-accent"
-                              onClick={() => handleEditCallCard(event)}
-                            >
-                              <FileText className="h-3.5 w-3.5" />
-                            </Button>
+                            <div>
+                              <TemplateSelectionDialog
+                                eventId={event.id}
+                                onTemplateLinked={(templateId) => handleTemplateLinked(event.id, templateId)}
+                              />
+                            </div>
                           </TooltipTrigger>
                           <TooltipContent side="left">
-                            <p>Edit Call-Card</p>
+                            <p>Link Template</p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
-                      <MeetingStartButton
-                        templateId={event.template_id}
-                        eventTitle={event.title}
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6 hover:bg-accent"
-                      />
-                    </>
-                  ) : (
-                    <TooltipProvider>
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <div>
-                            <TemplateSelectionDialog
-                              eventId={event.id}
-                              onTemplateLinked={(templateId) => handleTemplateLinked(event.id, templateId)}
-                            />
-                          </div>
-                        </TooltipTrigger>
-                        <TooltipContent side="left">
-                          <p>Link Template</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </TooltipProvider>
-                  )}
-                </div>
-              </div>
-              <div className="px-3 pb-2 pt-1.5">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    {event.description && (
-                      <p className="text-xs text-muted-foreground mb-2">
-                        {event.description}
-                      </p>
                     )}
-                    <div className="flex items-center gap-1.5">
-                      <Badge variant="outline" className="text-xs px-2 py-0.5">
-                        {formatDateRange(event.start_time, event.end_time)}
-                      </Badge>
-                      {event.status && (
-                        <Badge
-                          variant={event.status === "confirmed" ? "default" : "secondary"}
-                          className="text-xs px-2 py-0.5"
-                        >
-                          {event.status}
-                        </Badge>
+                  </div>
+                </div>
+                <div className="px-3 pb-2 pt-1.5">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      {event.description && (
+                        <p className="text-xs text-muted-foreground mb-2">
+                          {event.description}
+                        </p>
                       )}
+                      <div className="flex items-center gap-1.5">
+                        <Badge variant="outline" className="text-xs px-2 py-0.5">
+                          {formatDateRange(event.start_time, event.end_time)}
+                        </Badge>
+                        {event.status && (
+                          <Badge
+                            variant={event.status === "confirmed" ? "default" : "secondary"}
+                            className="text-xs px-2 py-0.5"
+                          >
+                            {event.status}
+                          </Badge>
+                        )}
+                        {recurrenceLabel && (
+                          <Badge variant="outline" className="text-xs px-2 py-0.5">
+                            <Repeat className="h-3 w-3 mr-1" />
+                            {recurrenceLabel}
+                          </Badge>
+                        )}
+                        {calendarName && (
+                          <span className="text-xs text-muted-foreground truncate">{calendarName}</span>
+                        )}
+                      </div>
+                      {renderAttendees(event.attendees)}
                     </div>
-                    {renderAttendees(event.attendees)}
                   </div>
                 </div>
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
 
@@ -584,6 +648,13 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
         }}
       />
 
+      {/* Event Delete Confirmation */}
+      <DeleteEventDialog
+        event={eventPendingDelete}
+        onOpenChange={(open) => !open && setEventPendingDelete(null)}
+        onConfirm={handleDeleteEvent}
+      />
+
       {/* Call-Card Edit Dialog */}
       {editingCallCard && (
         <Dialog open={editingCallCard !== null} onOpenChange={(open) => !open && setEditingCallCard(null)}>
@@ -610,9 +681,9 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
                 })()}
                 initialSalesFramework={(() => {
                   const template = templates.find(t => t.template_id === editingCallCard.template_id);
-                  return template?.sales_framework as any || null;
+                  return getFrameworkAttachment(template);
                 })()}
-                onSave={async (template: CallCard, salesFramework?: any) => {
+                onSave={async (template: CallCard, salesFramework?: SalesFrameworkAttachment) => {
                   if (!editingCallCard.template_id) return;
                   
                   try {
@@ -627,7 +698,7 @@ export function EventList({ date, events, isLoading, error, onRefresh }: EventLi
                       template_name: template.name,
                       description: template.description,
                       content: content as any,
-                      sales_framework: salesFramework as any,
+                      ...salesFramework,
                       is_default_template: templates.find(t => t.template_id === editingCallCard.template_id)?.is_default_template
                     });
                     
@@ -11,12 +11,23 @@ import {
   DialogDescription,
   DialogFooter
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { Template } from '@/services/templatesFunction';
 import { useChecklistStore } from '@/store/checklistStore';
+import { TranscriptionEngine } from '@/types/transcript';
+import { getPreferredTranscriptionEngine } from '@/utils/transcriptionSettings';
 
 interface MeetingStartButtonProps {
   templateId?: string | null;
+  eventId?: string | null;
   eventTitle?: string;
   size?: 'default' | 'sm' | 'lg' | 'icon';
   variant?: 'default' | 'destructive' | 'outline' | 'secondary' | 'ghost' | 'link';
@@ -29,10 +40,13 @@ interface MeetingStartButtonProps {
  * 
  * A button that starts a meeting with a specific template.
  * Shows a confirmation dialog before starting the meeting.
- * Navigates to the start-meeting page with the template ID.
+ * Navigates to the start-meeting page with the template ID, forwarding the
+ * calendar event ID so the finished meeting record can link back to it, and
+ * the transcription engine chosen for this meeting.
  */
 export function MeetingStartButton({
   templateId,
+  eventId,
   eventTitle,
   size = 'default',
   variant = 'default',
@@ -43,6 +57,8 @@ export function MeetingStartButton({
   const { templates, isLoading } = useTemplates();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
+  const [engine, setEngine] = useState<TranscriptionEngine>(getPreferredTranscriptionEngine);
+  const isLocalAvailable = Boolean(window.electron?.startLocalTranscription);
   const initializeSections = useChecklistStore(state => state.initializeSections);
 
   // Find the template by ID
@@ -57,6 +73,7 @@ export function MeetingStartButton({
       return;
     }
     
+    setEngine(getPreferredTranscriptionEngine());
     setIsDialogOpen(true);
   };
 
@@ -76,8 +93,10 @@ export function MeetingStartButton({
         initializeSections(template.content);
       }
       
-      // Navigate to start meeting page with template ID
-      navigate(`/start-meeting/${templateId}`);
+      // Navigate to start meeting page with template ID, engine and source event (if any)
+      const params = new URLSearchParams({ engine });
+      if (eventId) params.set('eventId', eventId);
+      navigate(`/start-meeting/${templateId}?${params.toString()}`);
     } catch (error) {
       console.error('Error starting meeting:', error);
       toast.error('Failed to start meeting');
@@ -146,6 +165,21 @@ export function MeetingStartButton({
               )}
             </p>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transcription-engine">Transcription</Label>
+            <Select value={engine} onValueChange={(value) => setEngine(value as TranscriptionEngine)}>
+              <SelectTrigger id="transcription-engine">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cloud">Cloud (Deepgram)</SelectItem>
+                <SelectItem value="local" disabled={!isLocalAvailable}>
+                  On-device (Whisper){!isLocalAvailable && ' - desktop app only'}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           
           <DialogFooter>
             <Button
@@ -1,6 +1,12 @@
 import * as React from "react"
 import { Card } from "@/components/ui/card";
-import { type CalendarEvent, fetchUpcomingEvents } from "@/services/google-calendar-api-function";
+import {
+  type CalendarEvent,
+  type UserCalendar,
+  fetchUpcomingEvents,
+  fetchUserCalendars,
+  updateCalendarSelection
+} from "@/services/google-calendar-api-function";
 import { EventList } from "./components/event-list";
 import { CalendarWithEvents } from "./components/calendar-with-events";
 import { CreateEventDialog } from "./components/create-event-dialog";
@@ -8,6 +14,10 @@ import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { CalendarStatusBar } from "./components/calendar-status-bar";
+import { CalendarPicker } from "./components/calendar-picker";
+import { dedupeCalendarEvents, getRecurringEventId } from "@/utils/calendarEventUtils";
+import { toast } from "sonner";
+import { useSearchParams } from "react-router-dom";
 
 /**
  * GCalendarPage Component
@@ -16,11 +26,17 @@ import { CalendarStatusBar } from "./components/calendar-status-bar";
  * Manages the state and data fetching for calendar events.
  * Events are sorted by start time and filtered by selected date.
  * Includes a status bar showing Google Calendar connection state.
+ * Events from every synced calendar are merged, with copies of the same
+ * event from several calendars shown once.
  */
 export default function GCalendarPage() {
   const { user, linkGoogleCalendar, loading } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const callCardEventId = searchParams.get('eventId'); // Set by "Open call card" reminders
   const [date, setDate] = React.useState<Date | undefined>(new Date());
   const [calendarEvents, setCalendarEvents] = React.useState<CalendarEvent[]>([]);
+  const [calendars, setCalendars] = React.useState<UserCalendar[]>([]);
+  const [isLoadingCalendars, setIsLoadingCalendars] = React.useState(true);
   const [isLoadingEvents, setIsLoadingEvents] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [isCreateEventOpen, setIsCreateEventOpen] = React.useState(false);
@@ -33,8 +49,58 @@ export default function GCalendarPage() {
   // Check permissions and fetch events when component mounts
   React.useEffect(() => {
     fetchCalendarEvents();
+    fetchCalendars();
   }, []);
 
+  // Jump to the day of the event whose call card was requested
+  React.useEffect(() => {
+    if (!callCardEventId) return;
+    const event = calendarEvents.find(e => e.id === callCardEventId);
+    if (event?.start_time) {
+      setDate(new Date(event.start_time));
+    }
+  }, [callCardEventId, calendarEvents]);
+
+  const handleCallCardOpened = React.useCallback(() => {
+    setSearchParams(params => {
+      params.delete('eventId');
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Function to fetch the user's calendar list
+  const fetchCalendars = async () => {
+    setIsLoadingCalendars(true);
+    try {
+      setCalendars(await fetchUserCalendars());
+    } catch (err) {
+      console.error("Error fetching calendars:", err);
+      setCalendars([]);
+    } finally {
+      setIsLoadingCalendars(false);
+    }
+  };
+
+  // Toggle syncing for a calendar; the list updates straight away and is
+  // rolled back if the change can't be saved
+  const handleToggleCalendar = async (calendarId: string, isSelected: boolean) => {
+    const setSelected = (selected: boolean) =>
+      setCalendars(prev => prev.map(calendar =>
+        calendar.calendar_id === calendarId ? { ...calendar, is_selected: selected } : calendar
+      ));
+
+    setSelected(isSelected);
+    try {
+      await updateCalendarSelection(calendarId, isSelected);
+      // A newly synced calendar has no events loaded yet
+      if (isSelected) fetchCalendarEvents();
+    } catch (err) {
+      console.error("Error updating calendar selection:", err);
+      setSelected(!isSelected);
+      toast.error("Failed to update calendar sync");
+    }
+  };
+
   // Function to fetch and sort calendar events
   const fetchCalendarEvents = async () => {
     setIsLoadingEvents(true);
@@ -55,6 +121,14 @@ export default function GCalendarPage() {
     }
   };
 
+  // Drop deleted events so the calendar markers stay in sync with the list;
+  // a series delete also drops its occurrences on other days
+  const handleEventsDeleted = (eventIds: string[], seriesId: string | null) => {
+    setCalendarEvents(prev => prev.filter(event =>
+      !eventIds.includes(event.id) && (seriesId === null || getRecurringEventId(event) !== seriesId)
+    ));
+  };
+
   // Sort events by start time
   const sortEventsByTime = (events: CalendarEvent[]): CalendarEvent[] => {
     return [...events].sort((a, b) => {
@@ -68,12 +142,26 @@ export default function GCalendarPage() {
     });
   };
 
+  // Events from synced calendars (all events until the calendar list loads),
+  // primary calendar first so its copy of a shared event is the one kept
+  const visibleEvents = React.useMemo(() => {
+    if (calendars.length === 0) return dedupeCalendarEvents(calendarEvents);
+
+    const selectedIds = new Set(calendars.filter(c => c.is_selected).map(c => c.calendar_id));
+    const primaryId = calendars.find(c => c.is_primary)?.calendar_id;
+    const synced = calendarEvents.filter(event => selectedIds.has(event.calendar_id));
+    return dedupeCalendarEvents([
+      ...synced.filter(event => event.calendar_id === primaryId),
+      ...synced.filter(event => event.calendar_id !== primaryId),
+    ]);
+  }, [calendarEvents, calendars]);
+
   // Filter and sort events for selected date
   const getEventsForSelectedDate = () => {
     if (!date) return [];
 
     // Filter events for the selected date
-    const filteredEvents = calendarEvents.filter(event => {
+    const filteredEvents = visibleEvents.filter(event => {
       if (!event.start_time) return false;
 
       const eventDate = new Date(event.start_time);
@@ -102,6 +190,12 @@ export default function GCalendarPage() {
             Calendar
           </h2>
           <div className="flex items-center gap-4">
+            {/* Calendar Picker */}
+            <CalendarPicker
+              calendars={calendars}
+              isLoading={isLoadingCalendars}
+              onToggleCalendar={handleToggleCalendar}
+            />
             {/* Create Event Button */}
             <Button onClick={() => setIsCreateEventOpen(true)} size="sm">
               <Plus className="h-4 w-4 mr-2" />
@@ -127,7 +221,8 @@ export default function GCalendarPage() {
               <CalendarWithEvents
                 date={date}
                 onSelect={setDate}
-                events={calendarEvents}
+                events={visibleEvents}
+                calendars={calendars}
               />
             </div>
           </Card>
@@ -139,9 +234,13 @@ export default function GCalendarPage() {
             <EventList
               date={date}
               events={getEventsForSelectedDate()}
+              calendars={calendars}
               isLoading={isLoadingEvents}
               error={error}
               onRefresh={fetchCalendarEvents}
+              onEventsDeleted={handleEventsDeleted}
+              callCardEventId={callCardEventId}
+              onCallCardOpened={handleCallCardOpened}
             />
           </Card>
         </div>
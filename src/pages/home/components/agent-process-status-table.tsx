@@ -4,8 +4,11 @@ import { Loader2, CheckCircle, XCircle, AlertCircle, MinusCircle } from "lucide-
 
 export type AgentProcessStatus = "not-started" | "in-progress" | "success" | "failed" | "skipped";
 
+// One row per call-pack stage, plus the finished call card
+export type AgentProcessType = "linkedin" | "company" | "use-cases" | "questions" | "call-call";
+
 export interface AgentProcessStatusItem {
-  type: "linkedin" | "company" | "call-call";
+  type: AgentProcessType;
   status: AgentProcessStatus;
   data: any | null;
   skipReason?: string;
@@ -13,7 +16,7 @@ export interface AgentProcessStatusItem {
 
 interface AgentProcessStatusRowProps {
   item: AgentProcessStatusItem;
-  onRetry: (type: "linkedin" | "company" | "call-call") => void;
+  onRetry: (type: AgentProcessType) => void;
 }
 
 const AgentProcessStatusRow: React.FC<AgentProcessStatusRowProps> = ({ item, onRetry }) => {
@@ -56,9 +59,13 @@ const AgentProcessStatusRow: React.FC<AgentProcessStatusRowProps> = ({ item, onR
   const getTitle = (type: string) => {
     switch (type) {
       case "linkedin":
-        return "LinkedIn Profile";
+        return "LinkedIn Profile Data";
       case "company":
-        return "Company Website";
+        return "Company Website Data";
+      case "use-cases":
+        return "Use Cases";
+      case "questions":
+        return "Discovery Questions";
       case "call-call":
         return "Call Card";
       default:
@@ -69,7 +76,7 @@ const AgentProcessStatusRow: React.FC<AgentProcessStatusRowProps> = ({ item, onR
   return (
     <div className="flex items-center justify-between py-2 border-b last:border-b-0">
       <div className="flex flex-col">
-        <span className="font-medium">{getTitle(item.type)} Data</span>
+        <span className="font-medium">{getTitle(item.type)}</span>
         {item.status === "skipped" && item.skipReason && (
           <span className="text-xs text-muted-foreground mt-1">{item.skipReason}</span>
         )}
@@ -96,7 +103,7 @@ const AgentProcessStatusRow: React.FC<AgentProcessStatusRowProps> = ({ item, onR
 
 interface AgentProcessStatusDisplayProps {
   statuses: AgentProcessStatusItem[];
-  onRetry: (type: "linkedin" | "company" | "call-call") => void;
+  onRetry: (type: AgentProcessType) => void;
   isVisible: boolean;
 }
 
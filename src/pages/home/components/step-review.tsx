@@ -1,5 +1,5 @@
 import { Separator } from "@/components/ui/separator";
-import { AgentProcessStatusDisplay, AgentProcessStatusItem } from "./agent-process-status-table";
+import { AgentProcessStatusDisplay, AgentProcessStatusItem, AgentProcessType } from "./agent-process-status-table";
 import {
   Collapsible,
   CollapsibleContent,
@@ -12,7 +12,7 @@ interface Step2ReviewProps {
   companyUrl: string;
   callCardContext: string;
   scrapeStatuses: AgentProcessStatusItem[];
-  onRetry: (type: "linkedin" | "company" | "call-call") => void;
+  onRetry: (type: AgentProcessType) => void;
   isSubmitting: boolean;
 }
 
@@ -62,7 +62,7 @@ const Step2Review: React.FC<Step2ReviewProps> = ({
     <AgentProcessStatusDisplay 
       statuses={scrapeStatuses}
       onRetry={onRetry}
-      isVisible={isSubmitting || scrapeStatuses.some(status => status.status === "success" || status.status === "failed")}
+      isVisible={isSubmitting || scrapeStatuses.some(status => status.status !== "not-started")}
     />
   </div>
 );
@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
-import { createCallPack } from '@/services/agentApiFunction';
-import { createTemplate } from '@/services/templatesFunction';
-import { MeetingTemplate } from '@/types/meetingTemplates';
-import { AgentProcessStatusItem } from './agent-process-status-table';
+import { useTemplateUpdates } from '@/hooks/useTemplateUpdates';
+import { Json } from '@/integrations/supabase/types';
+import { Template, createTemplate, getTemplateById } from '@/services/templatesFunction';
+import { CallPackRequest, CallPackStage } from '@/types/agent/call-pack.types';
+import { getCallPackProgress, getPendingCallPackStage, isCallPackGenerating, startCallPackGeneration } from '@/utils/callPackGeneration';
+import { AgentProcessStatus, AgentProcessStatusItem, AgentProcessType } from './agent-process-status-table';
 import { Profile } from '@/services/profile-api-function';
 
 interface FormData {
@@ -14,27 +15,75 @@ interface FormData {
   callCardContext: string;
 }
 
+// Status rows and the call-pack stage each one waits for
+const STAGE_ROWS: { type: AgentProcessType; stage: CallPackStage }[] = [
+  { type: "linkedin", stage: "profile_scraped" },
+  { type: "company", stage: "company_scraped" },
+  { type: "use-cases", stage: "use_cases_drafted" },
+  { type: "questions", stage: "questions_drafted" },
+];
+
+const NOT_STARTED: AgentProcessStatusItem[] = [
+  ...STAGE_ROWS.map(({ type }) => ({ type, status: "not-started" as const, data: null })),
+  { type: "call-call", status: "not-started", data: null }
+];
+
+// Derives the status rows from the template the agent is generating into
+const toStatusItems = (job: Template | null, isStarting: boolean, hasFailed: boolean): AgentProcessStatusItem[] => {
+  if (!job) {
+    return hasFailed
+      ? NOT_STARTED.map(item => item.type === "call-call" ? { ...item, status: "failed" } : item)
+      : NOT_STARTED;
+  }
+
+  const completed = getCallPackProgress(job)?.completedStages ?? [];
+  const pending = getPendingCallPackStage(job);
+  const isFailed = job.status === 'ERROR';
+  const isWorking = isStarting || isCallPackGenerating(job);
+  const isDone = !isFailed && !isWorking;
+
+  const stageStatus = (stage: CallPackStage): AgentProcessStatus => {
+    if (isDone || completed.includes(stage)) return "success";
+    if (stage !== pending) return "not-started";
+    return isFailed ? "failed" : "in-progress";
+  };
+
+  return [
+    ...STAGE_ROWS.map(({ type, stage }) => ({ type, status: stageStatus(stage), data: null })),
+    {
+      type: "call-call",
+      status: isFailed ? "failed" : isWorking ? (pending ? "not-started" : "in-progress") : "success",
+      data: isDone ? { template: job } : null
+    }
+  ];
+};
+
+/**
+ * Creates the call card template and runs call-pack generation as a
+ * background job, following its stages over realtime. The job keeps running
+ * if the wizard is left; the result lands in the template library.
+ */
 export const useDataCollection = () => {
-  const [scrapeStatuses, setScrapeStatuses] = useState<AgentProcessStatusItem[]>([
-    { type: "call-call", status: "not-started", data: null }
-  ]);
-  const [templateId, setTemplateId] = useState<string | null>(null);
+  // Template the call pack is generated into, kept current over realtime
+  const [job, setJob] = useState<Template | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  
+  // Set when the job couldn't be started, e.g. the profile is incomplete
+  const [hasFailed, setHasFailed] = useState(false);
+
   const { toast } = useToast();
   const { user } = useAuth();
-  const navigate = useNavigate();
 
-  const generateCallCard = async (formData: FormData, profile?: Profile | null) => {
-    setScrapeStatuses(prev => prev.map(item => 
-      item.type === "call-call" ? { ...item, status: "in-progress" } : item
-    ));
+  useTemplateUpdates(setJob, job?.template_id ?? null);
+
+  const generateCallCard = async (formData: FormData, profile?: Profile | null, failedJob?: Template | null) => {
+    setIsSubmitting(true);
+    setHasFailed(false);
 
     try {
       if (!profile) {
         throw new Error("User profile not available.");
       }
-      
+
       const companyData = profile.company_data as any;
       const clientCompanyUrl = profile.company_url || companyData?.website_url || companyData?.website || companyData?.url;
 
@@ -46,90 +95,74 @@ export const useDataCollection = () => {
 
       // The agent API will handle scraping and data processing.
       // We pass the URLs and context directly.
-      const meetingTemplate: MeetingTemplate = await createCallPack(
+      const request: CallPackRequest = {
         clientCompanyUrl,
-        formData.linkedinUrl,
-        formData.companyUrl,
-        formData.callCardContext
-      );
-      
-      const newTemplate = await createTemplate({
-        template_name: meetingTemplate.name,
-        description: meetingTemplate.description,
-        content: {
-          total_duration_minutes: meetingTemplate.totalDurationMinutes,
-          sections: meetingTemplate.sections
-        } as any,
-        team_id: null,
-        user_id: user!.id,
-        is_default_template: false
-      });
-      
-      setTemplateId(newTemplate.template_id);
-      
-      setScrapeStatuses(prev => prev.map(item => 
-        item.type === "call-call" ? { 
-          ...item, 
-          status: "success", 
-          data: { 
-            template: newTemplate,
-            meetingTemplate: meetingTemplate
-          } 
-        } : item
-      ));
-      
+        prospectLinkedinUrl: formData.linkedinUrl,
+        prospectCompanyUrl: formData.companyUrl,
+        callCardContext: formData.callCardContext
+      };
+
+      // Save the template before generating, so the job and any failure
+      // show up in the template library; a retry reuses the failed one
+      const pendingTemplate = failedJob
+        ? await getTemplateById(failedJob.template_id)
+        : await createTemplate({
+            template_name: 'Generating call pack...',
+            content: { callPackRequest: request } as unknown as Json,
+            user_id: user!.id,
+            is_default_template: false,
+            status: 'AGENT_ASSISTANCE_REQUESTED'
+          });
+      setJob(pendingTemplate);
+
+      const started = await startCallPackGeneration(pendingTemplate, request);
+      // Realtime may already have delivered the agent's first progress
+      setJob(prev => prev && prev.updated_at > started.updated_at ? prev : started);
+
       toast({
-        title: "Call Card Generated",
-        description: "Your Call Card has been generated and saved as a template.",
+        title: "Generating Call Card",
+        description: "You'll be notified when your Call Card is ready for review.",
         variant: "default"
       });
-
-      return newTemplate;
     } catch (error) {
       console.error('Call Card generation error:', error);
-      
-      setScrapeStatuses(prev => prev.map(item => 
-        item.type === "call-call" ? { ...item, status: "failed" } : item
-      ));
-      
+
+      setHasFailed(true);
+      setJob(prev => prev && { ...prev, status: 'ERROR' });
+
       toast({
         title: "Call Card Generation Error",
         description: error instanceof Error ? error.message : "Failed to generate Call Card",
         variant: "destructive"
       });
-      return null;
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const handleRetry = async (type: "linkedin" | "company" | "call-call", formData: FormData, profile?: Profile | null) => {
-    if (type === "call-call") {
-       await generateCallCard(formData, profile);
-    }
+  // Any failed row restarts the whole job
+  const handleRetry = async (_type: AgentProcessType, formData: FormData, profile?: Profile | null) => {
+    await generateCallCard(formData, profile, job?.status === 'ERROR' ? job : null);
   };
 
   const startDataCollection = async (formData: FormData, profile?: Profile | null) => {
-    setIsSubmitting(true);
-    
-    setScrapeStatuses([
-      { type: "call-call", status: "not-started", data: null }
-    ]);
-
+    setJob(null);
     await generateCallCard(formData, profile);
-    
-    setIsSubmitting(false);
   };
 
+  const scrapeStatuses = toStatusItems(job, isSubmitting, hasFailed);
+
   const isTemplateCreated = () => {
     const callCardStatus = scrapeStatuses.find(status => status.type === "call-call");
-    return callCardStatus?.status === "success" && !!templateId;
+    return callCardStatus?.status === "success";
   };
 
   return {
     scrapeStatuses,
-    templateId,
+    templateId: job?.template_id ?? null,
     isSubmitting,
     handleRetry,
     startDataCollection,
     isTemplateCreated
   };
-}; 
\ No newline at end of file
+};
@@ -17,6 +17,7 @@ import FormNavigation from "./components/form-navigation";
 // Custom hooks
 import { useFormValidation } from "./components/use-form-validation";
 import { useDataCollection } from "./components/use-data-collection";
+import { AgentProcessType } from "./components/agent-process-status-table";
 
 const steps = [
   { number: 1, title: "Prospect Info" },
@@ -112,7 +113,7 @@ const HomePage = () => {
     }
   };
 
-  const handleRetryWithFormData = (type: "linkedin" | "company" | "call-call") => {
+  const handleRetryWithFormData = (type: AgentProcessType) => {
     handleRetry(type, formData, profile);
   };
 
@@ -0,0 +1,275 @@
+import { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarClock, CalendarPlus, CheckCircle2, SkipForward, User } from "lucide-react";
+import { SyncCallNotesDialog } from "@/components/meeting/sync-call-notes-dialog";
+import { type Meeting } from "@/services/meetings-api-function";
+import { MeetingChecklistSnapshot, MeetingRecording, MeetingSummary } from "@/types/meeting-record";
+import { ChecklistItem } from "@/types/meetingTemplates";
+import { TranscriptEntry } from "@/types/transcript";
+import CallFrameworkProgressTab, { FrameworkProgress } from "@/pages/start-meeting/components/meeting/call-framework-progress-tab";
+import { formatDuration, formatTime } from "@/utils/formatUtils";
+import { recordingOffsetAt, timestampAtOffset } from "@/utils/recordingTimeline";
+import { RecordingPlayer } from "./recording-player";
+
+// When an outcome was recorded, the transcript turn it's linked to, and the note
+const ChecklistOutcomeDetails = ({ item, startedAt }: { item: ChecklistItem; startedAt: Date }) => {
+  const completion = item.completion;
+  if (!completion) return null;
+
+  const offsetSeconds = Math.max(0, Math.floor((completion.completedAt - startedAt.getTime()) / 1000));
+  return (
+    <>
+      <p className="text-xs text-muted-foreground">
+        {formatTime(offsetSeconds)}
+        {completion.turnId !== undefined && <> · turn {completion.turnId}</>}
+      </p>
+      {completion.note && <p className="text-xs text-foreground/80 italic">{completion.note}</p>}
+    </>
+  );
+};
+
+interface MeetingDetailProps {
+  meeting: Meeting | null;
+  isLoading: boolean;
+}
+
+/**
+ * MeetingDetail Component
+ *
+ * Read-only view of a saved meeting record: post-call summary and next
+ * steps, full transcript with speaker labels, final framework progress and
+ * checklist outcome. A recorded meeting plays back in sync with its
+ * transcript. Meetings linked to a calendar event can write their notes back
+ * to that event.
+ */
+export function MeetingDetail({ meeting, isLoading }: MeetingDetailProps) {
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Wall-clock time at the playhead, to highlight the transcript line being played
+  const [playbackTimestamp, setPlaybackTimestamp] = useState<number | null>(null);
+
+  useEffect(() => {
+    setPlaybackTimestamp(null);
+  }, [meeting?.id]);
+
+  if (isLoading) {
+    return (
+      <div className="p-4 space-y-3">
+        <Skeleton className="h-6 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!meeting) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground">
+        Select a meeting to view its transcript and outcome.
+      </div>
+    );
+  }
+
+  const startedAt = new Date(meeting.started_at);
+  const transcript = (meeting.transcript as unknown as TranscriptEntry[] | null) ?? [];
+  const frameworkProgress = meeting.framework_progress as unknown as FrameworkProgress | null;
+  const checklist = (meeting.checklist as unknown as MeetingChecklistSnapshot | null) ?? { completed: [], skipped: [] };
+  const summary = meeting.summary as unknown as MeetingSummary | null;
+  const recording = meeting.recording as unknown as MeetingRecording | null;
+
+  const seekTo = (entry: TranscriptEntry) => {
+    if (!recording || !audioRef.current) return;
+    audioRef.current.currentTime = recordingOffsetAt(recording, entry.timestamp) / 1000;
+    audioRef.current.play().catch(error => console.error('Error playing recording:', error));
+  };
+
+  const playingIndex = playbackTimestamp === null
+    ? -1
+    : transcript.reduce((current, entry, index) => (entry.timestamp <= playbackTimestamp ? index : current), -1);
+
+  return (
+    <div className="p-4 flex flex-col h-full">
+      <div className="mb-4 flex items-start justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="text-base font-semibold">{meeting.title || 'Untitled meeting'}</h3>
+            {!meeting.finalized_at && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">Draft</Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {startedAt.toLocaleString()}
+            {meeting.duration_seconds != null && <> · {formatDuration(meeting.duration_seconds)}</>}
+          </p>
+        </div>
+        {meeting.calendar_event_id && (
+          <Button variant="outline" size="sm" onClick={() => setIsSyncDialogOpen(true)}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Add notes to event
+          </Button>
+        )}
+      </div>
+
+      {meeting.calendar_event_id && (
+        <SyncCallNotesDialog
+          isOpen={isSyncDialogOpen}
+          onOpenChange={setIsSyncDialogOpen}
+          eventId={meeting.calendar_event_id}
+          summary={summary}
+          frameworkProgress={frameworkProgress}
+          startedAt={meeting.started_at}
+          durationSeconds={meeting.duration_seconds}
+        />
+      )}
+
+      <Tabs defaultValue="summary" className="flex-1 flex flex-col">
+        <TabsList className="w-fit">
+          <TabsTrigger value="summary">Summary</TabsTrigger>
+          <TabsTrigger value="transcript">Transcript</TabsTrigger>
+          <TabsTrigger value="framework">Framework</TabsTrigger>
+          <TabsTrigger value="checklist">Checklist</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="summary" className="flex-1">
+          <ScrollArea className="h-[calc(100vh-300px)] pr-3">
+            {!summary ? (
+              <p className="text-sm text-muted-foreground">No summary was saved for this meeting.</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm whitespace-pre-wrap">{summary.summary || 'No summary written.'}</p>
+                {summary.keyPoints.length > 0 && (
+                  <section>
+                    <h4 className="text-sm font-medium mb-2">Key points</h4>
+                    <ul className="list-disc pl-5 space-y-1 text-sm">
+                      {summary.keyPoints.map((point, index) => (
+                        <li key={index}>{point}</li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+                <section>
+                  <h4 className="text-sm font-medium mb-2">Next steps ({summary.nextSteps.length})</h4>
+                  <ul className="space-y-2">
+                    {summary.nextSteps.map((step) => (
+                      <li key={step.id} className="rounded-md border p-2 text-sm">
+                        <p>{step.action}</p>
+                        <div className="flex gap-3 mt-1 text-xs text-muted-foreground">
+                          {step.owner && (
+                            <span className="flex items-center gap-1"><User className="h-3 w-3" />{step.owner}</span>
+                          )}
+                          {step.dueDate && (
+                            <span className="flex items-center gap-1">
+                              <CalendarClock className="h-3 w-3" />
+                              {new Date(`${step.dueDate}T00:00:00`).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              </div>
+            )}
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="transcript" className="flex-1">
+          {recording && (
+            <RecordingPlayer
+              key={recording.filePath}
+              recording={recording}
+              audioRef={audioRef}
+              onTimeUpdate={seconds => setPlaybackTimestamp(timestampAtOffset(recording, seconds * 1000))}
+            />
+          )}
+          <ScrollArea className={recording ? "h-[calc(100vh-380px)] pr-3" : "h-[calc(100vh-300px)] pr-3"}>
+            {transcript.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transcript was captured for this meeting.</p>
+            ) : (
+              <div className="space-y-3">
+                {transcript.map((entry, index) => (
+                  <div
+                    key={`${entry.timestamp}-${index}`}
+                    className={`text-sm rounded-md ${index === playingIndex ? 'bg-muted -mx-1 px-1' : ''}`}
+                  >
+                    <div className="flex items-center gap-2 mb-0.5">
+                      <Badge variant={entry.channel === 'system' ? 'secondary' : 'default'} className="text-[10px] px-1.5 py-0">
+                        {entry.speaker || 'Speaker'}
+                      </Badge>
+                      {recording ? (
+                        <button
+                          type="button"
+                          className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                          title="Play from here"
+                          onClick={() => seekTo(entry)}
+                        >
+                          {formatTime(Math.max(0, Math.floor((entry.timestamp - startedAt.getTime()) / 1000)))}
+                        </button>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          {formatTime(Math.max(0, Math.floor((entry.timestamp - startedAt.getTime()) / 1000)))}
+                        </span>
+                      )}
+                    </div>
+                    <p>{entry.text}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="framework" className="flex-1">
+          {frameworkProgress ? (
+            <CallFrameworkProgressTab progress={frameworkProgress} />
+          ) : (
+            <p className="text-sm text-muted-foreground">No sales framework was used in this meeting.</p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="checklist" className="flex-1">
+          <ScrollArea className="h-[calc(100vh-300px)] pr-3">
+            <div className="space-y-4">
+              <section>
+                <h4 className="text-sm font-medium mb-2">Asked ({checklist.completed.length})</h4>
+                <ul className="space-y-1">
+                  {checklist.completed.map((item) => (
+                    <li key={item.id} className="flex items-start gap-2 text-sm">
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-500 shrink-0" />
+                      <div className="flex-1">
+                        {item.text}
+                        <ChecklistOutcomeDetails item={item} startedAt={startedAt} />
+                      </div>
+                      {item.completion?.source === "auto" && (
+                        <Badge variant="outline" className="text-xs" title="Detected from the transcript">
+                          Auto
+                        </Badge>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+              <section>
+                <h4 className="text-sm font-medium mb-2">Skipped ({checklist.skipped.length})</h4>
+                <ul className="space-y-1">
+                  {checklist.skipped.map((item) => (
+                    <li key={item.id} className="flex items-start gap-2 text-sm text-muted-foreground">
+                      <SkipForward className="h-4 w-4 mt-0.5 shrink-0" />
+                      <div className="flex-1">
+                        {item.text}
+                        <ChecklistOutcomeDetails item={item} startedAt={startedAt} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </div>
+          </ScrollArea>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
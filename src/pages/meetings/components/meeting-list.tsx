@@ -0,0 +1,112 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Clock, Trash2 } from "lucide-react";
+import { type Meeting } from "@/services/meetings-api-function";
+import { formatDuration } from "@/utils/formatUtils";
+
+interface MeetingListProps {
+  meetings: Meeting[];
+  selectedMeetingId?: string;
+  isLoading: boolean;
+  error: string | null;
+  onSelect: (meetingId: string) => void;
+  onDelete: (meetingId: string) => void;
+}
+
+/**
+ * MeetingList Component
+ *
+ * Lists saved meeting records with their start time and duration.
+ * Selecting an entry opens it in the detail panel.
+ */
+export function MeetingList({
+  meetings,
+  selectedMeetingId,
+  isLoading,
+  error,
+  onSelect,
+  onDelete
+}: MeetingListProps) {
+  if (isLoading) {
+    return (
+      <div className="p-4 space-y-3">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (meetings.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground">
+        No past meetings yet. Meetings are saved here when you end a call.
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[calc(100vh-180px)]">
+      <ul className="p-2 space-y-1">
+        {meetings.map((meeting) => {
+          const startedAt = new Date(meeting.started_at);
+          const isSelected = meeting.id === selectedMeetingId;
+
+          return (
+            <li key={meeting.id}>
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(meeting.id)}
+                onKeyDown={(e) => e.key === 'Enter' && onSelect(meeting.id)}
+                className={`group flex items-start justify-between gap-2 rounded-md p-3 cursor-pointer transition-colors ${
+                  isSelected ? 'bg-accent' : 'hover:bg-accent/50'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {meeting.title || 'Untitled meeting'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {startedAt.toLocaleDateString()} · {startedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                  {meeting.duration_seconds != null && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDuration(meeting.duration_seconds)}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                  title="Delete meeting"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(meeting.id);
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </ScrollArea>
+  );
+}
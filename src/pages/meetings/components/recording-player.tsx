@@ -0,0 +1,73 @@
+import { RefObject, useEffect, useState } from "react";
+import { Mic } from "lucide-react";
+import { MeetingRecording } from "@/types/meeting-record";
+import { formatDuration } from "@/utils/formatUtils";
+
+interface RecordingPlayerProps {
+  recording: MeetingRecording;
+  audioRef: RefObject<HTMLAudioElement>;
+  onTimeUpdate: (seconds: number) => void;
+}
+
+/**
+ * Plays a meeting's recording from the rep's machine. The file is read
+ * through the main process and played from a blob URL; seeking from the
+ * transcript goes through the shared audio ref.
+ */
+export function RecordingPlayer({ recording, audioRef, onTimeUpdate }: RecordingPlayerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setIsUnavailable(false);
+
+    const load = async () => {
+      const bytes = await window.electron?.readMeetingRecording?.(recording.filePath);
+      if (cancelled) return;
+      if (!bytes) {
+        setIsUnavailable(true);
+        return;
+      }
+      objectUrl = URL.createObjectURL(new Blob([bytes], { type: recording.mimeType }));
+      setUrl(objectUrl);
+    };
+
+    load().catch(error => {
+      console.error('Error loading meeting recording:', error);
+      if (!cancelled) setIsUnavailable(true);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [recording.filePath, recording.mimeType]);
+
+  return (
+    <div className="mb-3 rounded-md border p-2">
+      <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+        <Mic className="h-3 w-3" />
+        <span>Recording · {formatDuration(Math.round(recording.durationMs / 1000))}</span>
+        <span>· You on the left, the other side on the right</span>
+      </div>
+      {isUnavailable ? (
+        <p className="text-xs text-muted-foreground">
+          The recording is stored on the computer it was made on and isn't available here.
+        </p>
+      ) : url ? (
+        <audio
+          ref={audioRef}
+          src={url}
+          controls
+          className="w-full h-8"
+          onTimeUpdate={event => onTimeUpdate(event.currentTarget.currentTime)}
+        />
+      ) : (
+        <p className="text-xs text-muted-foreground">Loading recording...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import * as React from "react"
+import { useNavigate, useParams } from "react-router-dom";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+import { type Meeting, getMeetings, deleteMeeting } from "@/services/meetings-api-function";
+import { MeetingList } from "./components/meeting-list";
+import { MeetingDetail } from "./components/meeting-detail";
+
+/**
+ * MeetingsPage Component
+ *
+ * Past meetings page. Lists the meeting records saved when a call ends and
+ * shows the full transcript, framework progress and checklist outcome of the
+ * meeting selected via `/meetings/:meetingId`.
+ */
+export default function MeetingsPage() {
+  const navigate = useNavigate();
+  const { meetingId } = useParams<{ meetingId: string }>();
+  const [meetings, setMeetings] = React.useState<Meeting[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetchMeetings();
+  }, []);
+
+  // Fetch meeting records, most recent first
+  const fetchMeetings = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const records = await getMeetings();
+      const sorted = [...records].sort(
+        (a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime()
+      );
+      setMeetings(sorted);
+    } catch (err) {
+      console.error("Error fetching meetings:", err);
+      setError("Could not load past meetings. Please check your connection and try again.");
+      setMeetings([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteMeeting = async (id: string) => {
+    try {
+      await deleteMeeting(id);
+      setMeetings(prev => prev.filter(m => m.id !== id));
+      if (id === meetingId) {
+        navigate('/meetings');
+      }
+      toast.success('Meeting deleted');
+    } catch (err) {
+      console.error("Error deleting meeting:", err);
+      toast.error('Failed to delete meeting');
+    }
+  };
+
+  const selectedMeeting = meetingId ? meetings.find(m => m.id === meetingId) ?? null : null;
+
+  return (
+    <div className="container mx-auto">
+      {/* Page Header */}
+      <div className="bg-background border-b p-4 mb-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold">
+            Past Meetings
+          </h2>
+          <Button onClick={fetchMeetings} size="sm" variant="outline" disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 border-t border-border">
+        {/* Meetings List */}
+        <div className="lg:col-span-1">
+          <Card className="h-full">
+            <MeetingList
+              meetings={meetings}
+              selectedMeetingId={meetingId}
+              isLoading={isLoading}
+              error={error}
+              onSelect={(id) => navigate(`/meetings/${id}`)}
+              onDelete={handleDeleteMeeting}
+            />
+          </Card>
+        </div>
+
+        {/* Meeting Detail */}
+        <div className="lg:col-span-2">
+          <Card className="h-full">
+            <MeetingDetail meeting={selectedMeeting} isLoading={isLoading && !!meetingId} />
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
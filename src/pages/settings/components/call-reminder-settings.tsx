@@ -0,0 +1,71 @@
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  CALL_REMINDER_LEAD_OPTIONS,
+  getCallReminderSettings,
+  setCallReminderSettings
+} from "@/utils/callReminderSettings"
+
+export default function CallReminderSettings() {
+  const [settings, setSettings] = useState(getCallReminderSettings);
+  const isAvailable = Boolean(window.electron?.setCallReminderSettings);
+
+  const updateSettings = (changes: Partial<typeof settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setCallReminderSettings(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Call Reminders</CardTitle>
+        <CardDescription>
+          Get a notification before calendar events that have a call card linked, with shortcuts to open the call card or start the meeting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="call-reminders-switch" className="text-base">
+              Pre-call reminders
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {isAvailable
+                ? "Reminders are shown even when the window is hidden in the tray."
+                : "Only available in the desktop app."}
+            </p>
+          </div>
+          <Switch
+            id="call-reminders-switch"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => updateSettings({ enabled })}
+            disabled={!isAvailable}
+          />
+        </div>
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <Label className="text-base">Remind me</Label>
+          <Select
+            value={String(settings.leadMinutes)}
+            onValueChange={(value) => updateSettings({ leadMinutes: Number(value) })}
+            disabled={!isAvailable || !settings.enabled}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CALL_REMINDER_LEAD_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes} {minutes === 1 ? "minute" : "minutes"} before
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
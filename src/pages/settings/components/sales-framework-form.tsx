@@ -0,0 +1,140 @@
+import { useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { SalesFrameworkQuestion } from "@/utils/salesFrameworks"
+
+export interface SalesFrameworkDraft {
+  name: string;
+  description: string;
+  questions: SalesFrameworkQuestion[];
+}
+
+interface SalesFrameworkFormProps {
+  initialDraft: SalesFrameworkDraft;
+  isSaving: boolean;
+  onSave: (draft: SalesFrameworkDraft) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Editor for one sales framework: its name, description and the ordered
+ * categories (e.g. "Metrics") with the question that qualifies each one.
+ */
+export default function SalesFrameworkForm({ initialDraft, isSaving, onSave, onCancel }: SalesFrameworkFormProps) {
+  const [draft, setDraft] = useState<SalesFrameworkDraft>(initialDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateQuestion = (index: number, changes: Partial<SalesFrameworkQuestion>) => {
+    setDraft(prev => ({
+      ...prev,
+      questions: prev.questions.map((question, i) => (i === index ? { ...question, ...changes } : question)),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const questions = draft.questions
+      .map(question => ({ title: question.title.trim(), question: question.question.trim() }))
+      .filter(question => question.title || question.question);
+
+    if (!draft.name.trim()) {
+      setError('Give the framework a name');
+      return;
+    }
+    if (questions.length === 0) {
+      setError('Add at least one category');
+      return;
+    }
+    if (questions.some(question => !question.title || !question.question)) {
+      setError('Every category needs a title and a question');
+      return;
+    }
+
+    setError(null);
+    onSave({ name: draft.name.trim(), description: draft.description.trim(), questions });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+      <div className="space-y-1.5">
+        <Label htmlFor="framework-name">Name</Label>
+        <Input
+          id="framework-name"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g. SPICED"
+          disabled={isSaving}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="framework-description">Description</Label>
+        <Textarea
+          id="framework-description"
+          value={draft.description}
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="What this framework qualifies"
+          rows={2}
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Categories</Label>
+        {draft.questions.map((question, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <div className="w-7 h-9 flex items-center justify-center rounded bg-muted text-xs font-bold shrink-0">
+              {String.fromCharCode(65 + index)}
+            </div>
+            <Input
+              value={question.title}
+              onChange={(e) => updateQuestion(index, { title: e.target.value })}
+              placeholder="Category"
+              className="w-40 shrink-0"
+              disabled={isSaving}
+            />
+            <Input
+              value={question.question}
+              onChange={(e) => updateQuestion(index, { question: e.target.value })}
+              placeholder="Question the rep should get answered"
+              disabled={isSaving}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="shrink-0"
+              onClick={() => setDraft(prev => ({ ...prev, questions: prev.questions.filter((_, i) => i !== index) }))}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft(prev => ({ ...prev, questions: [...prev.questions, { title: '', question: '' }] }))}
+          disabled={isSaving}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add category
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save framework'}
+        </Button>
+      </div>
+    </form>
+  );
+}
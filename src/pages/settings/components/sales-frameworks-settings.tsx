@@ -0,0 +1,266 @@
+import { useState } from "react"
+import { toast } from "sonner"
+import { Copy, History, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Json } from "@/integrations/supabase/types"
+import { useSalesFrameworks } from "@/hooks/useSalesFrameworks"
+import {
+  SalesFramework,
+  SalesFrameworkVersion,
+  createSalesFramework,
+  deleteSalesFramework,
+  getSalesFrameworkVersions,
+  updateSalesFramework
+} from "@/services/sales-frameworks-api-function"
+import { getFrameworkQuestions } from "@/utils/salesFrameworks"
+import SalesFrameworkForm, { SalesFrameworkDraft } from "./sales-framework-form"
+
+const EMPTY_DRAFT: SalesFrameworkDraft = {
+  name: '',
+  description: '',
+  questions: [{ title: '', question: '' }],
+};
+
+const toDraft = (framework: SalesFramework | SalesFrameworkVersion, name = framework.name): SalesFrameworkDraft => ({
+  name,
+  description: framework.description ?? '',
+  questions: getFrameworkQuestions(framework),
+});
+
+const toColumns = (draft: SalesFrameworkDraft) => ({
+  name: draft.name,
+  description: draft.description || null,
+  questions: draft.questions as unknown as Json,
+});
+
+// Which framework the form is editing; `frameworkId` is null for a new one
+type EditingState = { frameworkId: string | null; draft: SalesFrameworkDraft };
+
+/**
+ * Sales framework library. Defaults (MEDDIC, BANT, ...) are shared and
+ * read-only but can be duplicated; the user's own frameworks are versioned,
+ * so call cards stay pinned to the version they were attached at until
+ * they're updated in the call card editor.
+ */
+export default function SalesFrameworksSettings() {
+  const { frameworks, isLoading, refetchFrameworks } = useSalesFrameworks();
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<SalesFramework | null>(null);
+  const [history, setHistory] = useState<{ frameworkId: string; versions: SalesFrameworkVersion[] } | null>(null);
+
+  const handleSave = async (draft: SalesFrameworkDraft) => {
+    if (!editing) return;
+
+    setIsSaving(true);
+    try {
+      if (editing.frameworkId) {
+        await updateSalesFramework(editing.frameworkId, toColumns(draft));
+      } else {
+        await createSalesFramework(toColumns(draft));
+      }
+      toast.success('Sales framework saved');
+      setEditing(null);
+      setHistory(null);
+      await refetchFrameworks();
+    } catch (error) {
+      console.error('Error saving sales framework:', error);
+      toast.error('Failed to save sales framework');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (framework: SalesFramework) => {
+    try {
+      await deleteSalesFramework(framework.id);
+      toast.success(`Deleted ${framework.name}`);
+      await refetchFrameworks();
+    } catch (error) {
+      console.error('Error deleting sales framework:', error);
+      toast.error('Failed to delete sales framework');
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const toggleHistory = async (framework: SalesFramework) => {
+    if (history?.frameworkId === framework.id) {
+      setHistory(null);
+      return;
+    }
+    try {
+      setHistory({ frameworkId: framework.id, versions: await getSalesFrameworkVersions(framework.id) });
+    } catch (error) {
+      console.error('Error loading framework versions:', error);
+      toast.error('Failed to load version history');
+    }
+  };
+
+  // Restoring saves the old content as a new version; earlier versions are kept
+  const restoreVersion = (framework: SalesFramework, version: SalesFrameworkVersion) => {
+    setEditing({ frameworkId: framework.id, draft: toDraft(version) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Sales Frameworks</CardTitle>
+            <CardDescription>
+              Qualification frameworks you can attach to call cards. Progress against the attached framework is tracked live during the call.
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => setEditing({ frameworkId: null, draft: EMPTY_DRAFT })}
+            disabled={Boolean(editing)}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New framework
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {editing && !editing.frameworkId && (
+          <SalesFrameworkForm
+            initialDraft={editing.draft}
+            isSaving={isSaving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : frameworks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sales frameworks yet.</p>
+        ) : (
+          frameworks.map(framework => editing?.frameworkId === framework.id ? (
+            <SalesFrameworkForm
+              key={framework.id}
+              initialDraft={editing.draft}
+              isSaving={isSaving}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div key={framework.id} className="rounded-lg border p-4">
+              <div className="flex items-start justify-between gap-2">
+                <div className="space-y-0.5 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{framework.name}</span>
+                    {framework.is_default_framework ? (
+                      <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Default</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">v{framework.version}</Badge>
+                    )}
+                  </div>
+                  {framework.description && (
+                    <p className="text-sm text-muted-foreground">{framework.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {getFrameworkQuestions(framework).map(question => question.title).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center shrink-0">
+                  {framework.is_default_framework ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ frameworkId: null, draft: toDraft(framework, `${framework.name} (copy)`) })}
+                      disabled={Boolean(editing)}
+                    >
+                      <Copy className="h-4 w-4 mr-1" />
+                      Duplicate
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" title="Version history" onClick={() => toggleHistory(framework)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit"
+                        onClick={() => setEditing({ frameworkId: framework.id, draft: toDraft(framework) })}
+                        disabled={Boolean(editing)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Delete" onClick={() => setPendingDelete(framework)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {history?.frameworkId === framework.id && (
+                <div className="mt-3 space-y-1 border-t pt-3">
+                  {history.versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span>
+                        v{version.version}
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {new Date(version.created_at).toLocaleString()} · {getFrameworkQuestions(version).length} categories
+                        </span>
+                      </span>
+                      {version.version === framework.version ? (
+                        <span className="text-xs text-muted-foreground">Current</span>
+                      ) : (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => restoreVersion(framework, version)}
+                          disabled={Boolean(editing)}
+                        >
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <AlertDialog open={Boolean(pendingDelete)} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Call cards that use it keep the version they were attached at, but can no longer be updated to a newer one.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && handleDelete(pendingDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
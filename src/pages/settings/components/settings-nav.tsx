@@ -1,9 +1,9 @@
 import { cn } from "@/lib/utils";
-import { User, Settings, Bell } from "lucide-react";
+import { User, Settings, Bell, ListChecks } from "lucide-react";
 
 interface SettingsNavProps {
-  activeSection: 'profile' | 'audio' | 'permissions';
-  onSectionChange: (section: 'profile' | 'audio' | 'permissions') => void;
+  activeSection: 'profile' | 'audio' | 'frameworks' | 'permissions';
+  onSectionChange: (section: 'profile' | 'audio' | 'frameworks' | 'permissions') => void;
 }
 
 /**
@@ -24,6 +24,11 @@ export function SettingsNav({ activeSection, onSectionChange }: SettingsNavProps
       label: 'Audio Settings',
       icon: Settings,
     },
+    {
+      id: 'frameworks' as const,
+      label: 'Sales Frameworks',
+      icon: ListChecks,
+    },
     {
       id: 'permissions' as const,
       label: 'Permissions',
@@ -47,32 +47,22 @@ const SystemAudioLoopbackTester: React.FC = () => {
   // Independent refs bag for each transcription flow
   const micRefs = useRef<TranscriptionServiceRefs>({
     audioStreamRef: { current: null },
-    webSocketRef: { current: null },
     audioContextRef: { current: null },
     processorNodeRef: { current: null },
     isConnectionActiveRef: { current: false },
-    reconnectTimerRef: { current: null },
-    connectionTimeoutRef: { current: null },
-    attemptCountRef: { current: 0 },
-    connectionMetricsRef: { current: { consecutiveFailures: 0, totalReconnects: 0 } as any },
-    lastHeartbeatRef: { current: Date.now() },
-    heartbeatIntervalRef: { current: null },
-    finalTranscriptPartsRef: { current: [] },
+    providerRef: { current: null },
+    providerUnsubscribeRef: { current: null },
+    hasFailedRef: { current: false },
   });
 
   const sysRefs = useRef<TranscriptionServiceRefs>({
     audioStreamRef: { current: null },
-    webSocketRef: { current: null },
     audioContextRef: { current: null },
     processorNodeRef: { current: null },
     isConnectionActiveRef: { current: false },
-    reconnectTimerRef: { current: null },
-    connectionTimeoutRef: { current: null },
-    attemptCountRef: { current: 0 },
-    connectionMetricsRef: { current: { consecutiveFailures: 0, totalReconnects: 0 } as any },
-    lastHeartbeatRef: { current: Date.now() },
-    heartbeatIntervalRef: { current: null },
-    finalTranscriptPartsRef: { current: [] },
+    providerRef: { current: null },
+    providerUnsubscribeRef: { current: null },
+    hasFailedRef: { current: false },
   });
 
   // Track last appended lines (exact) and rolling windows for fuzzy de-dup across streams
@@ -119,13 +109,6 @@ const SystemAudioLoopbackTester: React.FC = () => {
     return false;
   };
 
-  // Interpret “final” marker from server payloads
-  const isFinalMessage = (data: any): boolean => {
-    if (typeof data?.is_final === 'boolean') return data.is_final;
-    const t = (data?.type || data?.message_type || '').toString().toLowerCase();
-    return t.includes('final');
-  };
-
   // Cleanup both flows on unmount
   useEffect(() => {
     return () => {
@@ -147,11 +130,10 @@ const SystemAudioLoopbackTester: React.FC = () => {
         (await import('@/integrations/supabase/client')).supabase
           ? (await (await import('@/integrations/supabase/client')).supabase.auth.getSession()).data.session?.access_token || ''
           : '',
-        (data) => {
+        (result) => {
           try {
-            const t = data?.channel?.alternatives?.[0]?.transcript as string | undefined;
-            if (!t || !t.trim()) return;
-            if (!isFinalMessage(data)) return;
+            const t = result.transcript;
+            if (!t || !t.trim() || !result.isFinal) return;
             if (lastMicLineRef.current === t || lastSysLineRef.current === t) return;
             if (looksDuplicate(t, lastMicLinesRef.current) || looksDuplicate(t, lastSysLinesRef.current)) return;
             lastMicLineRef.current = t;
@@ -221,11 +203,10 @@ const SystemAudioLoopbackTester: React.FC = () => {
         (await import('@/integrations/supabase/client')).supabase
           ? (await (await import('@/integrations/supabase/client')).supabase.auth.getSession()).data.session?.access_token || ''
           : '',
-        (data) => {
+        (result) => {
           try {
-            const t = data?.channel?.alternatives?.[0]?.transcript as string | undefined;
-            if (!t || !t.trim()) return;
-            if (!isFinalMessage(data)) return;
+            const t = result.transcript;
+            if (!t || !t.trim() || !result.isFinal) return;
             if (lastSysLineRef.current === t || lastMicLineRef.current === t) return;
             if (looksDuplicate(t, lastSysLinesRef.current) || looksDuplicate(t, lastMicLinesRef.current)) return;
             lastSysLineRef.current = t;
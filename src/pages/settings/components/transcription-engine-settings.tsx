@@ -0,0 +1,46 @@
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { getPreferredTranscriptionEngine, setPreferredTranscriptionEngine } from "@/utils/transcriptionSettings"
+
+export default function TranscriptionEngineSettings() {
+  const [useLocalEngine, setUseLocalEngine] = useState(() => getPreferredTranscriptionEngine() === 'local');
+  const isLocalAvailable = Boolean(window.electron?.startLocalTranscription);
+
+  const handleToggle = (enabled: boolean) => {
+    setUseLocalEngine(enabled);
+    setPreferredTranscriptionEngine(enabled ? 'local' : 'cloud');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transcription Engine</CardTitle>
+        <CardDescription>
+          Default engine for new meetings. You can still switch engines when starting a meeting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="local-transcription-switch" className="text-base">
+              On-device transcription
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {isLocalAvailable
+                ? "Transcribe with a local Whisper model instead of Deepgram. Audio never leaves this computer; the model is downloaded on first use."
+                : "Only available in the desktop app."}
+            </p>
+          </div>
+          <Switch
+            id="local-transcription-switch"
+            checked={useLocalEngine}
+            onCheckedChange={handleToggle}
+            disabled={!isLocalAvailable}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,9 @@ import { Toaster } from "@/components/ui/toaster";
 import { getProfileById, updateProfile, type Profile } from "@/services/profile-api-function";
 import { useEffect } from 'react';
 import PermissionsSettings from './components/permissions-settings';
+import TranscriptionEngineSettings from './components/transcription-engine-settings';
+import CallReminderSettings from './components/call-reminder-settings';
+import SalesFrameworksSettings from './components/sales-frameworks-settings';
 
 // Type declarations for browser-specific window features
 declare global {
@@ -23,7 +26,7 @@ declare global {
  */
 export default function SettingsPage() {
   // Navigation state
-  const [activeSection, setActiveSection] = useState<'profile' | 'audio' | 'permissions'>('profile');
+  const [activeSection, setActiveSection] = useState<'profile' | 'audio' | 'frameworks' | 'permissions'>('profile');
   
   // Profile state
   const [user, setUser] = useState<Profile | null>(null);
@@ -108,13 +111,27 @@ export default function SettingsPage() {
             <div className="space-y-0.5">
               <h2 className="text-2xl font-bold tracking-tight">Audio Settings</h2>
               <p className="text-muted-foreground">
-                Test your microphone and system audio settings
+                Choose a transcription engine and test your microphone and system audio settings
               </p>
             </div>
+            <TranscriptionEngineSettings />
             <SystemAudioLoopbackTester />
           </div>
         );
 
+      case 'frameworks':
+        return (
+          <div className="space-y-6">
+            <div className="space-y-0.5">
+              <h2 className="text-2xl font-bold tracking-tight">Sales Frameworks</h2>
+              <p className="text-muted-foreground">
+                Build the qualification frameworks your call cards track, such as SPICED or your own
+              </p>
+            </div>
+            <SalesFrameworksSettings />
+          </div>
+        );
+
       case 'permissions':
         return (
           <div className="space-y-6">
@@ -125,6 +142,7 @@ export default function SettingsPage() {
               </p>
             </div>
             <PermissionsSettings />
+            <CallReminderSettings />
           </div>
         );
     }
@@ -1,7 +1,7 @@
 import { useEffect, useState, useRef } from 'react';
 import { toast } from 'sonner';
 import { Template } from '@/services/templatesFunction';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 
 /**
  * Auto-Start Meeting Handler
@@ -10,6 +10,7 @@ import { useParams } from 'react-router-dom';
  * 
  * Usage:
  * - Navigate to `/start-meeting/:templateId` to auto-start a meeting
+ * - `?resume=<meetingId>` resumes an interrupted meeting instead (see useMeetingJournal)
  * - The template must exist and be accessible to the current user
  * - Only works when no meeting is currently active
  * 
@@ -46,6 +47,8 @@ export const useAutoStartHandler = ({
   const [hasAttemptedAutoStart, setHasAttemptedAutoStart] = useState(false);
   const [isAutoStarting, setIsAutoStarting] = useState(false);
   const { templateId: templateIdFromPath } = useParams<{ templateId: string }>();
+  const [searchParams] = useSearchParams();
+  const isResuming = searchParams.has('resume');
   
   // Use refs to store the latest function references
   const selectTemplateRef = useRef(selectTemplate);
@@ -61,12 +64,12 @@ export const useAutoStartHandler = ({
 
   // Set auto-starting state when there's a template ID in the path
   useEffect(() => {
-    if (templateIdFromPath && !activeMeeting && !hasAttemptedAutoStart) {
+    if (templateIdFromPath && !activeMeeting && !hasAttemptedAutoStart && !isResuming) {
       setIsAutoStarting(true);
     } else {
       setIsAutoStarting(false);
     }
-  }, [templateIdFromPath, activeMeeting, hasAttemptedAutoStart]);
+  }, [templateIdFromPath, activeMeeting, hasAttemptedAutoStart, isResuming]);
 
   // Handle auto-start from URL parameter
   useEffect(() => {
@@ -76,8 +79,8 @@ export const useAutoStartHandler = ({
         return;
       }
 
-      // Early return if we're on the base start-meeting route
-      if (!templateIdFromPath) {
+      // Early return if we're on the base start-meeting route or resuming a meeting
+      if (!templateIdFromPath || isResuming) {
         setHasAttemptedAutoStart(true);
         setIsAutoStarting(false);
         return;
@@ -131,7 +134,7 @@ export const useAutoStartHandler = ({
     };
 
     handleAutoStart();
-  }, [templates, isLoading, hasAttemptedAutoStart, activeMeeting, templateIdFromPath]);
+  }, [templates, isLoading, hasAttemptedAutoStart, activeMeeting, templateIdFromPath, isResuming]);
 
   // Reset auto-start state when the templateId from the URL changes.
   // This allows the auto-start logic to re-trigger if the user navigates
@@ -1,42 +1,208 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { CalendarPlus, Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { SyncCallNotesDialog } from '@/components/meeting/sync-call-notes-dialog';
+import { MeetingNextStep, MeetingSummary } from '@/types/meeting-record';
+import { FrameworkProgress } from './call-framework-progress-tab';
 
 interface ActionTabContentProps {
-  callSummary: string;
-  nextStep: string;
-  onEndMeeting: () => void;
+  summary: MeetingSummary | null;
+  isCallEnded: boolean;
+  isGenerating: boolean;
+  isSaving: boolean;
+  onSummaryChange: (summary: MeetingSummary) => void;
+  onRegenerate: () => void;
+  onEndCall: () => void;
+  onConfirmMeeting: () => void;
+  calendarEventId?: string | null;
+  frameworkProgress?: FrameworkProgress | null;
+  startedAt?: number;
+  durationSeconds?: number;
 }
 
 /**
- * ActionTabContent component displays the call summary, next steps,
- * and confirmation button for the meeting
+ * ActionTabContent component displays the post-call summary and next steps.
+ * Both are generated when the rep ends the call and stay editable until
+ * "Confirm Meeting" finalizes the meeting record. Calls started from a
+ * calendar event can also write the notes back to that event.
  */
 const ActionTabContent: React.FC<ActionTabContentProps> = ({
-  callSummary,
-  nextStep,
-  onEndMeeting,
+  summary,
+  isCallEnded,
+  isGenerating,
+  isSaving,
+  onSummaryChange,
+  onRegenerate,
+  onEndCall,
+  onConfirmMeeting,
+  calendarEventId = null,
+  frameworkProgress = null,
+  startedAt,
+  durationSeconds,
 }) => {
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
+
+  if (!isCallEnded) {
+    return (
+      <div className="p-4 space-y-4">
+        <p className="text-muted-foreground text-[11px]">
+          The call summary and next steps are generated when you end the call.
+        </p>
+        <Button className="w-full py-1 text-xs font-medium" onClick={onEndCall}>
+          End Call & Summarize
+        </Button>
+      </div>
+    );
+  }
+
+  if (isGenerating || !summary) {
+    return (
+      <div className="p-4 flex items-center gap-2 text-[11px] text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Generating call summary...
+      </div>
+    );
+  }
+
+  const updateNextStep = (id: string, changes: Partial<MeetingNextStep>) => {
+    onSummaryChange({
+      ...summary,
+      nextSteps: summary.nextSteps.map(step => (step.id === id ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const addNextStep = () => {
+    onSummaryChange({
+      ...summary,
+      nextSteps: [...summary.nextSteps, { id: uuidv4(), action: '', owner: '', dueDate: null }],
+    });
+  };
+
+  const removeNextStep = (id: string) => {
+    onSummaryChange({ ...summary, nextSteps: summary.nextSteps.filter(step => step.id !== id) });
+  };
+
   return (
     <div className="p-4 space-y-4">
-      {/* Compact Call Summary Section */}
-      <div className="space-y-0.5">
+      {!summary.generatedAt && (
+        <div className="flex items-center justify-between gap-2 text-[11px] text-muted-foreground">
+          <span>The summary could not be generated. Write it below or try again.</span>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px]" onClick={onRegenerate}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {/* Call Summary Section */}
+      <div className="space-y-1">
         <h2 className="text-sm font-medium">Call Summary:</h2>
-        <p className="text-muted-foreground text-[11px]">{callSummary}</p>
+        <Textarea
+          value={summary.summary}
+          onChange={(e) => onSummaryChange({ ...summary, summary: e.target.value })}
+          placeholder="What was discussed and agreed"
+          className="min-h-[80px] text-[11px]"
+        />
       </div>
 
-      {/* Compact Next Step Section */}
-      <div className="space-y-0.5">
-        <h2 className="text-blue-500 text-sm font-medium">Next Step:</h2>
-        <p className="text-muted-foreground text-[11px]">{nextStep}</p>
+      {/* Key Points Section, one per line */}
+      <div className="space-y-1">
+        <h2 className="text-sm font-medium">Key Points:</h2>
+        <Textarea
+          value={summary.keyPoints.join('\n')}
+          onChange={(e) => onSummaryChange({ ...summary, keyPoints: e.target.value.split('\n') })}
+          placeholder="One point per line"
+          className="min-h-[60px] text-[11px]"
+        />
       </div>
 
-      {/* Compact Confirm Meeting Button */}
+      {/* Next Steps Section */}
+      <div className="space-y-1">
+        <h2 className="text-blue-500 text-sm font-medium">Next Steps:</h2>
+        {summary.nextSteps.length === 0 && (
+          <p className="text-muted-foreground text-[11px]">No next steps yet.</p>
+        )}
+        {summary.nextSteps.map(step => (
+          <div key={step.id} className="rounded-md border p-2 space-y-1">
+            <div className="flex items-center gap-1">
+              <Input
+                value={step.action}
+                onChange={(e) => updateNextStep(step.id, { action: e.target.value })}
+                placeholder="Action"
+                className="h-7 text-[11px]"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() => removeNextStep(step.id)}
+                aria-label="Remove next step"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-1">
+              <Input
+                value={step.owner}
+                onChange={(e) => updateNextStep(step.id, { owner: e.target.value })}
+                placeholder="Owner"
+                className="h-7 text-[11px]"
+              />
+              <Input
+                type="date"
+                value={step.dueDate ?? ''}
+                onChange={(e) => updateNextStep(step.id, { dueDate: e.target.value || null })}
+                className="h-7 text-[11px] w-[130px] shrink-0"
+              />
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="h-7 w-full text-[11px]" onClick={addNextStep}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add next step
+        </Button>
+      </div>
+
+      {/* Confirm Meeting Button */}
       <Button
         className="w-full py-1 text-xs font-medium"
-        onClick={onEndMeeting}
+        onClick={onConfirmMeeting}
+        disabled={isSaving}
       >
-        Confirm Meeting
+        {isSaving ? (
+          <>
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Confirm Meeting'
+        )}
       </Button>
+
+      {calendarEventId && startedAt && (
+        <>
+          <Button
+            variant="outline"
+            className="w-full py-1 text-xs font-medium"
+            onClick={() => setIsSyncDialogOpen(true)}
+          >
+            <CalendarPlus className="h-3 w-3 mr-1" />
+            Add Notes to Calendar Event
+          </Button>
+          <SyncCallNotesDialog
+            isOpen={isSyncDialogOpen}
+            onOpenChange={setIsSyncDialogOpen}
+            eventId={calendarEventId}
+            summary={summary}
+            frameworkProgress={frameworkProgress}
+            startedAt={new Date(startedAt).toISOString()}
+            durationSeconds={durationSeconds}
+          />
+        </>
+      )}
     </div>
   );
 };
@@ -2,7 +2,7 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
-import { CheckCircle2, Circle, Clock, Loader2, AlertCircle, Play } from 'lucide-react';
+import { CheckCircle2, Circle, Clock, Loader2, AlertCircle, Play, Lightbulb } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
@@ -19,6 +19,7 @@ export interface FrameworkQuestion {
   status: 'completed' | 'in-progress' | 'pending' | 'answered_by_buyer' | 'answered_via_confirmation' | 'partial_or_unclear' | 'unanswered';
   confidence?: number;
   evidence?: string;
+  turnIds?: number[]; // Transcript turns the evidence was drawn from
 }
 
 /**
@@ -42,6 +43,7 @@ export interface FrameworkProgress {
   completedQuestions: number;
   totalQuestions: number;
   questions: FrameworkQuestion[];
+  nextBestQuestions?: string[]; // Suggestions from the latest lead-scoring pass
 }
 
 interface CallFrameworkProgressTabProps {
@@ -332,10 +334,29 @@ const CallFrameworkProgressTab: React.FC<CallFrameworkProgressTabProps> = ({
               </div>
             </div>
             <div className="text-xs text-muted-foreground mb-2 italic">
-              Auto-analysis runs every 5 minutes during active calls
+              Auto-analysis runs as the conversation progresses
             </div>
         </div>
 
+        {/* Suggested next questions from the latest analysis */}
+        {displayProgress.nextBestQuestions && displayProgress.nextBestQuestions.length > 0 && (
+          <Card className="border-primary/20 bg-primary/5">
+            <CardContent className="p-2.5">
+              <div className="flex items-center gap-1.5 mb-1.5">
+                <Lightbulb className="h-3.5 w-3.5 text-primary" />
+                <h2 className="text-xs font-semibold">Ask next</h2>
+              </div>
+              <ul className="space-y-1">
+                {displayProgress.nextBestQuestions.map((question, index) => (
+                  <li key={index} className="text-xs leading-relaxed">
+                    {question}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Framework Questions List */}
         <div className="space-y-1.5">
           {sortedQuestions.map((item) => (
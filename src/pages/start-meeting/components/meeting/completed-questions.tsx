@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { CheckCircle2, SkipForward, Sparkles, Undo2 } from 'lucide-react';
+import { ChecklistItem } from '@/types/meetingTemplates';
+
+interface CompletedQuestionsProps {
+  items: ChecklistItem[];
+  onUndo: (id: string) => void;
+  onNoteChange?: (id: string, note: string) => void;
+}
+
+const CompletedQuestionCard: React.FC<{
+  item: ChecklistItem;
+  onUndo: (id: string) => void;
+  onNoteChange?: (id: string, note: string) => void;
+}> = ({ item, onUndo, onNoteChange }) => {
+  const savedNote = item.completion?.note ?? '';
+  const [note, setNote] = useState(savedNote);
+
+  useEffect(() => {
+    setNote(savedNote);
+  }, [savedNote]);
+
+  const saveNote = () => {
+    if (note.trim() !== savedNote) onNoteChange?.(item.id, note);
+  };
+
+  const isSkipped = item.completion?.outcome === 'skipped';
+  const Icon = isSkipped ? SkipForward : item.completion?.source === 'auto' ? Sparkles : CheckCircle2;
+
+  return (
+    <Card className="p-3 flex items-start gap-2">
+      <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${isSkipped ? 'text-muted-foreground' : 'text-blue-500'}`} />
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className={`text-sm ${isSkipped ? 'text-muted-foreground' : ''}`}>{item.text}</p>
+        {item.completion?.answeredTurnId !== undefined && (
+          <p className="text-xs text-muted-foreground">
+            Asked in turn {item.completion.askedTurnId}, answered in turn {item.completion.answeredTurnId}
+          </p>
+        )}
+        {onNoteChange && (
+          <Input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            onBlur={saveNote}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') event.currentTarget.blur();
+            }}
+            placeholder={isSkipped ? 'Why it was skipped (optional)' : "Prospect's answer (optional)"}
+            className="h-7 text-xs"
+          />
+        )}
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs"
+        onClick={() => onUndo(item.id)}
+      >
+        <Undo2 className="h-3.5 w-3.5 mr-1" />
+        Undo
+      </Button>
+    </Card>
+  );
+};
+
+// Checklist questions asked or skipped so far, newest first; each one keeps an
+// editable note and can be undone
+const CompletedQuestions: React.FC<CompletedQuestionsProps> = ({ items, onUndo, onNoteChange }) => {
+  const completed = items
+    .filter(item => item.completion)
+    .sort((a, b) => (b.completion?.completedAt ?? 0) - (a.completion?.completedAt ?? 0));
+
+  if (completed.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-foreground">Completed Questions</h3>
+        <span className="text-xs text-muted-foreground">{completed.length}</span>
+      </div>
+
+      <div className="space-y-2">
+        {completed.map(item => (
+          <CompletedQuestionCard key={item.id} item={item} onUndo={onUndo} onNoteChange={onNoteChange} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CompletedQuestions;
@@ -4,6 +4,9 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { Loader2, Tag, Pause, Play } from 'lucide-react';
 import { ClassifyTextResponse } from '@/types/text-classifier';
+import { TranscriptEntry, TranscriptSpeaker } from '@/types/transcript';
+import { CalendarAttendee } from '@/services/google-calendar-api-function';
+import SpeakerRenamePopover from './speaker-rename-popover';
 
 // Access environment variables - NODE_ENV is not automatically available in Vite
 // Use MODE, DEV, or PROD instead
@@ -11,15 +14,11 @@ const mode = import.meta.env.MODE; // 'development' or 'production'
 const isDev = import.meta.env.DEV; // boolean
 const isProd = import.meta.env.PROD; // boolean
 
-interface TranscriptEntry {
-  timestamp: number;
-  text: string;
-  isFinal: boolean;
-  speaker?: string;
-}
-
 interface LiveTabProps {
   transcriptEntries: TranscriptEntry[];
+  speakers?: Record<string, TranscriptSpeaker>;
+  attendees?: CalendarAttendee[];
+  onRenameSpeaker?: (speakerId: string, name: string, attendeeEmail?: string) => void;
   meetingStartTime: number | null | undefined;
   isTranscribing?: boolean;
   isUserTranscribing?: boolean;
@@ -35,6 +34,9 @@ interface LiveTabProps {
 
 const LiveTab: React.FC<LiveTabProps> = ({
   transcriptEntries,
+  speakers = {},
+  attendees = [],
+  onRenameSpeaker,
   isUserTranscribing = false,
   isSpeakerTranscribing = false,
   currentClassification = null,
@@ -60,13 +62,12 @@ const LiveTab: React.FC<LiveTabProps> = ({
         return;
       }
 
-      const speaker = entry.speaker || 'User';
       const lastEntry = result.length > 0 ? result[result.length - 1] : null;
 
-      if (lastEntry && lastEntry.speaker === speaker && lastEntry.isFinal) {
+      if (lastEntry && lastEntry.speakerId === entry.speakerId && lastEntry.isFinal) {
         lastEntry.text += ` ${entry.text}`;
       } else {
-        result.push({ ...entry, speaker });
+        result.push({ ...entry });
       }
     });
     return result;
@@ -256,13 +257,19 @@ const LiveTab: React.FC<LiveTabProps> = ({
             >
               <div className="pt-0.5">
                 <div className="flex items-center gap-2">
-                  <Badge variant={entry.speaker === 'Speaker' ? 'secondary' : 'default'}>
-                    {entry.speaker === 'Speaker' ? 'Speaker' : 'User'}
-                  </Badge>
-                  {entry.speaker === 'User' && isUserTranscribing && !entry.isFinal && (
+                  <SpeakerRenamePopover
+                    speaker={speakers[entry.speakerId] ?? {
+                      id: entry.speakerId,
+                      channel: entry.channel,
+                      name: entry.speaker ?? 'Unknown'
+                    }}
+                    attendees={attendees}
+                    onRename={onRenameSpeaker}
+                  />
+                  {entry.channel === 'mic' && isUserTranscribing && !entry.isFinal && (
                     <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
                   )}
-                  {entry.speaker === 'Speaker' && isSpeakerTranscribing && !entry.isFinal && (
+                  {entry.channel === 'system' && isSpeakerTranscribing && !entry.isFinal && (
                     <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />)
                   }
                 </div>
@@ -279,7 +286,7 @@ const LiveTab: React.FC<LiveTabProps> = ({
               <div className="pt-0.5">
                 <div className="flex items-center gap-2">
                   {isUserTranscribing && (
-                    <Badge variant="default">User</Badge>
+                    <Badge variant="default">You</Badge>
                   )}
                   {isSpeakerTranscribing && (
                     <Badge variant="secondary">Speaker</Badge>
@@ -3,9 +3,9 @@ import { MeetingSection, ChecklistItem } from '@/types/meetingTemplates';
 import { Template } from '@/services/templatesFunction';
 import { UseCase, PainPoint } from '@/types/agent/call-card-create.types';
 import { ClassifyTextResponse } from '@/types/text-classifier';
-import { leadScoring } from '@/services/agentApiFunction';
-import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
+import { TranscriptEntry, TranscriptSpeaker } from '@/types/transcript';
+import { CalendarAttendee } from '@/services/google-calendar-api-function';
+import { MeetingSummary } from '@/types/meeting-record';
 import { Tabs, TabsContent } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
@@ -17,6 +17,10 @@ import InsightsTabContent from './insights-tab-content';
 import CallFrameworkProgressTab, { CallFramework, FrameworkProgress } from './call-framework-progress-tab';
 import MeetingTabs from './meeting-tabs';
 import TopicDetectionDisplay, { DetectedTopic } from './topic-detection-display';
+import CompletedQuestions from './completed-questions';
+import TopicNavigator from './topic-navigator';
+import { useChecklistStore } from '@/store/checklistStore';
+import { formatTopicLabel } from '@/utils/topicLabels';
 import { TopicQueueDisplay } from '@/components/meeting/topic-queue-display';
 import { useTopicQueue } from '@/hooks/useTopicQueue';
 
@@ -33,11 +37,25 @@ interface MeetingContentProps {
   completedItems: ChecklistItem[];
   isCompletedOpen: boolean;
   onEndMeeting: () => void;
+  isCallEnded?: boolean;
+  summary?: MeetingSummary | null;
+  isGeneratingSummary?: boolean;
+  isSavingMeeting?: boolean;
+  onSummaryChange?: (summary: MeetingSummary) => void;
+  onRegenerateSummary?: () => void;
+  onConfirmMeeting?: () => void;
+  calendarEventId?: string | null;
   onPreviousSection: () => void;
   onNextSection: () => void;
   completedQuestions: Array<{ id: string; text: string; status: 'asked' | 'skipped' }>;
-  transcriptEntries: Array<{ timestamp: number; text: string; isFinal: boolean; speaker?: string }>;
-  activeMeeting: { startTime: number; isRunning: boolean } | null;
+  onUndoQuestion?: (id: string) => void;
+  onCompleteQuestion?: (question: ChecklistItem, status: 'asked' | 'skipped', details?: { note?: string }) => void;
+  onQuestionNoteChange?: (id: string, note: string) => void;
+  transcriptEntries: TranscriptEntry[];
+  speakers?: Record<string, TranscriptSpeaker>;
+  attendees?: CalendarAttendee[];
+  onRenameSpeaker?: (speakerId: string, name: string, attendeeEmail?: string) => void;
+  activeMeeting: { id: string; startTime: number; isRunning: boolean } | null;
   reconnectAttempt?: number;
   maxReconnectAttempts?: number;
   isTranscribing?: boolean;
@@ -46,10 +64,14 @@ interface MeetingContentProps {
   currentClassification?: ClassifyTextResponse | null;
   isClassifying?: boolean;
   frameworkProgress?: FrameworkProgress | null;
+  isScoring?: boolean;
+  onManualScore?: () => Promise<void>;
   onFrameworkQuestionUpdate?: (questionId: string, status: 'completed' | 'in-progress' | 'pending') => void;
   connectionStatus?: 'pending' | 'active' | 'failed' | 'reconnecting';
   onPauseResume?: () => void;
   isPaused?: boolean;
+  isRecording?: boolean;
+  onToggleRecording?: () => void;
 }
 
 // Define topic type at the top level
@@ -110,10 +132,24 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
   completedItems,
   isCompletedOpen,
   onEndMeeting,
+  isCallEnded = false,
+  summary = null,
+  isGeneratingSummary = false,
+  isSavingMeeting = false,
+  onSummaryChange,
+  onRegenerateSummary,
+  onConfirmMeeting,
+  calendarEventId = null,
   onPreviousSection,
   onNextSection,
   completedQuestions,
+  onUndoQuestion,
+  onCompleteQuestion,
+  onQuestionNoteChange,
   transcriptEntries,
+  speakers = {},
+  attendees = [],
+  onRenameSpeaker,
   activeMeeting,
   reconnectAttempt = 0,
   maxReconnectAttempts = 5,
@@ -123,10 +159,14 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
   currentClassification = null,
   isClassifying = false,
   frameworkProgress = null,
+  isScoring = false,
+  onManualScore,
   onFrameworkQuestionUpdate,
   connectionStatus = 'pending',
   onPauseResume,
   isPaused = false,
+  isRecording = false,
+  onToggleRecording,
 }) => {
   // Get content based on template type
   const content = activeTemplate?.content as any;
@@ -163,7 +203,7 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
       if (content.useCases && Array.isArray(content.useCases)) {
         content.useCases.forEach((useCase: UseCase) => {
           labels.push({
-            label: `Use case: ${useCase.title}`,
+            label: formatTopicLabel('useCase', useCase.title),
             description: useCase.description || `This topic is about ${useCase.title}.`
           });
         });
@@ -173,7 +213,7 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
       if (content.painPoints && Array.isArray(content.painPoints)) {
         content.painPoints.forEach((painPoint: PainPoint) => {
           labels.push({
-            label: `Pain point: ${painPoint.title}`,
+            label: formatTopicLabel('painPoint', painPoint.title),
             description: painPoint.description || `This topic is about ${painPoint.title}.`
           });
         });
@@ -184,19 +224,49 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
     }
   }, [activeTemplate]);
   
-  // Send topic labels to electron process whenever they change
+  // Create this meeting's classifier session whenever the topic labels change
+  const meetingId = activeMeeting?.id;
   useEffect(() => {
-    // Make the topic labels available to the parent component for classification
-    if (window.electron && 'setTopicLabels' in window.electron && topicLabels.length > 0) {
-      (window.electron as any).setTopicLabels(topicLabels);
+    if (window.electron?.setTopicLabels && meetingId && topicLabels.length > 0) {
+      window.electron.setTopicLabels(meetingId, topicLabels, { multiLabel: true });
     } else {
       console.error('❌ Cannot send topic labels - electron not available or no labels');
     }
-  }, [topicLabels]);
+  }, [topicLabels, meetingId]);
+
+  // Live checklist for agent call cards: one section per use case/pain point,
+  // following the section of the classifier's strongest live topic
+  const sectionDefinitions = useChecklistStore(state => state.sectionDefinitions);
+  const checklistSections = useChecklistStore(state => state.sections);
+  const checklistSectionId = useChecklistStore(state => state.currentSectionId);
+  const setChecklistSectionId = useChecklistStore(state => state.setCurrentSectionId);
+  const jumpToTopic = useChecklistStore(state => state.jumpToTopic);
+  const moveChecklistItem = useChecklistStore(state => state.moveItem);
+  const [topicQuestionIndex, setTopicQuestionIndex] = useState(0);
+
+  const topicSections = sectionDefinitions.filter(definition => definition.kind !== 'section');
+  const topicSection = topicSections.find(definition => definition.id === checklistSectionId) ?? topicSections[0];
+  const topicQuestions = topicSection ? checklistSections[topicSection.id]?.checklist ?? [] : [];
+  const liveTopicLabel = currentClassification?.activeTopics[0]?.label;
+
+  useEffect(() => {
+    if (isAgent && liveTopicLabel) {
+      jumpToTopic(liveTopicLabel);
+    }
+  }, [isAgent, liveTopicLabel, jumpToTopic]);
+
+  // Start each section at its first open question
+  useEffect(() => {
+    setTopicQuestionIndex(0);
+  }, [checklistSectionId]);
 
   // State for active tab
   const [activeTab, setActiveTab] = useState('call');
-  const [isScoring, setIsScoring] = useState(false);
+
+  // Bring the rep to the summary once the call has ended
+  useEffect(() => {
+    if (isCallEnded) setActiveTab('actions');
+  }, [isCallEnded]);
 
   // Track final transcript entries for classification
   useEffect(() => {
@@ -209,243 +279,11 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
     }
   }, [transcriptEntries, finalTranscriptEntries]);
 
-  // Function to get transcript text from entries
-  const getTranscriptText = useCallback(() => {
-    return transcriptEntries
-      .filter(entry => entry.isFinal)
-      .map(entry => entry.text)
-      .join(' ');
-  }, [transcriptEntries]);
-
-  // Function to manually trigger scoring
-  // Helper function to update framework progress with lead scoring results
-  const updateFrameworkWithScoringResults = useCallback((
-    framework: CallFramework,
-    scoringResults: any,
-    onUpdate?: (questionId: string, status: 'completed' | 'in-progress' | 'pending') => void
-  ) => {
-    if (!scoringResults?.questions || !onUpdate) return;
-    
-    // Check if questions is an array of objects with status property
-    const hasStatusProperty = scoringResults.questions.length > 0 && 
-                            typeof scoringResults.questions[0] === 'object' && 
-                            'status' in scoringResults.questions[0];
-    
-    if (hasStatusProperty) {
-      // Create a map of questions to their responses
-      const questionResponseMap = new Map();
-      scoringResults.questions.forEach((q: any) => {
-        questionResponseMap.set(q.question, q);
-      });
-      
-      // Update each question in the framework
-      framework.framework_content.forEach((item, index) => {
-        const questionId = `framework-${index}`;
-        const response = questionResponseMap.get(item.question);
-        
-        if (response) {
-          // Map API status values to UI status values
-          let uiStatus: 'completed' | 'in-progress' | 'pending';
-          
-          // Convert API statuses to UI statuses
-          switch (response.status) {
-            case 'answered_by_buyer':
-            case 'answered_via_confirmation':
-              uiStatus = 'completed';
-              break;
-            case 'partial_or_unclear':
-              uiStatus = 'in-progress';
-              break;
-            case 'unanswered':
-            default:
-              uiStatus = 'pending';
-          }
-          
-          // Update with the mapped status
-          onUpdate(questionId, uiStatus);
-        }
-      });
-      
-      return true;
-    }
-    
-    return false;
-  }, []);
-
-  const handleManualScoring = useCallback(async () => {
-    // Check authentication
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) {
-      toast.error('Please sign in to use this feature');
-      return;
-    }
-    
-    const framework = activeTemplate?.sales_framework as unknown as CallFramework | undefined;
-    
-    if (!framework || !transcriptEntries.length) {
-      toast.error('No framework or transcript available');
-      return;
-    }
-
-    try {
-      setIsScoring(true);
-      const transcript = getTranscriptText();
-      
-      // Extract questions from framework content
-      const questions = framework.framework_content.map(item => item.question);
-      
-      // Format transcript into turns format required by lead-scoring API
-      const transcriptTurns = {
-        turns: transcriptEntries
-          .filter(entry => entry.isFinal)
-          .map((entry, index) => ({
-            speaker: entry.speaker || 'Unknown',
-            text: entry.text
-          }))
-      };
-      
-      const result = await leadScoring(
-        framework.framework_name,
-        questions,
-        transcriptTurns
-      );
-
-      // Use the helper function to update the framework progress
-      const updated = updateFrameworkWithScoringResults(framework, result, onFrameworkQuestionUpdate);
-      
-      if (updated) {
-        // Count how many questions were answered or partially answered
-        const answeredCount = result.questions.filter((q: any) => 
-          q.status === 'answered_by_buyer' || q.status === 'answered_via_confirmation'
-        ).length;
-        
-        const partialCount = result.questions.filter((q: any) => 
-          q.status === 'partial_or_unclear'
-        ).length;
-        
-        if (answeredCount > 0 || partialCount > 0) {
-          toast.success(`Framework analysis completed: ${answeredCount} answered, ${partialCount} partially answered`);
-        } else {
-          toast.info('No new questions were identified as answered');
-        }
-      } else if (result?.questions) {
-        // Handle the case where questions is an array of strings
-        
-        // Create a framework progress object from the result
-        const frameworkProgress = {
-          name: result.framework || 'MEDDIC',
-          questions: result.questions.map((q: string, index: number) => ({
-            id: `framework-${index}`,
-            question: q,
-            status: 'unanswered' as const,
-            letter: String.fromCharCode(65 + index),
-            color: `bg-blue-${(index % 5) * 100 + 500}`,
-            category: result.framework || 'MEDDIC',
-            confidence: 0,
-            evidence: ''
-          }))
-        };
-        
-        // Update the framework with the new questions
-        if (frameworkProgress.questions.length > 0) {
-          // Only update if we have the update callback
-          if (onFrameworkQuestionUpdate) {
-            // Replace the current framework questions with the new ones
-            frameworkProgress.questions.forEach((q, index) => {
-              if (index < framework.framework_content.length) {
-                const questionId = `framework-${index}`;
-                onFrameworkQuestionUpdate(questionId, 'pending');
-              }
-            });
-          }
-          
-          toast.success(`Framework loaded with ${frameworkProgress.questions.length} questions`);
-        } else {
-          toast.info('No questions available in the framework');
-        }
-      } else {
-        toast.info('No question analysis available');
-      }
-    } catch (error: any) {
-      
-      // Check if there's a more specific error message from the API
-      let errorMessage = 'Failed to analyze call progress';
-      if (error.response?.data?.error) {
-        errorMessage += `: ${error.response.data.error}`;
-      }
-      if (error.response?.data?.details) {
-        errorMessage += ` - ${error.response.data.details}`;
-      }
-      
-      // If transcript is too short, provide a more helpful message
-      const transcriptLength = transcriptEntries.filter(entry => entry.isFinal).length;
-      if (transcriptLength < 5) {
-        errorMessage = 'Not enough transcript data for analysis. Continue your conversation and try again later.';
-      }
-      
-      toast.error(errorMessage);
-    } finally {
-      setIsScoring(false);
-    }
-  }, [activeTemplate?.sales_framework, transcriptEntries, getTranscriptText, onFrameworkQuestionUpdate]);
-
-
-  // Periodic scoring effect
-  useEffect(() => {
-    const framework = activeTemplate?.sales_framework as unknown as CallFramework | undefined;
-    if (!activeMeeting?.isRunning || !framework || !transcriptEntries.length) return;
-
-    const scoringInterval = setInterval(async () => {
-      try {
-        setIsScoring(true);
-        const transcript = getTranscriptText();
-        
-        // Extract questions from framework content
-        const questions = framework.framework_content.map(item => item.question);
-        
-        // Format transcript into turns format required by lead-scoring API
-        const transcriptTurns = {
-          turns: transcriptEntries
-            .filter(entry => entry.isFinal)
-            .map((entry, index) => ({
-              speaker: entry.speaker || 'Unknown',
-              text: entry.text
-            }))
-        };
-        
-        const result = await leadScoring(
-          framework.framework_name,
-          questions,
-          transcriptTurns
-        );
-
-        // Use the helper function to update the framework progress if we have the update callback
-        if (onFrameworkQuestionUpdate) {
-          updateFrameworkWithScoringResults(framework, result, onFrameworkQuestionUpdate);
-        }
-      } catch (error: any) {
-        
-        // Only show error toast for non-transcript-length issues
-        const transcriptLength = transcriptEntries.filter(entry => entry.isFinal).length;
-        if (transcriptLength >= 5) {
-          let errorMessage = 'Failed to analyze call progress';
-          if (error.response?.data?.error) {
-            errorMessage += `: ${error.response.data.error}`;
-          }
-          toast.error(errorMessage, { id: 'scoring-error', duration: 3000 });
-        }
-      } finally {
-        setIsScoring(false);
-      }
-    }, 300000); // Run every 5 minutes
-
-    return () => clearInterval(scoringInterval);
-  }, [activeMeeting?.isRunning, activeTemplate?.sales_framework, transcriptEntries, getTranscriptText, onFrameworkQuestionUpdate]);
-  
   // Initialize topic queue
   const { addTopic, getRecentTopics, getTimeRemaining } = useTopicQueue();
 
-  // Update detected topics with new classification
+  // Update detected topics with new classification. The session runs in
+  // multi-label mode, so several topics can be live at the same time.
   useEffect(() => {
     if (currentClassification) {
       // Add topic to queue when detected
@@ -454,46 +292,43 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
       setDetectedTopics(prev => {
         const now = Date.now();
         const TOPIC_EXPIRY = 5 * 60 * 1000; // 5 minutes
-        
-        // Remove expired topics (older than 5 minutes)
-        const activeTopics = prev.filter(topic => 
-          now - topic.lastDetected < TOPIC_EXPIRY
-        );
-        
-        const existingTopic = activeTopics.find(topic => 
-          topic.label === currentClassification.label
-        );
-        
-        let updatedTopics;
-        if (existingTopic) {
-          // Update existing topic
-          updatedTopics = activeTopics.map(topic => 
-            topic.id === existingTopic.id 
-              ? {
-                  ...topic,
-                  confidence: (topic.confidence * topic.detectionCount + currentClassification.score) / (topic.detectionCount + 1),
-                  detectionCount: topic.detectionCount + 1,
-                  lastDetected: now
-                }
-              : topic
-          );
+
+        // Remove expired topics (older than 5 minutes); only topics in this
+        // classification stay live
+        const updatedTopics = prev
+          .filter(topic => now - topic.lastDetected < TOPIC_EXPIRY)
+          .map(topic => ({ ...topic, isActive: false }));
+
+        currentClassification.activeTopics.forEach(({ label, score }) => {
+          const index = updatedTopics.findIndex(topic => topic.label === label);
+          if (index !== -1) {
+            // Update existing topic
+            const topic = updatedTopics[index];
+            updatedTopics[index] = {
+              ...topic,
+              confidence: (topic.confidence * topic.detectionCount + score) / (topic.detectionCount + 1),
+              detectionCount: topic.detectionCount + 1,
+              lastDetected: now,
+              isActive: true,
+            };
           } else {
             // Add new topic
-            const newTopic: DetectedTopic = {
-              id: currentClassification.label,
-              label: currentClassification.label,
-              confidence: currentClassification.score,
+            updatedTopics.push({
+              id: label,
+              label,
+              confidence: score,
               detectionCount: 1,
-              lastDetected: now
-            };
-          
-          updatedTopics = [...activeTopics, newTopic];
-        }
-        
-        // Sort by confidence and detection count, keep top 3
+              lastDetected: now,
+              isActive: true,
+            });
+          }
+        });
+
+        // Live topics first, then by confidence and detection count; keep top 3
         return updatedTopics
-          .sort((a, b) => 
-            b.confidence - a.confidence || 
+          .sort((a, b) =>
+            Number(b.isActive) - Number(a.isActive) ||
+            b.confidence - a.confidence ||
             b.detectionCount - a.detectionCount
           )
           .slice(0, 3);
@@ -509,7 +344,12 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
   return (
     <div className="meeting-content-container h-full flex flex-col relative overflow-hidden rounded-lg bg-background/95 backdrop-blur-sm">
       {/* Header Component */}
-      <MeetingHeader timer={timer} onEndMeeting={onEndMeeting} />
+      <MeetingHeader
+        timer={timer}
+        onEndMeeting={isCallEnded ? () => setActiveTab('actions') : onEndMeeting}
+        isRecording={isRecording}
+        onToggleRecording={isCallEnded ? undefined : onToggleRecording}
+      />
 
       {/* Main Content with Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col h-full pt-7 pb-12">
@@ -518,6 +358,30 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
           <TabsContent value="call" className="absolute inset-0 bg-background/50 overflow-hidden">
             <ScrollArea className="h-full">
               <div className="p-4 space-y-4">
+                {/* Live checklist for the current use case/pain point */}
+                {isAgent && topicSection && (
+                  <TopicNavigator
+                    section={topicSection}
+                    questions={topicQuestions}
+                    sections={topicSections.map(definition => ({
+                      id: definition.id,
+                      title: definition.title,
+                      openCount: checklistSections[definition.id]?.checklist.length ?? 0,
+                    }))}
+                    onSelectSection={setChecklistSectionId}
+                    isLiveTopic={!!liveTopicLabel && liveTopicLabel === topicSection.topicLabel}
+                    currentQuestionIndex={Math.min(topicQuestionIndex, Math.max(0, topicQuestions.length - 1))}
+                    nextQuestion={() => setTopicQuestionIndex(index => Math.min(index + 1, topicQuestions.length - 1))}
+                    previousQuestion={() => setTopicQuestionIndex(index => Math.max(index - 1, 0))}
+                    isFirstQuestion={topicQuestionIndex <= 0}
+                    isLastQuestion={topicQuestionIndex >= topicQuestions.length - 1}
+                    onCompleteQuestion={onCompleteQuestion && ((question, status, note) => onCompleteQuestion(question, status, { note }))}
+                    onAskLater={question => moveChecklistItem(topicSection.id, question.id, topicQuestions.length - 1)}
+                    currentClassification={currentClassification}
+                    isLoading={isClassifying}
+                  />
+                )}
+
                 {/* Topic Detection Display */}
                 <TopicDetectionDisplay 
                   topics={detectedTopics}
@@ -527,6 +391,11 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
 
                 {/* Topic Queue Display */}
                 <TopicQueueDisplay className="mt-4" />
+
+                {/* Questions asked or skipped so far */}
+                {onUndoQuestion && (
+                  <CompletedQuestions items={completedItems} onUndo={onUndoQuestion} onNoteChange={onQuestionNoteChange} />
+                )}
                 
               </div>
             </ScrollArea>
@@ -536,9 +405,18 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
             <ScrollArea className="h-full">
               {/* Action Tab Content Component */}
               <ActionTabContent
-                callSummary=""
-                nextStep=""
-                onEndMeeting={onEndMeeting}
+                summary={summary}
+                isCallEnded={isCallEnded}
+                isGenerating={isGeneratingSummary}
+                isSaving={isSavingMeeting}
+                onSummaryChange={(next) => onSummaryChange?.(next)}
+                onRegenerate={() => onRegenerateSummary?.()}
+                onEndCall={onEndMeeting}
+                onConfirmMeeting={() => onConfirmMeeting?.()}
+                calendarEventId={calendarEventId}
+                frameworkProgress={frameworkProgress}
+                startedAt={activeMeeting?.startTime}
+                durationSeconds={timer}
               />
             </ScrollArea>
           </TabsContent>
@@ -568,7 +446,7 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
               customColors={undefined}
               customLetters={undefined}
               isScoring={isScoring}
-              onManualScore={handleManualScoring}
+              onManualScore={onManualScore}
             />
           </TabsContent>
 
@@ -577,6 +455,9 @@ const MeetingContent: React.FC<MeetingContentProps> = ({
               <div className="p-4">
                 <LiveTab
                   transcriptEntries={transcriptEntries}
+                  speakers={speakers}
+                  attendees={attendees}
+                  onRenameSpeaker={onRenameSpeaker}
                   meetingStartTime={activeMeeting?.startTime}
                   isTranscribing={isTranscribing}
                   isUserTranscribing={isUserTranscribing}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock } from 'lucide-react';
+import { Clock, Circle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { formatTime } from '@/utils/formatUtils';
 import { toast } from 'sonner';
@@ -7,15 +7,20 @@ import { toast } from 'sonner';
 interface MeetingHeaderProps {
   timer: number;
   onEndMeeting: () => void;
+  // Recording is opt-in per meeting and only offered while the call is live
+  isRecording?: boolean;
+  onToggleRecording?: () => void;
 }
 
 /**
- * MeetingHeader component displays the timer and end meeting button
- * at the top of the meeting content area
+ * MeetingHeader component displays the timer, recording toggle and end
+ * meeting button at the top of the meeting content area
  */
 const MeetingHeader: React.FC<MeetingHeaderProps> = ({
   timer,
   onEndMeeting,
+  isRecording = false,
+  onToggleRecording,
 }) => {
   // Handle end meeting with force option
   const handleEndMeeting = () => {
@@ -41,7 +46,19 @@ const MeetingHeader: React.FC<MeetingHeaderProps> = ({
         <span className="font-mono text-[11px] text-muted-foreground">{formatTime(timer)}</span>
         <div className="w-1 h-1 rounded-full bg-blue-500 animate-pulse ml-0.5"></div>
       </div>
-      <div className="flex items-center">
+      <div className="flex items-center gap-1">
+        {onToggleRecording && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onToggleRecording}
+            title={isRecording ? 'Stop recording' : 'Record this meeting'}
+            className={`h-5 px-1.5 text-[11px] ${isRecording ? 'text-red-500 hover:text-red-600' : 'text-muted-foreground'}`}
+          >
+            <Circle size={8} className={`mr-1 ${isRecording ? 'fill-red-500 animate-pulse' : ''}`} />
+            {isRecording ? 'Recording' : 'Record'}
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
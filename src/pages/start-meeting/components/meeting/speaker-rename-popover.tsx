@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, UserRound } from 'lucide-react';
+import { TranscriptSpeaker } from '@/types/transcript';
+import { CalendarAttendee } from '@/services/google-calendar-api-function';
+
+interface SpeakerRenamePopoverProps {
+  speaker: TranscriptSpeaker;
+  attendees: CalendarAttendee[];
+  onRename?: (speakerId: string, name: string, attendeeEmail?: string) => void;
+}
+
+/**
+ * Speaker Rename Popover Component
+ *
+ * Speaker badge shown next to a transcript turn. Clicking it lets the rep
+ * map the diarized speaker to an attendee of the linked calendar event or
+ * type a custom name. Renders a plain badge when renaming is not available.
+ */
+const SpeakerRenamePopover: React.FC<SpeakerRenamePopoverProps> = ({
+  speaker,
+  attendees,
+  onRename
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const variant = speaker.channel === 'system' ? 'secondary' : 'default';
+
+  if (!onRename) {
+    return <Badge variant={variant}>{speaker.name}</Badge>;
+  }
+
+  const handleRename = (name: string, attendeeEmail?: string) => {
+    if (!name.trim()) return;
+    onRename(speaker.id, name.trim(), attendeeEmail);
+    setCustomName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" title="Rename speaker">
+          <Badge variant={variant} className="cursor-pointer">{speaker.name}</Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        {attendees.length > 0 && (
+          <div className="mb-2 space-y-0.5">
+            <p className="px-2 py-1 text-xs font-medium text-muted-foreground">Attendees</p>
+            {attendees.map(attendee => {
+              const name = attendee.displayName || attendee.email;
+              return (
+                <Button
+                  key={attendee.email}
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start font-normal"
+                  onClick={() => handleRename(name, attendee.email)}
+                >
+                  <UserRound className="h-3.5 w-3.5 mr-2" />
+                  <span className="truncate">{name}</span>
+                  {speaker.attendeeEmail === attendee.email && <Check className="h-3.5 w-3.5 ml-auto" />}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleRename(customName);
+          }}
+        >
+          <Input
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            placeholder="Custom name"
+            className="h-8 text-sm"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={!customName.trim()}>
+            Save
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SpeakerRenamePopover;
@@ -10,6 +10,7 @@ export interface DetectedTopic {
   confidence: number;
   detectionCount: number;
   lastDetected: number;
+  isActive?: boolean; // Detected in the latest classification
 }
 
 interface TopicDetectionDisplayProps {
@@ -33,8 +34,9 @@ const formatTimeAgo = (timestamp: number): string => {
 };
 
 /**
- * Displays up to 3 detected topics, highlighting the most discussed one.
- * Aims to reduce cognitive load by removing stats and percentages.
+ * Displays up to 3 detected topics. Topics being discussed right now (there
+ * can be several at once) come first and are highlighted; the most discussed
+ * one is labelled. Aims to reduce cognitive load by removing stats and percentages.
  */
 const TopicDetectionDisplay: React.FC<TopicDetectionDisplayProps> = ({
   topics,
@@ -51,12 +53,16 @@ const TopicDetectionDisplay: React.FC<TopicDetectionDisplayProps> = ({
     return () => clearInterval(timer);
   }, []);
 
-  // Sort topics by detection count to find the most discussed ones
-  const topTopics = topics
-    // Sort by detection count
-    .sort((a, b) => b.detectionCount - a.detectionCount)
+  // Live topics first, then the most discussed ones
+  const topTopics = [...topics]
+    .sort((a, b) => Number(!!b.isActive) - Number(!!a.isActive) || b.detectionCount - a.detectionCount)
     .slice(0, maxTopics);
 
+  const liveCount = topics.filter(topic => topic.isActive).length;
+  const mostDiscussedId = topics.length > 1
+    ? topics.reduce((best, topic) => (topic.detectionCount > best.detectionCount ? topic : best)).id
+    : null;
+
   // Default icon for all topics
   const getTopicIcon = () => {
     return <MessageSquare className="h-4 w-4 text-blue-500" />;
@@ -71,7 +77,12 @@ const TopicDetectionDisplay: React.FC<TopicDetectionDisplayProps> = ({
     <div>
       {/* Header section */}
       <div className="flex items-center justify-between mb-2">
-        <h3 className="text-sm font-medium text-foreground">Detected Topics</h3>
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-medium text-foreground">Detected Topics</h3>
+          {liveCount > 1 && (
+            <span className="text-xs text-muted-foreground">{liveCount} live at once</span>
+          )}
+        </div>
         {isClassifying && (
           <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
             <div className="h-2 w-2 bg-blue-500 rounded-full animate-pulse" />
@@ -92,7 +103,7 @@ const TopicDetectionDisplay: React.FC<TopicDetectionDisplayProps> = ({
                 exit={{ opacity: 0, y: -10 }}
                 transition={{ duration: 0.2, delay: index * 0.05 }}
               >
-                <Card className={`p-3 transition-colors ${index === 0 ? 'bg-primary/10' : 'bg-card/50'}`}>
+                <Card className={`p-3 transition-colors ${topic.isActive ? 'bg-primary/10' : 'bg-card/50'}`}>
                   <div className="flex items-center justify-between w-full">
                     <div className="flex items-center gap-3 flex-1 min-w-0">
                       {getTopicIcon()}
@@ -107,7 +118,12 @@ const TopicDetectionDisplay: React.FC<TopicDetectionDisplayProps> = ({
                           >
                             Topic
                           </Badge>
-                          {index === 0 && topics.length > 1 ? (
+                          {topic.isActive && (
+                            <Badge className="text-[10px] px-1.5 py-0 mt-1">
+                              Live
+                            </Badge>
+                          )}
+                          {topic.id === mostDiscussedId ? (
                             <Badge
                               variant="secondary"
                               className="text-[10px] px-1.5 py-0 mt-1"
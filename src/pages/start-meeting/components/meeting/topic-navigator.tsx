@@ -1,7 +1,9 @@
-import React from 'react';
-import { UseCase, PainPoint } from '@/types/agent/call-card-create.types';
+import React, { useEffect, useState } from 'react';
+import { ChecklistItem } from '@/types/meetingTemplates';
+import { ChecklistSectionDefinition } from '@/store/checklistStore';
 import { Button } from '@/components/ui/button';
-import { ChevronRight, ChevronLeft } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ChevronRight, ChevronLeft, Check, SkipForward, ArrowDownToLine } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Badge } from '@/components/ui/badge';
@@ -9,91 +11,179 @@ import { ClassifyTextResponse } from '@/types/text-classifier';
 import ClassificationLabel from '../classification-label';
 
 interface TopicNavigatorProps {
-  topic: UseCase | PainPoint;
-  topicType: 'useCase' | 'painPoint';
+  section: ChecklistSectionDefinition;
+  questions: ChecklistItem[]; // The section's open questions
+  sections: Array<{ id: string; title: string; openCount: number }>;
+  onSelectSection: (sectionId: string) => void;
+  isLiveTopic?: boolean; // The section matches the classifier's current topic
   currentQuestionIndex: number;
   nextQuestion: () => void;
   previousQuestion: () => void;
   isFirstQuestion: boolean;
   isLastQuestion: boolean;
+  onCompleteQuestion?: (question: ChecklistItem, status: 'asked' | 'skipped', note?: string) => void;
+  onAskLater?: (question: ChecklistItem) => void; // Moves the question to the end of the section
   currentClassification: ClassifyTextResponse | null;
   isLoading?: boolean;
 }
 
 /**
- * Combined component for navigating through both use case and pain point questions
+ * Combined component for navigating through both use case and pain point questions.
+ * Each use case/pain point is its own checklist section; the chips switch between them.
  */
 const TopicNavigator: React.FC<TopicNavigatorProps> = ({
-  topic,
-  topicType,
+  section,
+  questions,
+  sections,
+  onSelectSection,
+  isLiveTopic = false,
   currentQuestionIndex,
   nextQuestion,
   previousQuestion,
   isFirstQuestion,
   isLastQuestion,
+  onCompleteQuestion,
+  onAskLater,
   currentClassification,
   isLoading = false
 }) => {
-  const currentQuestion = topic.questions[currentQuestionIndex];
-  
-  if (!currentQuestion) return null;
-  
+  const currentQuestion = questions[currentQuestionIndex];
+  const [note, setNote] = useState('');
+
+  // A note belongs to the question it was typed for
+  useEffect(() => {
+    setNote('');
+  }, [currentQuestion?.id]);
+
+  const completeCurrentQuestion = (status: 'asked' | 'skipped') => {
+    if (currentQuestion) onCompleteQuestion?.(currentQuestion, status, note.trim() || undefined);
+  };
+
   return (
     <div className="flex flex-col space-y-4 px-4">
-      <div className="flex items-center justify-between">
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={previousQuestion}
-                disabled={isFirstQuestion}
-                className={cn(
-                  "transition-opacity h-6 w-6 focus:ring-0 focus:outline-none focus:border focus:border-muted/30 focus:border-[0.2px]",
-                  isFirstQuestion ? "opacity-0" : "opacity-100"
-                )}
-              >
-                <ChevronLeft className="h-3 w-3" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent side="bottom">
-              <p>Previous question (←)</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
-        <span className="text-xs text-muted-foreground">
-          Q{currentQuestionIndex + 1}/{topic.questions.length}
-        </span>
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={nextQuestion}
-                disabled={isLastQuestion}
-                className={cn(
-                  "transition-opacity h-6 w-6 focus:ring-0 focus:outline-none focus:border focus:border-muted/30 focus:border-[0.5px]",
-                  isLastQuestion ? "opacity-0" : "opacity-100"
-                )}
-              >
-                <ChevronRight className="h-3 w-3" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent side="bottom">
-              <p>Next question (→)</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+      <div className="flex flex-wrap gap-1.5">
+        {sections.map(item => (
+          <Badge
+            key={item.id}
+            variant={item.id === section.id ? 'default' : 'outline'}
+            className="cursor-pointer text-xs font-normal"
+            onClick={() => onSelectSection(item.id)}
+          >
+            {item.title}
+            <span className="ml-1 opacity-70">{item.openCount}</span>
+          </Badge>
+        ))}
       </div>
 
-      <div className="bg-card border rounded-lg p-4">
-        <p className="text-sm">
-          {currentQuestion.text}
-        </p>
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="text-[11px] uppercase tracking-wide text-muted-foreground">
+            {section.kind === 'painPoint' ? 'Pain point' : 'Use case'}
+          </span>
+          {isLiveTopic && (
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Live topic</Badge>
+          )}
+        </div>
+        <h3 className="text-sm font-medium text-foreground">{section.title}</h3>
+        {section.description && (
+          <p className="text-xs text-muted-foreground">{section.description}</p>
+        )}
       </div>
-      
+
+      {!currentQuestion ? (
+        <p className="text-xs text-muted-foreground">All questions for this topic are done.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={previousQuestion}
+                    disabled={isFirstQuestion}
+                    className={cn(
+                      "transition-opacity h-6 w-6 focus:ring-0 focus:outline-none focus:border focus:border-muted/30 focus:border-[0.2px]",
+                      isFirstQuestion ? "opacity-0" : "opacity-100"
+                    )}
+                  >
+                    <ChevronLeft className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  <p>Previous question (←)</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            <span className="text-xs text-muted-foreground">
+              Q{currentQuestionIndex + 1}/{questions.length}
+            </span>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={nextQuestion}
+                    disabled={isLastQuestion}
+                    className={cn(
+                      "transition-opacity h-6 w-6 focus:ring-0 focus:outline-none focus:border focus:border-muted/30 focus:border-[0.5px]",
+                      isLastQuestion ? "opacity-0" : "opacity-100"
+                    )}
+                  >
+                    <ChevronRight className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  <p>Next question (→)</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+
+          <div className="bg-card border rounded-lg p-4">
+            <p className="text-sm">
+              {currentQuestion.text}
+            </p>
+          </div>
+
+          {onCompleteQuestion && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="Answer or reason for skipping (optional)"
+                className="h-8 text-xs"
+              />
+              {onAskLater && !isLastQuestion && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8" onClick={() => onAskLater(currentQuestion)}>
+                        <ArrowDownToLine className="h-3.5 w-3.5 mr-1" />
+                        Later
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      <p>Move to the end of this topic</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              <Button variant="outline" size="sm" className="h-8" onClick={() => completeCurrentQuestion('skipped')}>
+                <SkipForward className="h-3.5 w-3.5 mr-1" />
+                Skip
+              </Button>
+              <Button size="sm" className="h-8" onClick={() => completeCurrentQuestion('asked')}>
+                <Check className="h-3.5 w-3.5 mr-1" />
+                Asked
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
       <div className="flex justify-center">
         <ClassificationLabel 
           classification={currentClassification} 
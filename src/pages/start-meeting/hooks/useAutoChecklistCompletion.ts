@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ChecklistItem } from '@/types/meetingTemplates';
+import { ChecklistQuestionAnswered } from '@/types/text-classifier';
+import { TranscriptChannel } from '@/types/transcript';
+
+interface UseAutoChecklistCompletionOptions {
+  meetingId?: string;
+  openQuestions: ChecklistItem[];
+  onAnswered: (answered: ChecklistQuestionAnswered[]) => void;
+}
+
+interface FinalTurn {
+  turnId: number;
+  channel: TranscriptChannel;
+  text: string;
+}
+
+/**
+ * Detects checklist questions the rep asks (mic) and the prospect answers
+ * (system audio), using the local embedding model in the classifier workers.
+ * The main process only ever sees the open questions, so a completed question
+ * stops matching and an undone one starts matching again.
+ */
+export const useAutoChecklistCompletion = ({ meetingId, openQuestions, onAnswered }: UseAutoChecklistCompletionOptions) => {
+  const meetingIdRef = useRef(meetingId);
+  meetingIdRef.current = meetingId;
+  const onAnsweredRef = useRef(onAnswered);
+  onAnsweredRef.current = onAnswered;
+
+  // Only resync when the set of open questions actually changes
+  const questionsKey = openQuestions.map(question => question.id).join('|');
+  const openQuestionsRef = useRef(openQuestions);
+  openQuestionsRef.current = openQuestions;
+
+  useEffect(() => {
+    if (!meetingId) return;
+    window.electron?.setChecklistQuestions?.(
+      meetingId,
+      openQuestionsRef.current.map(question => ({ id: question.id, text: question.text }))
+    );
+  }, [meetingId, questionsKey]);
+
+  // Matches one final transcript turn; answered questions go to onAnswered
+  const matchTurn = useCallback(async (turn: FinalTurn) => {
+    const sessionId = meetingIdRef.current;
+    if (!sessionId || !turn.text.trim() || !window.electron?.matchChecklistTurn) return;
+
+    try {
+      const response = await window.electron.matchChecklistTurn({
+        id: uuidv4(),
+        sessionId,
+        turnId: turn.turnId,
+        channel: turn.channel,
+        text: turn.text.trim(),
+      });
+
+      // The meeting may have ended while the turn was being matched
+      if (response.error || sessionId !== meetingIdRef.current) return;
+      if (response.answered.length > 0) {
+        onAnsweredRef.current(response.answered);
+      }
+    } catch (err) {
+      console.error('Checklist matching error:', err);
+    }
+  }, []);
+
+  return { matchTurn };
+};
@@ -0,0 +1,211 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { throttle } from 'lodash';
+import { toast } from 'sonner';
+import { leadScoring } from '@/services/agentApiFunction';
+import { LeadScoringResponse } from '@/types/agent/lead-scoring.types';
+import { TranscriptEntry, TranscriptSpeaker } from '@/types/transcript';
+import { toLeadScoringTurns } from '@/utils/transcriptUtils';
+import { CallFramework, FrameworkProgress, FrameworkQuestion } from '../components/meeting/call-framework-progress-tab';
+
+// Constants
+const LEAD_SCORING_THROTTLE_MS = 20000; // At most one automatic pass every 20 seconds
+const MIN_NEW_TURNS = 2; // Skip automatic passes until the conversation has moved on
+const CONTEXT_TURNS = 4; // Already-scored turns re-sent so answers spanning a batch boundary are kept
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 60000;
+
+const RESOLVED_STATUSES: FrameworkQuestion['status'][] = ['answered_by_buyer', 'answered_via_confirmation', 'completed'];
+
+const getStatusRank = (status: FrameworkQuestion['status']): number => {
+  switch (status) {
+    case 'answered_by_buyer':
+    case 'completed':
+      return 3;
+    case 'answered_via_confirmation':
+      return 2;
+    case 'partial_or_unclear':
+    case 'in-progress':
+      return 1;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Merges an incremental scoring pass into the current progress. A question
+ * never regresses: the stronger status wins, and on a tie the more confident
+ * evidence is kept. Turn ids accumulate across passes.
+ */
+const mergeScoringResponse = (progress: FrameworkProgress, response: LeadScoringResponse): FrameworkProgress => {
+  const resultsByQuestion = new Map(response.questions.map(q => [q.question, q]));
+
+  const questions = progress.questions.map(question => {
+    const result = resultsByQuestion.get(question.question);
+    if (!result) return question;
+
+    const turnIds = Array.from(new Set([...(question.turnIds || []), ...(result.turn_ids || [])])).sort((a, b) => a - b);
+    const currentRank = getStatusRank(question.status);
+    const resultRank = getStatusRank(result.status);
+    const isStronger = resultRank > currentRank
+      || (resultRank === currentRank && result.confidence > (question.confidence ?? 0));
+
+    return isStronger
+      ? { ...question, status: result.status, confidence: result.confidence, evidence: result.evidence, turnIds }
+      : { ...question, turnIds };
+  });
+
+  const completedQuestions = questions.filter(q => RESOLVED_STATUSES.includes(q.status)).length;
+
+  return {
+    ...progress,
+    questions,
+    completedQuestions,
+    progressPercentage: questions.length ? Math.round((completedQuestions / questions.length) * 100) : 0,
+    nextBestQuestions: response.nextBestQuestions ?? progress.nextBestQuestions,
+  };
+};
+
+interface UseLeadScoringOptions {
+  framework: CallFramework | null;
+  frameworkProgress: FrameworkProgress | null;
+  setFrameworkProgress: React.Dispatch<React.SetStateAction<FrameworkProgress | null>>;
+  transcriptEntries: TranscriptEntry[];
+  speakers: Record<string, TranscriptSpeaker>;
+  isRunning: boolean;
+}
+
+/**
+ * Live lead scoring against the template's sales framework.
+ *
+ * Sends only the turns added since the last successful pass (plus a little
+ * context) and only the questions that are not yet answered. Failed passes
+ * back off exponentially; pausing or ending the meeting cancels the pending
+ * pass and discards any response still in flight.
+ */
+export const useLeadScoring = ({
+  framework,
+  frameworkProgress,
+  setFrameworkProgress,
+  transcriptEntries,
+  speakers,
+  isRunning
+}: UseLeadScoringOptions) => {
+  const [isScoring, setIsScoring] = useState(false);
+
+  // Latest inputs, read by the throttled pass without re-creating it
+  const frameworkRef = useRef(framework);
+  const progressRef = useRef(frameworkProgress);
+  const entriesRef = useRef(transcriptEntries);
+  const speakersRef = useRef(speakers);
+  const isRunningRef = useRef(isRunning);
+  frameworkRef.current = framework;
+  progressRef.current = frameworkProgress;
+  entriesRef.current = transcriptEntries;
+  speakersRef.current = speakers;
+  isRunningRef.current = isRunning;
+
+  const lastScoredTurnIdRef = useRef<number>(-1);
+  const isInFlightRef = useRef(false);
+  const generationRef = useRef(0); // Bumped on cancel so stale responses are dropped
+  const failureCountRef = useRef(0);
+  const nextAttemptAtRef = useRef(0);
+
+  const runScoring = useCallback(async (isManual: boolean) => {
+    const currentFramework = frameworkRef.current;
+    if (!currentFramework || isInFlightRef.current) return;
+    if (!isManual && (!isRunningRef.current || Date.now() < nextAttemptAtRef.current)) return;
+
+    const turns = toLeadScoringTurns(entriesRef.current, speakersRef.current);
+    const newTurns = turns.filter(turn => turn.turn_id > lastScoredTurnIdRef.current);
+    if (newTurns.length === 0 || (!isManual && newTurns.length < MIN_NEW_TURNS)) {
+      if (isManual) toast.info('No new conversation to analyze yet');
+      return;
+    }
+    const contextTurns = turns
+      .filter(turn => turn.turn_id <= lastScoredTurnIdRef.current)
+      .slice(-CONTEXT_TURNS);
+
+    const resolved = new Set(
+      (progressRef.current?.questions || [])
+        .filter(q => RESOLVED_STATUSES.includes(q.status))
+        .map(q => q.question)
+    );
+    const questions = currentFramework.framework_content
+      .map(item => item.question)
+      .filter(question => !resolved.has(question));
+    if (questions.length === 0) return;
+
+    const generation = generationRef.current;
+    isInFlightRef.current = true;
+    setIsScoring(true);
+
+    try {
+      const result = await leadScoring(
+        currentFramework.framework_name,
+        questions,
+        { turns: [...contextTurns, ...newTurns] }
+      );
+      if (generation !== generationRef.current) return;
+
+      lastScoredTurnIdRef.current = newTurns[newTurns.length - 1].turn_id;
+      failureCountRef.current = 0;
+      nextAttemptAtRef.current = 0;
+      setFrameworkProgress(prev => (prev ? mergeScoringResponse(prev, result) : prev));
+    } catch (error) {
+      if (generation !== generationRef.current) return;
+
+      failureCountRef.current += 1;
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** (failureCountRef.current - 1), BACKOFF_MAX_MS);
+      nextAttemptAtRef.current = Date.now() + delay;
+      console.error(`Lead scoring failed (attempt ${failureCountRef.current}), retrying in ${delay}ms:`, error);
+      if (isManual) {
+        toast.error('Failed to analyze call progress');
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        isInFlightRef.current = false;
+        setIsScoring(false);
+      }
+    }
+  }, [setFrameworkProgress]);
+
+  const throttledScoring = useMemo(
+    () => throttle(() => runScoring(false), LEAD_SCORING_THROTTLE_MS, { leading: false, trailing: true }),
+    [runScoring]
+  );
+
+  // Drop the scheduled pass and ignore any response still in flight
+  const cancelScoring = useCallback(() => {
+    throttledScoring.cancel();
+    generationRef.current += 1;
+    isInFlightRef.current = false;
+    setIsScoring(false);
+  }, [throttledScoring]);
+
+  const resetLeadScoring = useCallback(() => {
+    cancelScoring();
+    lastScoredTurnIdRef.current = -1;
+    failureCountRef.current = 0;
+    nextAttemptAtRef.current = 0;
+  }, [cancelScoring]);
+
+  const scheduleScoring = useCallback(() => {
+    if (frameworkRef.current) throttledScoring();
+  }, [throttledScoring]);
+
+  const scoreNow = useCallback(() => runScoring(true), [runScoring]);
+
+  // Cancel when the meeting pauses or ends
+  useEffect(() => {
+    if (!isRunning) cancelScoring();
+  }, [isRunning, cancelScoring]);
+
+  useEffect(() => cancelScoring, [cancelScoring]);
+
+  return {
+    isScoring,
+    scheduleScoring,
+    scoreNow,
+    resetLeadScoring
+  };
+};
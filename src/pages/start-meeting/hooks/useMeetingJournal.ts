@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { MeetingJournalSnapshot } from '@/types/meeting-journal';
+
+const JOURNAL_INTERVAL_MS = 5000;
+
+interface UseMeetingJournalOptions {
+  meetingId?: string;
+  // False once the call has ended; the saved meeting record takes over from there
+  isJournaling: boolean;
+  buildSnapshot: () => MeetingJournalSnapshot | null;
+}
+
+/**
+ * Journals the live meeting to disk through the main process every few
+ * seconds (and when the window unloads), so it can be resumed after a
+ * renderer reload or crash. A meeting's journal is cleared as soon as the
+ * page stops tracking it: the call ended, or another meeting replaced it.
+ */
+export const useMeetingJournal = ({ meetingId, isJournaling, buildSnapshot }: UseMeetingJournalOptions) => {
+  const buildSnapshotRef = useRef(buildSnapshot);
+  buildSnapshotRef.current = buildSnapshot;
+
+  const writeJournal = useCallback(() => {
+    const snapshot = buildSnapshotRef.current();
+    if (!snapshot || !window.electron?.journalMeeting) return;
+    window.electron.journalMeeting(snapshot).catch(error => {
+      console.error('Error journaling meeting:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!meetingId || !isJournaling) return;
+
+    const interval = setInterval(writeJournal, JOURNAL_INTERVAL_MS);
+    window.addEventListener('beforeunload', writeJournal);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', writeJournal);
+    };
+  }, [meetingId, isJournaling, writeJournal]);
+
+  // Cleanup runs when the meeting id changes or the call stops journaling,
+  // but not on unmount: a reload must leave the journal behind
+  const isUnmountingRef = useRef(false);
+  useEffect(() => {
+    isUnmountingRef.current = false;
+    return () => {
+      isUnmountingRef.current = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!meetingId || !isJournaling) return;
+    return () => {
+      if (!isUnmountingRef.current) {
+        window.electron?.clearMeetingJournal?.(meetingId);
+      }
+    };
+  }, [meetingId, isJournaling]);
+};
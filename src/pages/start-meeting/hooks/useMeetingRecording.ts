@@ -0,0 +1,151 @@
+import { useCallback, useRef, useState } from 'react';
+import { MeetingRecording, MeetingRecordingPause } from '@/types/meeting-record';
+
+const PREFERRED_MIME_TYPE = 'audio/webm;codecs=opus';
+const CHUNK_INTERVAL_MS = 1000;
+
+interface ActiveRecording {
+  meetingId: string;
+  recorder: MediaRecorder;
+  audioContext: AudioContext;
+  filePath: string;
+  startedAt: number;
+  pauses: MeetingRecordingPause[];
+  pausedAt: number | null;
+  // Chunks are forwarded in order; stop waits for the last one
+  pendingChunk: Promise<void>;
+}
+
+/**
+ * Opt-in recording of the meeting's audio. The mic and system audio streams
+ * the transcription already captures are mixed into one stereo track (mic
+ * left, system right) and streamed to a file owned by the main process, so
+ * each side can still be told apart on playback.
+ */
+export const useMeetingRecording = () => {
+  const [isRecording, setIsRecording] = useState(false);
+  const activeRef = useRef<ActiveRecording | null>(null);
+
+  const startRecording = useCallback(async (
+    meetingId: string,
+    micStream: MediaStream | null,
+    systemStream: MediaStream | null
+  ) => {
+    const electron = window.electron;
+    if (activeRef.current || !electron?.startMeetingRecording) return false;
+    if (!micStream?.active && !systemStream?.active) {
+      throw new Error('No audio stream available');
+    }
+
+    // Downmix each side to mono and place it on its own channel
+    const audioContext = new AudioContext();
+    const merger = audioContext.createChannelMerger(2);
+    [micStream, systemStream].forEach((stream, channel) => {
+      if (!stream?.active) return;
+      const downmix = audioContext.createGain();
+      downmix.channelCount = 1;
+      downmix.channelCountMode = 'explicit';
+      downmix.channelInterpretation = 'speakers';
+      audioContext.createMediaStreamSource(stream).connect(downmix);
+      downmix.connect(merger, 0, channel);
+    });
+    const destination = audioContext.createMediaStreamDestination();
+    destination.channelCount = 2;
+    merger.connect(destination);
+
+    const mimeType = MediaRecorder.isTypeSupported(PREFERRED_MIME_TYPE) ? PREFERRED_MIME_TYPE : '';
+    const recorder = mimeType
+      ? new MediaRecorder(destination.stream, { mimeType })
+      : new MediaRecorder(destination.stream);
+
+    let filePath: string;
+    try {
+      ({ filePath } = await electron.startMeetingRecording(meetingId, recorder.mimeType || 'audio/webm'));
+    } catch (error) {
+      audioContext.close().catch(() => {});
+      throw error;
+    }
+
+    const active: ActiveRecording = {
+      meetingId,
+      recorder,
+      audioContext,
+      filePath,
+      startedAt: Date.now(),
+      pauses: [],
+      pausedAt: null,
+      pendingChunk: Promise.resolve(),
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      active.pendingChunk = active.pendingChunk
+        .then(() => event.data.arrayBuffer())
+        .then(buffer => electron.appendMeetingRecording?.(meetingId, new Uint8Array(buffer)))
+        .catch(error => console.error('Error forwarding recording chunk:', error));
+    };
+
+    recorder.start(CHUNK_INTERVAL_MS);
+    activeRef.current = active;
+    setIsRecording(true);
+    return true;
+  }, []);
+
+  // Stops the recording and returns its metadata for the meeting record
+  const stopRecording = useCallback(async (): Promise<MeetingRecording | null> => {
+    const active = activeRef.current;
+    if (!active) return null;
+    activeRef.current = null;
+    setIsRecording(false);
+
+    const stoppedAt = Date.now();
+    if (active.pausedAt !== null) {
+      active.pauses.push({ start: active.pausedAt, end: stoppedAt });
+    }
+    if (active.recorder.state !== 'inactive') {
+      await new Promise<void>(resolve => {
+        active.recorder.addEventListener('stop', () => resolve(), { once: true });
+        active.recorder.stop();
+      });
+    }
+    await active.pendingChunk;
+    active.audioContext.close().catch(() => {});
+
+    const result = await window.electron?.stopMeetingRecording?.(active.meetingId);
+    return {
+      filePath: result?.filePath ?? active.filePath,
+      mimeType: active.recorder.mimeType || 'audio/webm',
+      startedAt: active.startedAt,
+      durationMs: active.pauses.reduce(
+        (duration, pause) => duration - (pause.end - pause.start),
+        stoppedAt - active.startedAt
+      ),
+      bytes: result?.bytes ?? 0,
+      pauses: active.pauses,
+    };
+  }, []);
+
+  // Pauses and resumes with the meeting; the pauses are kept so transcript
+  // timestamps can still be mapped onto the audio
+  const setRecordingPaused = useCallback((paused: boolean) => {
+    const active = activeRef.current;
+    if (!active) return;
+    if (paused && active.recorder.state === 'recording') {
+      active.recorder.pause();
+      active.pausedAt = Date.now();
+    }
+    if (!paused && active.recorder.state === 'paused') {
+      active.recorder.resume();
+      if (active.pausedAt !== null) {
+        active.pauses.push({ start: active.pausedAt, end: Date.now() });
+      }
+      active.pausedAt = null;
+    }
+  }, []);
+
+  return {
+    isRecording,
+    startRecording,
+    stopRecording,
+    setRecordingPaused,
+  };
+};
@@ -0,0 +1,129 @@
+import { useState, useCallback, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { postCallSummary } from '@/services/agentApiFunction';
+import { Template } from '@/services/templatesFunction';
+import { LeadScoringQuestionStatus } from '@/types/agent/lead-scoring.types';
+import { PostCallSummaryRequest, PostCallSummaryResponse } from '@/types/agent/post-call-summary.types';
+import { UseCase, PainPoint } from '@/types/agent/call-card-create.types';
+import { MeetingSummary } from '@/types/meeting-record';
+import { TranscriptEntry, TranscriptSpeaker } from '@/types/transcript';
+import { toLeadScoringTurns } from '@/utils/transcriptUtils';
+import { FrameworkProgress, FrameworkQuestion } from '../components/meeting/call-framework-progress-tab';
+
+// Manual framework statuses expressed in the agent's vocabulary
+const toAgentStatus = (status: FrameworkQuestion['status']): LeadScoringQuestionStatus => {
+  switch (status) {
+    case 'completed':
+      return 'answered_by_buyer';
+    case 'in-progress':
+      return 'partial_or_unclear';
+    case 'pending':
+      return 'unanswered';
+    default:
+      return status;
+  }
+};
+
+const toMeetingSummary = (response: PostCallSummaryResponse): MeetingSummary => ({
+  summary: response.summary,
+  keyPoints: response.keyPoints ?? [],
+  nextSteps: (response.nextSteps ?? []).map(step => ({
+    id: uuidv4(),
+    action: step.action,
+    owner: step.owner,
+    dueDate: step.dueDate,
+  })),
+  generatedAt: new Date().toISOString(),
+});
+
+export const createEmptyMeetingSummary = (): MeetingSummary => ({
+  summary: '',
+  keyPoints: [],
+  nextSteps: [],
+  generatedAt: null,
+});
+
+interface UsePostCallSummaryOptions {
+  template: Template | null;
+  frameworkProgress: FrameworkProgress | null;
+  transcriptEntries: TranscriptEntry[];
+  speakers: Record<string, TranscriptSpeaker>;
+}
+
+/**
+ * Post-call summary for the Actions tab.
+ *
+ * Generated once the rep ends the call from the full transcript, the call
+ * card's use cases/pain points and the final framework results; the rep edits
+ * the draft before confirming the meeting.
+ */
+export const usePostCallSummary = ({
+  template,
+  frameworkProgress,
+  transcriptEntries,
+  speakers
+}: UsePostCallSummaryOptions) => {
+  const [summary, setSummary] = useState<MeetingSummary | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const generationRef = useRef(0); // Bumped on reset so late responses are dropped
+
+  const generateSummary = useCallback(async (): Promise<MeetingSummary | null> => {
+    const turns = toLeadScoringTurns(transcriptEntries, speakers);
+    if (turns.length === 0) {
+      const empty = createEmptyMeetingSummary();
+      setSummary(empty);
+      return empty;
+    }
+
+    const content = template?.content as any;
+    const toTopic = (item: UseCase | PainPoint) => ({ title: item.title, description: item.description });
+    const request: PostCallSummaryRequest = {
+      transcript: { turns },
+      callCard: {
+        useCases: (content?.useCases || []).map(toTopic),
+        painPoints: (content?.painPoints || []).map(toTopic),
+      },
+      framework: frameworkProgress
+        ? {
+            name: frameworkProgress.name,
+            questions: frameworkProgress.questions.map(q => ({
+              question: q.question,
+              status: toAgentStatus(q.status),
+              evidence: q.evidence,
+            })),
+          }
+        : null,
+    };
+
+    const generation = generationRef.current;
+    setIsGenerating(true);
+    try {
+      const result = toMeetingSummary(await postCallSummary(request));
+      if (generation !== generationRef.current) return null;
+      setSummary(result);
+      return result;
+    } catch (error) {
+      if (generation !== generationRef.current) return null;
+      console.error('Post-call summary failed:', error);
+      // Leave an empty draft so the rep can still write the summary by hand
+      setSummary(prev => prev ?? createEmptyMeetingSummary());
+      return null;
+    } finally {
+      if (generation === generationRef.current) setIsGenerating(false);
+    }
+  }, [template, frameworkProgress, transcriptEntries, speakers]);
+
+  const resetSummary = useCallback(() => {
+    generationRef.current += 1;
+    setSummary(null);
+    setIsGenerating(false);
+  }, []);
+
+  return {
+    summary,
+    setSummary,
+    isGenerating,
+    generateSummary,
+    resetSummary
+  };
+};
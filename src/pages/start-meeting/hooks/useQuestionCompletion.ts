@@ -1,5 +1,6 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useChecklistStore } from '@/store/checklistStore';
+import { ChecklistCompletion, ChecklistItem } from '@/types/meetingTemplates';
 
 interface Question {
   id: string;
@@ -8,15 +9,19 @@ interface Question {
 
 interface CompletedQuestion extends Question {
   status: 'asked' | 'skipped';
+  completion?: ChecklistCompletion;
 }
 
 export const useQuestionCompletion = () => {
   const toggleItemInStore = useChecklistStore((state) => state.toggleItem);
   const markItemsCompleteInStore = useChecklistStore((state) => state.markItemsComplete);
+  const reopenItemInStore = useChecklistStore((state) => state.reopenItem);
 
   const [completedQuestions, setCompletedQuestions] = useState<CompletedQuestion[]>([]);
   const [animatingQuestions, setAnimatingQuestions] = useState<Set<string>>(new Set());
   const [recentlyCompleted, setRecentlyCompleted] = useState<Set<string>>(new Set());
+  // Animation timers still pending per question, so an undo can cancel them
+  const pendingTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>[]>());
 
   const updateAnimatingQuestions = useCallback((id: string, isAnimating: boolean) => {
     setAnimatingQuestions(prev => {
@@ -42,41 +47,72 @@ export const useQuestionCompletion = () => {
     });
   }, []);
 
-  const completeQuestion = useCallback((question: Question, status: 'asked' | 'skipped') => {
-    updateAnimatingQuestions(question.id, true);
+  // Animates a question out of the open list, running `complete` once the animation ends
+  const animateCompletion = useCallback((id: string, complete: () => void) => {
+    updateAnimatingQuestions(id, true);
 
-    setTimeout(() => {
-      updateRecentlyCompleted(question.id, true);
-      toggleItemInStore(question.id);
-      setCompletedQuestions(prev => [...prev, { ...question, status }]);
-      updateAnimatingQuestions(question.id, false);
-    }, 1100);
+    pendingTimersRef.current.set(id, [
+      setTimeout(() => {
+        updateRecentlyCompleted(id, true);
+        complete();
+        updateAnimatingQuestions(id, false);
+      }, 1100),
+      setTimeout(() => {
+        updateRecentlyCompleted(id, false);
+        pendingTimersRef.current.delete(id);
+      }, 2000),
+    ]);
+  }, [updateAnimatingQuestions, updateRecentlyCompleted]);
+
+  const completeQuestion = useCallback((
+    question: Question,
+    status: 'asked' | 'skipped',
+    details?: { note?: string; turnId?: number }
+  ) => {
+    // Already on its way out of the open list
+    if (pendingTimersRef.current.has(question.id)) return;
 
-    setTimeout(() => {
-      updateRecentlyCompleted(question.id, false);
-    }, 2000);
-  }, [toggleItemInStore, updateAnimatingQuestions, updateRecentlyCompleted]);
+    animateCompletion(question.id, () => {
+      toggleItemInStore(question.id, { outcome: status, ...details });
+      setCompletedQuestions(prev => [...prev, { ...question, status }]);
+    });
+  }, [toggleItemInStore, animateCompletion]);
 
-  const autoCompleteQuestions = useCallback((questions: Question[]) => {
+  const autoCompleteQuestions = useCallback((questions: Question[], completion?: ChecklistCompletion) => {
     const questionIds = questions.map(q => q.id);
-    markItemsCompleteInStore(questionIds);
+    markItemsCompleteInStore(questionIds, completion);
 
     questions.forEach(question => {
-        updateAnimatingQuestions(question.id, true);
-        
-        setTimeout(() => {
-          updateRecentlyCompleted(question.id, true);
-          setCompletedQuestions(prev => [...prev, { ...question, status: 'asked' }]);
-          updateAnimatingQuestions(question.id, false);
-        }, 1100);
-
-        setTimeout(() => {
-          updateRecentlyCompleted(question.id, false);
-        }, 2000);
+      animateCompletion(question.id, () => {
+        setCompletedQuestions(prev => [...prev, { ...question, status: 'asked', completion }]);
+      });
     });
-  }, [markItemsCompleteInStore, updateAnimatingQuestions, updateRecentlyCompleted]);
+  }, [markItemsCompleteInStore, animateCompletion]);
   
+  // Reverts a completion (e.g. a wrong auto-match) so the question is open again
+  const undoCompletion = useCallback((id: string) => {
+    pendingTimersRef.current.get(id)?.forEach(clearTimeout);
+    pendingTimersRef.current.delete(id);
+    updateAnimatingQuestions(id, false);
+    updateRecentlyCompleted(id, false);
+
+    reopenItemInStore(id);
+    setCompletedQuestions(prev => prev.filter(q => q.id !== id));
+  }, [reopenItemInStore, updateAnimatingQuestions, updateRecentlyCompleted]);
+
+  // Rebuilds the completed list from checklist items restored after a crash
+  const restoreQuestionCompletion = useCallback((completedItems: ChecklistItem[]) => {
+    setCompletedQuestions(completedItems.map(item => ({
+      id: item.id,
+      text: item.text,
+      status: item.completion?.outcome ?? 'asked',
+      completion: item.completion,
+    })));
+  }, []);
+
   const resetQuestionCompletion = useCallback(() => {
+    pendingTimersRef.current.forEach(timers => timers.forEach(clearTimeout));
+    pendingTimersRef.current.clear();
     setCompletedQuestions([]);
     setAnimatingQuestions(new Set());
     setRecentlyCompleted(new Set());
@@ -88,6 +124,8 @@ export const useQuestionCompletion = () => {
     recentlyCompleted,
     completeQuestion,
     autoCompleteQuestions,
+    undoCompletion,
+    restoreQuestionCompletion,
     resetQuestionCompletion,
   };
 }; 
\ No newline at end of file
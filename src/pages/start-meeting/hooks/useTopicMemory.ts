@@ -1,15 +1,27 @@
 import { useState, useCallback, useEffect } from 'react';
 import { ClassifyTextResponse } from '@/types/text-classifier';
-import { ActiveTopic } from '../components/meeting/active-topics-display';
 
 const MEMORY_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
 const CONFIDENCE_THRESHOLD = 0.4; // 40% minimum confidence
 const MAX_TOPICS = 3; // Maximum number of active topics to show
 
+type TopicType = 'useCase' | 'painPoint' | 'section';
+
+export interface ActiveTopic {
+  id: string;
+  title: string;
+  type: TopicType;
+  confidence: number;
+  matchCount: number;
+  lastMentioned: number;
+  questions: string[];
+  isLive: boolean; // Active in the latest classification, possibly alongside others
+}
+
 interface TopicMemoryEntry {
   id: string;
   title: string;
-  type: 'useCase' | 'painPoint' | 'section';
+  type: TopicType;
   confidenceScores: number[];
   matchCount: number;
   lastMentioned: number;
@@ -18,6 +30,7 @@ interface TopicMemoryEntry {
 
 export const useTopicMemory = () => {
   const [topicMemory, setTopicMemory] = useState<Map<string, TopicMemoryEntry>>(new Map());
+  const [liveTopicIds, setLiveTopicIds] = useState<Set<string>>(new Set());
 
   // Clean up old topics
   const cleanupOldTopics = useCallback(() => {
@@ -39,48 +52,45 @@ export const useTopicMemory = () => {
     return () => clearInterval(interval);
   }, [cleanupOldTopics]);
 
-  // Update topic memory with new classification
+  // Update topic memory with new classification; every concurrently active
+  // topic is remembered, not just the primary one
   const updateTopicMemory = useCallback((classification: ClassifyTextResponse | null) => {
-    if (!classification || classification.score < CONFIDENCE_THRESHOLD) return;
+    if (!classification) return;
+
+    const liveTopics = classification.activeTopics.filter(topic => topic.score >= CONFIDENCE_THRESHOLD);
+    setLiveTopicIds(new Set(liveTopics.map(topic => topic.label)));
+    if (liveTopics.length === 0) return;
 
     setTopicMemory(prev => {
       const newMemory = new Map(prev);
-      const topicId = classification.label;
-
-      // Determine topic type based on label
-      let type: 'useCase' | 'painPoint' | 'section';
-      if (classification.label.includes('pain_point') || classification.label.includes('negative')) {
-        type = 'painPoint';
-      } else if (classification.label.includes('use_case') || classification.label.includes('positive')) {
-        type = 'useCase';
-      } else {
-        type = 'section';
-      }
-
-      // Get or create topic entry
-      const existingEntry = newMemory.get(topicId);
-      if (existingEntry) {
-        existingEntry.confidenceScores.push(classification.score);
-        existingEntry.matchCount++;
-        existingEntry.lastMentioned = Date.now();
-        // Keep only last 10 confidence scores
-        if (existingEntry.confidenceScores.length > 10) {
-          existingEntry.confidenceScores = existingEntry.confidenceScores.slice(-10);
+      const now = Date.now();
+
+      liveTopics.forEach(({ label, score }) => {
+        const type = getTopicType(label);
+
+        // Get or create topic entry
+        const existingEntry = newMemory.get(label);
+        if (existingEntry) {
+          newMemory.set(label, {
+            ...existingEntry,
+            // Keep only last 10 confidence scores
+            confidenceScores: [...existingEntry.confidenceScores, score].slice(-10),
+            matchCount: existingEntry.matchCount + 1,
+            lastMentioned: now,
+          });
+        } else {
+          // Create new entry
+          newMemory.set(label, {
+            id: label,
+            title: getTopicTitle(label),
+            type,
+            confidenceScores: [score],
+            matchCount: 1,
+            lastMentioned: now,
+            questions: generateQuestionsForTopic(label, type)
+          });
         }
-      } else {
-        // Create new entry
-        newMemory.set(topicId, {
-          id: topicId,
-          title: classification.label.split('_').map(word => 
-            word.charAt(0).toUpperCase() + word.slice(1)
-          ).join(' '),
-          type,
-          confidenceScores: [classification.score],
-          matchCount: 1,
-          lastMentioned: Date.now(),
-          questions: generateQuestionsForTopic(classification.label, type)
-        });
-      }
+      });
 
       return newMemory;
     });
@@ -103,16 +113,17 @@ export const useTopicMemory = () => {
           confidence: avgConfidence,
           matchCount: entry.matchCount,
           lastMentioned: entry.lastMentioned,
-          questions: entry.questions
+          questions: entry.questions,
+          isLive: liveTopicIds.has(entry.id)
         });
       }
     }
 
-    // Sort by confidence and limit to MAX_TOPICS
+    // Live topics first, then by confidence; limit to MAX_TOPICS
     return topics
-      .sort((a, b) => b.confidence - a.confidence)
+      .sort((a, b) => Number(b.isLive) - Number(a.isLive) || b.confidence - a.confidence)
       .slice(0, MAX_TOPICS);
-  }, [topicMemory]);
+  }, [topicMemory, liveTopicIds]);
 
   return {
     updateTopicMemory,
@@ -120,8 +131,29 @@ export const useTopicMemory = () => {
   };
 };
 
+// Topic labels come from the call card as "Use case: <title>" / "Pain point: <title>";
+// the snake_case forms are older classifier labels
+function getTopicType(label: string): TopicType {
+  if (label.startsWith('Pain point:') || label.includes('pain_point') || label.includes('negative')) {
+    return 'painPoint';
+  }
+  if (label.startsWith('Use case:') || label.includes('use_case') || label.includes('positive')) {
+    return 'useCase';
+  }
+  return 'section';
+}
+
+function getTopicTitle(label: string): string {
+  const prefixed = label.match(/^(?:Use case|Pain point):\s*(.+)$/);
+  if (prefixed) return prefixed[1];
+
+  return label.split('_').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+}
+
 // Helper function to generate relevant questions based on topic type
-function generateQuestionsForTopic(label: string, type: 'useCase' | 'painPoint' | 'section'): string[] {
+function generateQuestionsForTopic(label: string, type: TopicType): string[] {
   const baseQuestions = {
     useCase: [
       'What specific requirements do you have for this use case?',
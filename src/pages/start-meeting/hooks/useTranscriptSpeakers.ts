@@ -0,0 +1,58 @@
+import { useState, useCallback, useRef } from 'react';
+import { TranscriptChannel, TranscriptSpeaker } from '@/types/transcript';
+import { getSpeakerId, getDefaultSpeakerName } from '@/utils/transcriptUtils';
+
+/**
+ * Tracks the diarized speakers seen in the current meeting and the names the
+ * rep has given them. Speakers are registered lazily as turns arrive.
+ */
+export const useTranscriptSpeakers = () => {
+  const [speakers, setSpeakers] = useState<Record<string, TranscriptSpeaker>>({});
+  // Mirror of `speakers` so transcript callbacks can read names without re-subscribing
+  const speakersRef = useRef<Record<string, TranscriptSpeaker>>({});
+
+  const updateSpeakers = useCallback((updater: (prev: Record<string, TranscriptSpeaker>) => Record<string, TranscriptSpeaker>) => {
+    setSpeakers(prev => {
+      const next = updater(prev);
+      speakersRef.current = next;
+      return next;
+    });
+  }, []);
+
+  const registerSpeaker = useCallback((channel: TranscriptChannel, speakerIndex: number) => {
+    const id = getSpeakerId(channel, speakerIndex);
+    if (!speakersRef.current[id]) {
+      const speaker = { id, channel, name: getDefaultSpeakerName(channel, speakerIndex) };
+      speakersRef.current = { ...speakersRef.current, [id]: speaker };
+      updateSpeakers(prev => (prev[id] ? prev : { ...prev, [id]: speaker }));
+    }
+    return id;
+  }, [updateSpeakers]);
+
+  const renameSpeaker = useCallback((speakerId: string, name: string, attendeeEmail?: string) => {
+    updateSpeakers(prev => {
+      const speaker = prev[speakerId];
+      if (!speaker) return prev;
+      return { ...prev, [speakerId]: { ...speaker, name, attendeeEmail } };
+    });
+  }, [updateSpeakers]);
+
+  const resetSpeakers = useCallback(() => {
+    speakersRef.current = {};
+    setSpeakers({});
+  }, []);
+
+  const restoreSpeakers = useCallback((restored: Record<string, TranscriptSpeaker>) => {
+    speakersRef.current = restored;
+    setSpeakers(restored);
+  }, []);
+
+  return {
+    speakers,
+    speakersRef,
+    registerSpeaker,
+    renameSpeaker,
+    resetSpeakers,
+    restoreSpeakers
+  };
+};
@@ -3,10 +3,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useSidebar } from '@/components/Sidebar';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { throttle } from 'lodash';
-
-// Constants
-const ANALYSIS_THROTTLE_MS = 5000; // 5 seconds throttle for transcript analysis
+import { Json } from '@/integrations/supabase/types';
+import { useSearchParams } from 'react-router-dom';
 
 // Hooks
 import { useTemplates } from '@/hooks/useTemplates';
@@ -14,6 +12,12 @@ import { useMeetingState } from '@/hooks/useMeetingState';
 import { useMeetingTimer } from '@/hooks/useMeetingTimer';
 import { useChecklistStore } from '@/store/checklistStore';
 import { useQuestionCompletion } from './hooks/useQuestionCompletion';
+import { useAutoChecklistCompletion } from './hooks/useAutoChecklistCompletion';
+import { useTranscriptSpeakers } from './hooks/useTranscriptSpeakers';
+import { useLeadScoring } from './hooks/useLeadScoring';
+import { usePostCallSummary, createEmptyMeetingSummary } from './hooks/usePostCallSummary';
+import { useMeetingJournal } from './hooks/useMeetingJournal';
+import { useMeetingRecording } from './hooks/useMeetingRecording';
 
 // Components
 // Meeting selector removed as meetings are now started from calendar page
@@ -27,7 +31,7 @@ import { useAutoStartHandler } from './components/auto-start-handler';
 import MeetingStartSkeleton from './components/meeting-start-skeleton';
 
 // Text classification types
-import { ClassifyTextResponse, ClassifyTextRequest } from '@/types/text-classifier';
+import { ClassifyTextResponse, ClassifyTextRequest, ChecklistQuestionAnswered } from '@/types/text-classifier';
 import { v4 as uuidv4 } from 'uuid';
 
 // Transcription service
@@ -39,12 +43,21 @@ import {
   resumeTranscription,
   TranscriptionServiceRefs,
 } from '../../services/deepgram-service';
+import { fetchCalendarEvent, CalendarAttendee } from '@/services/google-calendar-api-function';
 
 // Agent API functions
 
+// Meeting records
+import { createMeeting, updateMeeting, CreateMeeting } from '@/services/meetings-api-function';
+import { resolveTranscriptionEngine } from '@/utils/transcriptionSettings';
+
 // Types
 import { ChecklistItem } from '@/types/meetingTemplates';
-import { FrameworkProgress } from './components/meeting/call-framework-progress-tab';
+import { TranscriptEntry, TranscriptChannel, TranscriptionResult } from '@/types/transcript';
+import { resolveSpeakerName, splitResultBySpeaker } from '@/utils/transcriptUtils';
+import { MeetingChecklistSnapshot, MeetingRecording, MeetingSummary } from '@/types/meeting-record';
+import { MeetingJournalSnapshot } from '@/types/meeting-journal';
+import { CallFramework, FrameworkProgress } from './components/meeting/call-framework-progress-tab';
 
 
 // Type declarations for Electron-specific window features
@@ -54,21 +67,26 @@ declare global {
   }
 }
 
-// Define the type for transcript entries
-interface TranscriptEntry {
-  timestamp: number; // Store as milliseconds since epoch
-  text: string;
-  isFinal: boolean;
-  speaker?: string; // 'User' for mic, 'Speaker' for system loopback
-}
-
 const StartMeetingPage: React.FC = () => {
   const { isCollapsed, setIsCollapsed, setIsMeetingActive } = useSidebar();
-
-  // For debugging audio capture
-  const [isLocalRecording, setIsLocalRecording] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
+  const [searchParams] = useSearchParams();
+  const calendarEventId = searchParams.get('eventId');
+  // Set when resuming a meeting interrupted by a reload or crash
+  const resumeMeetingId = searchParams.get('resume');
+  const transcriptionEngine = resolveTranscriptionEngine(searchParams.get('engine'));
+  const [isSavingMeeting, setIsSavingMeeting] = useState(false);
+  // Set once the rep ends the call; the meeting stays open for the summary until confirmed
+  const [isCallEnded, setIsCallEnded] = useState(false);
+  const [savedMeetingId, setSavedMeetingId] = useState<string | null>(null);
+
+  // Opt-in audio recording of the call; linked to the meeting record when it ends
+  const {
+    isRecording: isMeetingRecording,
+    startRecording,
+    stopRecording,
+    setRecordingPaused
+  } = useMeetingRecording();
+  const [meetingRecording, setMeetingRecording] = useState<MeetingRecording | null>(null);
 
   // Template management
   const {
@@ -88,6 +106,7 @@ const StartMeetingPage: React.FC = () => {
     isMeetingStarting,
     setIsMeetingComplete,
     startMeeting,
+    restoreMeeting,
     stopMeeting,
     pauseMeeting,
     resumeMeeting,
@@ -114,7 +133,9 @@ const StartMeetingPage: React.FC = () => {
     toggleItem,
     resetSectionChecklist,
     resetAllChecklists,
-    markItemsComplete
+    restoreChecklists,
+    markItemsComplete,
+    setItemNote
   } = useChecklistStore();
 
   // Question completion and animation state
@@ -124,9 +145,42 @@ const StartMeetingPage: React.FC = () => {
     recentlyCompleted,
     completeQuestion,
     autoCompleteQuestions,
+    undoCompletion,
+    restoreQuestionCompletion,
     resetQuestionCompletion
   } = useQuestionCompletion();
 
+  // Diarized speakers and their attendee names
+  const {
+    speakers,
+    speakersRef,
+    registerSpeaker,
+    renameSpeaker,
+    resetSpeakers,
+    restoreSpeakers
+  } = useTranscriptSpeakers();
+  const [attendees, setAttendees] = useState<CalendarAttendee[]>([]);
+
+  // Load attendees of the linked calendar event so speakers can be renamed to them
+  useEffect(() => {
+    if (!calendarEventId) {
+      setAttendees([]);
+      return;
+    }
+
+    let isCancelled = false;
+    fetchCalendarEvent(calendarEventId)
+      .then(event => {
+        if (isCancelled) return;
+        setAttendees(Array.isArray(event.attendees) ? (event.attendees as unknown as CalendarAttendee[]) : []);
+      })
+      .catch(error => console.error('Error loading event attendees:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [calendarEventId]);
+
   // Auto-start handler
   const { hasAttemptedAutoStart, isAutoStarting } = useAutoStartHandler({
     templates,
@@ -194,6 +248,7 @@ const StartMeetingPage: React.FC = () => {
     timer,
     sectionTimer,
     resetTimer,
+    restoreTimer,
     resetSectionTime
   } = useMeetingTimer({
     isRunning: activeMeeting?.isRunning || false,
@@ -217,6 +272,7 @@ const StartMeetingPage: React.FC = () => {
   const [transcriptEntries, setTranscriptEntries] = useState<TranscriptEntry[]>([]); // Final and interim entries
   const [lastSavedTranscriptId, setLastSavedTranscriptId] = useState<string | null>(null);
   const prevTranscribedTextRef = useRef<string>(''); // Ref to track previous text
+  const nextTurnIdRef = useRef<number>(0); // Monotonic turn id for the current meeting
   const [accessToken, setAccessToken] = useState<string | null>(null); // State for Supabase token
   const fullTranscriptRef = useRef<string>(''); // Ref to track the full transcript
   const [isTranscribing, setIsTranscribing] = useState(false); // any stream sending
@@ -246,46 +302,44 @@ const StartMeetingPage: React.FC = () => {
 
   // Handle pause/resume functionality
   const handlePauseResume = useCallback(() => {
-    if (!activeMeeting) return;
+    if (!activeMeeting || isCallEnded) return;
     
     if (activeMeeting.isRunning) {
       pauseMeeting();
     } else {
+      // Resuming is the manual restart for flows that failed
+      micRefs.current.hasFailedRef.current = false;
+      sysRefs.current.hasFailedRef.current = false;
       resumeMeeting();
     }
-  }, [activeMeeting, pauseMeeting, resumeMeeting]);
+  }, [activeMeeting, isCallEnded, pauseMeeting, resumeMeeting]);
 
   // Determine if meeting is paused
   const isPaused = activeMeeting && !activeMeeting.isRunning;
 
+  // Keep the recording in step with the meeting clock, so playback lines up with the transcript
+  useEffect(() => {
+    setRecordingPaused(!activeMeeting?.isRunning);
+  }, [activeMeeting?.isRunning, setRecordingPaused]);
+
   // Audio processing references (dual flows: mic + system)
   const micRefs = useRef<TranscriptionServiceRefs>({
     audioStreamRef: { current: null },
-    webSocketRef: { current: null } as any,
     audioContextRef: { current: null },
     processorNodeRef: { current: null },
     isConnectionActiveRef: { current: false },
-    reconnectTimerRef: { current: null },
-    connectionTimeoutRef: { current: null },
-    attemptCountRef: { current: 0 },
-    connectionMetricsRef: { current: { consecutiveFailures: 0, totalReconnects: 0 } as any },
-    lastHeartbeatRef: { current: Date.now() },
-    heartbeatIntervalRef: { current: null },
-    finalTranscriptPartsRef: { current: [] },
+    providerRef: { current: null },
+    providerUnsubscribeRef: { current: null },
+    hasFailedRef: { current: false },
   });
   const sysRefs = useRef<TranscriptionServiceRefs>({
     audioStreamRef: { current: null },
-    webSocketRef: { current: null } as any,
     audioContextRef: { current: null },
     processorNodeRef: { current: null },
     isConnectionActiveRef: { current: false },
-    reconnectTimerRef: { current: null },
-    connectionTimeoutRef: { current: null },
-    attemptCountRef: { current: 0 },
-    connectionMetricsRef: { current: { consecutiveFailures: 0, totalReconnects: 0 } as any },
-    lastHeartbeatRef: { current: Date.now() },
-    heartbeatIntervalRef: { current: null },
-    finalTranscriptPartsRef: { current: [] },
+    providerRef: { current: null },
+    providerUnsubscribeRef: { current: null },
+    hasFailedRef: { current: false },
   });
 
   // Expose debug functions to window for the Deepgram service
@@ -350,8 +404,18 @@ const StartMeetingPage: React.FC = () => {
   // Add state for framework progress
   const [frameworkProgress, setFrameworkProgress] = useState<FrameworkProgress | null>(null);
 
+  // Progress restored from a meeting journal, applied once its template is active
+  const restoredFrameworkProgressRef = useRef<{ templateId: string; progress: FrameworkProgress | null } | null>(null);
+
   // Initialize framework progress when active template changes
   useEffect(() => {
+    const restored = restoredFrameworkProgressRef.current;
+    restoredFrameworkProgressRef.current = null;
+    if (restored && restored.templateId === activeTemplate?.template_id) {
+      setFrameworkProgress(restored.progress);
+      return;
+    }
+
     if (activeTemplate?.sales_framework) {
       const framework = activeTemplate.sales_framework as any;
       const initialProgress = {
@@ -372,31 +436,146 @@ const StartMeetingPage: React.FC = () => {
       };
       setFrameworkProgress(initialProgress);
     }
-  }, [activeTemplate?.sales_framework]);
+  }, [activeTemplate?.template_id, activeTemplate?.sales_framework]);
 
-  // Function to handle transcript analysis - now disabled as the endpoint has been removed
-  const handleTranscriptAnalysis = useCallback(async (transcript: string) => {
-    // This functionality has been removed as the check-answered-questions endpoint was deprecated
-    // No need to show errors to users since this is an internal change
-    // If we want to re-enable this in the future, we'll need to implement a new solution
-    
-    return;
-  }, []);
+  // Live lead scoring against the sales framework
+  const {
+    isScoring,
+    scheduleScoring,
+    scoreNow,
+    resetLeadScoring
+  } = useLeadScoring({
+    framework: (activeTemplate?.sales_framework as unknown as CallFramework) ?? null,
+    frameworkProgress,
+    setFrameworkProgress,
+    transcriptEntries,
+    speakers,
+    isRunning: activeMeeting?.isRunning || false
+  });
 
-  const throttledAnalysis = useMemo(
-    () => throttle(handleTranscriptAnalysis, ANALYSIS_THROTTLE_MS, { leading: true, trailing: true }),
-    [handleTranscriptAnalysis]
-  );
+  // Post-call summary for the Actions tab
+  const {
+    summary,
+    setSummary,
+    isGenerating: isGeneratingSummary,
+    generateSummary,
+    resetSummary
+  } = usePostCallSummary({
+    template: activeTemplate,
+    frameworkProgress,
+    transcriptEntries,
+    speakers
+  });
+
+  // Journal the live meeting so it can be resumed after a reload or crash
+  useMeetingJournal({
+    meetingId: activeMeeting?.id,
+    isJournaling: !isCallEnded,
+    buildSnapshot: (): MeetingJournalSnapshot | null => {
+      if (!activeMeeting) return null;
+      const { sections: checklistSections, currentSectionId: checklistSectionId, sectionDefinitions } = useChecklistStore.getState();
+      return {
+        meeting: activeMeeting,
+        title: activeTemplate?.template_name || 'Untitled meeting',
+        calendarEventId,
+        elapsedSeconds: timer,
+        transcriptEntries: transcriptEntries.filter(entry => entry.isFinal),
+        nextTurnId: nextTurnIdRef.current,
+        speakers: speakersRef.current,
+        checklist: { sections: checklistSections, currentSectionId: checklistSectionId, sectionDefinitions },
+        frameworkProgress,
+      };
+    },
+  });
+
+  // Resume an interrupted meeting from its journal (?resume=<meetingId>)
+  const resumedMeetingIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!resumeMeetingId || resumedMeetingIdRef.current === resumeMeetingId || isLoading || templates.length === 0) return;
+    resumedMeetingIdRef.current = resumeMeetingId;
+
+    const resume = async () => {
+      const snapshot = await window.electron?.getMeetingJournal?.(resumeMeetingId);
+      if (!snapshot) {
+        toast.error('The interrupted meeting could not be restored');
+        return;
+      }
+
+      // Keep the template switch from re-initializing the journaled progress
+      restoredFrameworkProgressRef.current = {
+        templateId: snapshot.meeting.templateId,
+        progress: snapshot.frameworkProgress,
+      };
+      await selectTemplate(snapshot.meeting.templateId);
+      restoreChecklists(snapshot.checklist);
+      restoreQuestionCompletion(
+        Object.values(snapshot.checklist.sections).flatMap(section => section.completedItems)
+      );
+      setTranscriptEntries(snapshot.transcriptEntries);
+      fullTranscriptRef.current = snapshot.transcriptEntries.map(entry => entry.text).join(' ');
+      nextTurnIdRef.current = snapshot.nextTurnId;
+      restoreSpeakers(snapshot.speakers);
+      setFrameworkProgress(snapshot.frameworkProgress);
+      restoreTimer(snapshot.elapsedSeconds);
+      restoreMeeting({ ...snapshot.meeting, elapsedTime: snapshot.elapsedSeconds, isRunning: true });
+      toast.success('Meeting resumed');
+    };
+
+    resume().catch(error => {
+      console.error('Error resuming meeting:', error);
+      toast.error('The interrupted meeting could not be restored');
+    });
+  }, [resumeMeetingId, isLoading, templates.length, selectTemplate, restoreChecklists, restoreQuestionCompletion, restoreSpeakers, restoreTimer, restoreMeeting]);
+
+  // Each meeting classifies in its own session (topics, EMA and hysteresis
+  // state); the ref keeps the classify callback stable across meetings
+  const meetingId = activeMeeting?.id;
+  const classifierSessionIdRef = useRef<string | undefined>(meetingId);
+  classifierSessionIdRef.current = meetingId;
 
   useEffect(() => {
+    if (!meetingId) return;
     return () => {
-      throttledAnalysis.cancel();
+      window.electron?.disposeClassifierSession?.(meetingId);
     };
-  }, [throttledAnalysis]);
+  }, [meetingId]);
+
+  // Auto-complete checklist questions the rep asks and the prospect answers
+  const openQuestions = useMemo(
+    () => Object.values(sections).flatMap(section => section.checklist),
+    [sections]
+  );
+
+  const handleQuestionsAnswered = useCallback((answered: ChecklistQuestionAnswered[]) => {
+    answered.forEach(match => {
+      const question = openQuestions.find(item => item.id === match.questionId);
+      if (!question) return;
+
+      autoCompleteQuestions([{ id: question.id, text: question.text }], {
+        outcome: 'asked',
+        source: 'auto',
+        completedAt: Date.now(),
+        askedTurnId: match.askedTurnId,
+        answeredTurnId: match.answeredTurnId,
+        turnId: match.answeredTurnId,
+        score: match.score,
+      });
+      toast.success(`Marked as asked: ${question.text}`, {
+        action: { label: 'Undo', onClick: () => undoCompletion(question.id) },
+      });
+    });
+  }, [openQuestions, autoCompleteQuestions, undoCompletion]);
+
+  const { matchTurn } = useAutoChecklistCompletion({
+    meetingId,
+    openQuestions,
+    onAnswered: handleQuestionsAnswered,
+  });
 
   // Function to classify text using the IPC API
   const classifyTranscriptText = useCallback(async (text: string, speaker?: string, isFinal: boolean = true) => {
-    if (!text || !isFinal || !window.electron?.classifyText) return;
+    const sessionId = classifierSessionIdRef.current;
+    if (!text || !isFinal || !sessionId || !window.electron?.classifyText) return;
     
     try {
       setIsClassifying(true);
@@ -405,6 +584,7 @@ const StartMeetingPage: React.FC = () => {
       // Create request object
       const request: ClassifyTextRequest = {
         id: requestId,
+        sessionId,
         text,
         metadata: {
           source: speaker || 'transcript',
@@ -418,7 +598,8 @@ const StartMeetingPage: React.FC = () => {
         throw error;
       });
       
-      if (response) {
+      // A cancelled response was superseded by a newer chunk; keep the current topic
+      if (response && !response.cancelled) {
         setCurrentClassification(response);
       }
     } catch (err) {
@@ -429,62 +610,59 @@ const StartMeetingPage: React.FC = () => {
     }
   }, []);
 
-  const handleTranscriptReceived = useCallback((data: any) => {
-    const transcript = data?.channel?.alternatives?.[0]?.transcript;
-    if (!transcript) {
+  const handleTranscriptReceived = useCallback((result: TranscriptionResult, channel: TranscriptChannel = 'mic') => {
+    const segments = splitResultBySpeaker(result);
+    if (segments.length === 0) {
       return;
     }
 
-    const isFinal = data.is_final === true;
-    const speaker = (data as any).__speaker as string | undefined;
+    const isFinal = result.isFinal;
+    const turns = segments.map(segment => {
+      const speakerId = registerSpeaker(channel, segment.speaker);
+      return {
+        speakerId,
+        channel,
+        text: segment.text,
+        confidence: segment.confidence,
+        words: segment.words,
+        turnId: isFinal ? nextTurnIdRef.current++ : -1,
+      };
+    });
 
     // Handle transcript for UI
     setTranscriptEntries(prevEntries => {
       const newEntries = [...prevEntries];
       const lastEntry = newEntries.length > 0 ? newEntries[newEntries.length - 1] : null;
 
-      if (isFinal) {
-        // If last entry was interim, update it to final
-        if (lastEntry && !lastEntry.isFinal) {
-          lastEntry.text = transcript;
-          lastEntry.isFinal = true;
-          lastEntry.timestamp = Date.now();
-          if (speaker) lastEntry.speaker = speaker;
-        } else {
-          // Otherwise, add a new final entry
-          newEntries.push({
-            text: transcript,
-            isFinal: true,
-            timestamp: Date.now(),
-            speaker,
-          });
-        }
-        // Update the full transcript with the final text
-        fullTranscriptRef.current = fullTranscriptRef.current + ' ' + transcript;
-        // Trigger analysis with the full transcript
-        throttledAnalysis(fullTranscriptRef.current.trim());
-        
-        // Classify the final transcript chunk, not the entire buffer
-        classifyTranscriptText(transcript.trim(), speaker, true);
-
-      } else {
-        // If last entry is interim, update it
-        if (lastEntry && !lastEntry.isFinal) {
-          lastEntry.text = transcript;
-          if (speaker) lastEntry.speaker = speaker;
-        } else {
-          // Otherwise, add a new interim entry
-          newEntries.push({
-            text: transcript,
-            isFinal: false,
-            timestamp: Date.now(),
-            speaker,
-          });
-        }
+      // An interim entry is always superseded by the next result
+      if (lastEntry && !lastEntry.isFinal) {
+        newEntries.pop();
       }
+
+      turns.forEach(turn => {
+        newEntries.push({
+          ...turn,
+          isFinal,
+          timestamp: Date.now(),
+        });
+      });
       return newEntries;
     });
-  }, [throttledAnalysis, classifyTranscriptText]);
+
+    if (isFinal) {
+      const transcript = turns.map(turn => turn.text).join(' ');
+      // Update the full transcript with the final text
+      fullTranscriptRef.current = fullTranscriptRef.current + ' ' + transcript;
+      // Schedule an incremental lead-scoring pass over the new turns
+      scheduleScoring();
+
+      // Classify each final turn, not the entire buffer
+      turns.forEach(turn => {
+        classifyTranscriptText(turn.text.trim(), speakersRef.current[turn.speakerId]?.name, true);
+        matchTurn({ turnId: turn.turnId, channel, text: turn.text });
+      });
+    }
+  }, [scheduleScoring, classifyTranscriptText, matchTurn, registerSpeaker, speakersRef]);
 
   // Cross-stream de-duplication for dual inputs
   const lastMicLineRef = useRef<string>('');
@@ -505,19 +683,13 @@ const StartMeetingPage: React.FC = () => {
   };
 
   const makeDedupedReceiver = useCallback((stream: 'mic' | 'sys') => {
-    return (data: any) => {
+    return (result: TranscriptionResult) => {
       try {
-        const t = data?.channel?.alternatives?.[0]?.transcript as string | undefined;
-        if (!t || !t.trim()) {
+        const t = result.transcript;
+        if (!t || !t.trim() || !result.isFinal) {
           return;
         }
-        
-        const isFinalMessage = typeof data?.is_final === 'boolean' ? data.is_final : true;
-        if (!isFinalMessage) {
-          return;
-        }
-        
-        
+
         if (stream === 'mic') {
           if (lastMicLineRef.current === t || lastSysLineRef.current === t) {
             return;
@@ -538,10 +710,8 @@ const StartMeetingPage: React.FC = () => {
           lastSysLinesRef.current = [t, ...lastSysLinesRef.current].slice(0, 5);
         }
         
-        // Tag speaker before forwarding
-        const tagged = { ...data } as any;
-        tagged.__speaker = stream === 'mic' ? 'User' : 'Speaker';
-        handleTranscriptReceived(tagged);
+        // Speakers within the channel come from diarization
+        handleTranscriptReceived(result, stream === 'mic' ? 'mic' : 'system');
       } catch (error) {
         console.error(`[Transcript:${stream}] Error processing transcript:`, error);
       }
@@ -563,7 +733,7 @@ const StartMeetingPage: React.FC = () => {
         try {
           // Set up transcript update listener
           if (window.electron?.onTranscriptUpdate) {
-            removeTranscriptListener = window.electron.onTranscriptUpdate(handleTranscriptReceived);
+            removeTranscriptListener = window.electron.onTranscriptUpdate(result => handleTranscriptReceived(result));
           }
 
           const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -576,7 +746,8 @@ const StartMeetingPage: React.FC = () => {
           }
 
           const starts: Promise<any>[] = [];
-          if (!micRefs.current.isConnectionActiveRef.current && !isMicRecording) {
+          // Failed flows stay stopped until restarted by hand
+          if (!micRefs.current.isConnectionActiveRef.current && !isMicRecording && !micRefs.current.hasFailedRef.current) {
             starts.push(startMicTranscription(
               setTranscribedText,
               setIsMicRecording,
@@ -584,14 +755,15 @@ const StartMeetingPage: React.FC = () => {
               accessToken,
               makeDedupedReceiver('mic'),
               () => { setIsTranscribing(true); setIsUserTranscribing(true); },
-              handleReconnectionUpdate
+              handleReconnectionUpdate,
+              transcriptionEngine
             ));
           } else if (micRefs.current.audioContextRef.current?.state === 'suspended') {
             await resumeTranscription(micRefs.current);
             setIsTranscribing(true);
             setIsUserTranscribing(true);
           }
-          if (!sysRefs.current.isConnectionActiveRef.current && !isSysRecording) {
+          if (!sysRefs.current.isConnectionActiveRef.current && !isSysRecording && !sysRefs.current.hasFailedRef.current) {
             starts.push(startSystemTranscription(
               setTranscribedText,
               setIsSysRecording,
@@ -599,7 +771,8 @@ const StartMeetingPage: React.FC = () => {
               accessToken,
               makeDedupedReceiver('sys'),
               () => { setIsTranscribing(true); setIsSpeakerTranscribing(true); },
-              handleReconnectionUpdate
+              handleReconnectionUpdate,
+              transcriptionEngine
             ));
           } else if (sysRefs.current.audioContextRef.current?.state === 'suspended') {
             await resumeTranscription(sysRefs.current);
@@ -631,30 +804,20 @@ const StartMeetingPage: React.FC = () => {
         removeTranscriptListener();
       }
     };
-  }, [activeMeeting?.isRunning, accessToken, isMicRecording, isSysRecording, activeMeeting, transcriptEntries.length, makeDedupedReceiver, handleTranscriptReceived]);
+  }, [activeMeeting?.isRunning, accessToken, isMicRecording, isSysRecording, activeMeeting, transcriptEntries.length, makeDedupedReceiver, handleTranscriptReceived, transcriptionEngine]);
 
   // Add effect to handle cleanup when meeting is completely ended (not paused)
   useEffect(() => {
     // Only cleanup when meeting is actually ended (activeMeeting is null), not just paused
     if (!activeMeeting) {
-      // Force stop any reconnection attempts first
-      if (micRefs.current.reconnectTimerRef.current) {
-        clearTimeout(micRefs.current.reconnectTimerRef.current);
-        micRefs.current.reconnectTimerRef.current = null;
-      }
-      
-      if (sysRefs.current.reconnectTimerRef.current) {
-        clearTimeout(sysRefs.current.reconnectTimerRef.current);
-        sysRefs.current.reconnectTimerRef.current = null;
-      }
-      
-      // Set connection inactive flags
-      micRefs.current.isConnectionActiveRef.current = false;
-      sysRefs.current.isConnectionActiveRef.current = false;
-      
-      // Stop transcription if it is currently active
+      // Stop transcription if it is currently active (closing each provider
+      // also cancels any pending reconnection attempts)
       stopMeetingTranscription(setIsMicRecording, micRefs.current);
       stopMeetingTranscription(setIsSysRecording, sysRefs.current);
+      micRefs.current.hasFailedRef.current = false;
+      sysRefs.current.hasFailedRef.current = false;
+      stopRecording();
+      setMeetingRecording(null);
 
       // Reset checklist state
       resetAllChecklists();
@@ -668,6 +831,12 @@ const StartMeetingPage: React.FC = () => {
       prevTranscribedTextRef.current = '';
       setLastSavedTranscriptId(null);
       fullTranscriptRef.current = ''; // Reset the full transcript
+      nextTurnIdRef.current = 0;
+      resetSpeakers();
+      resetLeadScoring();
+      resetSummary();
+      setIsCallEnded(false);
+      setSavedMeetingId(null);
 
       // Clear debug transcript events
       clearTranscriptEvents();
@@ -686,7 +855,7 @@ const StartMeetingPage: React.FC = () => {
       setIsUserTranscribing(false);
       setIsSpeakerTranscribing(false);
     }
-  }, [activeMeeting, resetAllChecklists, resetTimer]);
+  }, [activeMeeting, resetAllChecklists, resetTimer, resetSpeakers, resetLeadScoring, resetSummary, stopRecording]);
 
   // Add cleanup effect when component unmounts
   useEffect(() => {
@@ -694,57 +863,35 @@ const StartMeetingPage: React.FC = () => {
       // Cleanup transcription when component unmounts
       stopMeetingTranscription(setIsMicRecording, micRefs.current);
       stopMeetingTranscription(setIsSysRecording, sysRefs.current);
+      stopRecording();
     };
-  }, []);
+  }, [stopRecording]);
 
-  // Function to toggle local audio recording for debugging
-  const toggleLocalRecording = () => {
-    if (isLocalRecording) {
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-        mediaRecorderRef.current.stop();
-      }
-      setIsLocalRecording(false);
-      toast.info("Stopped local recording. Saving audio file...");
-    } else {
-      const stream = micRefs.current.audioStreamRef.current;
-      if (stream && stream.active) {
-        recordedChunksRef.current = [];
-        const options = { mimeType: 'audio/webm; codecs=opus' };
-        try {
-          mediaRecorderRef.current = new MediaRecorder(stream, options);
-        } catch (e) {
-          console.warn("audio/webm with opus codec not supported, falling back to default.", e);
-          mediaRecorderRef.current = new MediaRecorder(stream);
-        }
+  // Starts or stops recording the call's audio (mic and system audio as stereo)
+  const handleToggleRecording = async () => {
+    if (!activeMeeting || isCallEnded) return;
 
-        mediaRecorderRef.current.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            recordedChunksRef.current.push(event.data);
-          }
-        };
-
-        mediaRecorderRef.current.onstop = () => {
-          const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
-          const blob = new Blob(recordedChunksRef.current, { type: mimeType });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          document.body.appendChild(a);
-          a.style.display = 'none';
-          a.href = url;
-          const extension = mimeType.includes('webm') ? 'webm' : 'wav';
-          a.download = `debug-audio-${new Date().toISOString()}.${extension}`;
-          a.click();
-          window.URL.revokeObjectURL(url);
-          document.body.removeChild(a);
-          toast.success("Debug audio file saved to your downloads folder.");
-        };
-
-        mediaRecorderRef.current.start();
-        setIsLocalRecording(true);
-        toast.info("Started local recording for debugging.");
-      } else {
-        toast.error("Audio stream not available. Please start a meeting first, then try recording.");
+    if (isMeetingRecording) {
+      setMeetingRecording(await stopRecording());
+      toast.info('Recording stopped');
+      return;
+    }
+
+    try {
+      const started = await startRecording(
+        activeMeeting.id,
+        micRefs.current.audioStreamRef.current,
+        sysRefs.current.audioStreamRef.current
+      );
+      if (!started) {
+        toast.error('Recording is only available in the desktop app');
+        return;
       }
+      setRecordingPaused(!activeMeeting.isRunning);
+      toast.success('Recording this meeting');
+    } catch (error) {
+      console.error('Error starting meeting recording:', error);
+      toast.error('Audio not available yet. Wait for transcription to start, then try recording.');
     }
   };
 
@@ -769,6 +916,12 @@ const StartMeetingPage: React.FC = () => {
         prevTranscribedTextRef.current = '';
         setLastSavedTranscriptId(null);
         fullTranscriptRef.current = ''; // Reset the full transcript
+        nextTurnIdRef.current = 0;
+        resetSpeakers();
+        resetLeadScoring();
+        resetSummary();
+        setIsCallEnded(false);
+        setSavedMeetingId(null);
 
         // Clear debug transcript events
         clearTranscriptEvents();
@@ -794,7 +947,101 @@ const StartMeetingPage: React.FC = () => {
     }
   };
 
+  // Full record of the call so far, as stored on the `meetings` row
+  const buildMeetingRecord = (endedAt: number, recording = meetingRecording): CreateMeeting => {
+    // Outcomes live on the items themselves, so they survive section changes
+    const isSkipped = (item: ChecklistItem) => item.completion?.outcome === 'skipped';
+    const checklistSnapshot: MeetingChecklistSnapshot = {
+      completed: completedItems.filter(item => !isSkipped(item)),
+      skipped: completedItems.filter(isSkipped),
+    };
+
+    return {
+      template_id: activeTemplate.template_id,
+      calendar_event_id: calendarEventId,
+      title: activeTemplate.template_name,
+      started_at: new Date(activeMeeting.startTime).toISOString(),
+      ended_at: new Date(endedAt).toISOString(),
+      duration_seconds: Math.round((endedAt - activeMeeting.startTime) / 1000),
+      transcript: transcriptEntries
+        .filter(entry => entry.isFinal)
+        .map(entry => ({ ...entry, speaker: resolveSpeakerName(entry, speakers) })) as unknown as Json,
+      framework_progress: frameworkProgress as unknown as Json,
+      checklist: checklistSnapshot as unknown as Json,
+      recording: recording as unknown as Json,
+    };
+  };
+
+  // Ends the call: stops audio, saves a draft record and generates the summary
+  const handleEndMeeting = async () => {
+    if (!activeMeeting || !activeTemplate || isCallEnded) return;
+
+    setIsCallEnded(true);
+    const recordingStopped = stopRecording();
+    stopMeetingTranscription(setIsMicRecording, micRefs.current);
+    stopMeetingTranscription(setIsSysRecording, sysRefs.current);
+    pauseMeeting();
+
+    // A recording stopped earlier in the call is still linked to the record
+    const recording = (await recordingStopped) ?? meetingRecording;
+    setMeetingRecording(recording);
+
+    let meetingId: string | null = null;
+    try {
+      const meeting = await createMeeting(buildMeetingRecord(Date.now(), recording));
+      meetingId = meeting.id;
+      setSavedMeetingId(meeting.id);
+    } catch (error) {
+      console.error('Error saving meeting record:', error);
+      toast.error('Failed to save meeting record; it will be retried when you confirm');
+    }
+
+    const generated = await generateSummary();
+    if (!generated) {
+      toast.error('Failed to generate call summary');
+    } else if (meetingId) {
+      updateMeeting(meetingId, { summary: generated as unknown as Json })
+        .catch(error => console.error('Error saving call summary:', error));
+    }
+  };
+
+  // Regenerates the summary after a failed attempt
+  const handleRegenerateSummary = async () => {
+    const generated = await generateSummary();
+    if (!generated) toast.error('Failed to generate call summary');
+  };
+
+  // Finalizes the meeting record with the edited summary and closes the meeting
+  const handleConfirmMeeting = async () => {
+    if (!activeMeeting || !activeTemplate || isSavingMeeting) return;
+
+    setIsSavingMeeting(true);
+
+    const finalSummary: MeetingSummary = {
+      ...(summary ?? createEmptyMeetingSummary()),
+      keyPoints: (summary?.keyPoints ?? []).map(point => point.trim()).filter(Boolean),
+      nextSteps: (summary?.nextSteps ?? []).filter(step => step.action.trim()),
+    };
+    const finalized = {
+      summary: finalSummary as unknown as Json,
+      finalized_at: new Date().toISOString(),
+    };
 
+    try {
+      if (savedMeetingId) {
+        await updateMeeting(savedMeetingId, finalized);
+      } else {
+        await createMeeting({ ...buildMeetingRecord(Date.now()), ...finalized });
+      }
+      toast.success('Meeting saved to Past Meetings');
+      stopMeeting();
+    } catch (error) {
+      console.error('Error finalizing meeting record:', error);
+      toast.error('Failed to save meeting. Please try again.');
+    } finally {
+      setIsSavingMeeting(false);
+    }
+  };
 
   // Show skeleton loading during auto-start
   if (isAutoStarting) {
@@ -857,11 +1104,25 @@ const StartMeetingPage: React.FC = () => {
               checklist={checklist}
               completedItems={completedItems}
               isCompletedOpen={isCompletedOpen}
-              onEndMeeting={stopMeeting}
+              onEndMeeting={handleEndMeeting}
+              isCallEnded={isCallEnded}
+              summary={summary}
+              isGeneratingSummary={isGeneratingSummary}
+              isSavingMeeting={isSavingMeeting}
+              onSummaryChange={setSummary}
+              onRegenerateSummary={handleRegenerateSummary}
+              onConfirmMeeting={handleConfirmMeeting}
+              calendarEventId={calendarEventId}
               onPreviousSection={handlePreviousSection}
               onNextSection={handleNextSection}
               completedQuestions={completedQuestions}
+              onUndoQuestion={undoCompletion}
+              onCompleteQuestion={completeQuestion}
+              onQuestionNoteChange={setItemNote}
               transcriptEntries={transcriptEntries}
+              speakers={speakers}
+              attendees={attendees}
+              onRenameSpeaker={renameSpeaker}
               activeMeeting={activeMeeting}
               reconnectAttempt={reconnectAttempt}
               maxReconnectAttempts={5}
@@ -873,7 +1134,11 @@ const StartMeetingPage: React.FC = () => {
               isClassifying={isClassifying}
               onPauseResume={handlePauseResume}
               isPaused={isPaused}
+              isRecording={isMeetingRecording}
+              onToggleRecording={handleToggleRecording}
               frameworkProgress={frameworkProgress}
+              isScoring={isScoring}
+              onManualScore={scoreNow}
               onFrameworkQuestionUpdate={(questionId: string, status: 'completed' | 'in-progress' | 'pending') => {
                 // Update framework progress state
                 setFrameworkProgress((prev: FrameworkProgress | null) => {
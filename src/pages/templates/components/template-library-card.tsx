@@ -0,0 +1,141 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { AlertCircle, Archive, ArchiveRestore, ChevronDown, Download, Loader2, RotateCw } from "lucide-react";
+import {
+  TEMPLATE_STATUS_TRANSITIONS,
+  type Template,
+  type TemplateStatus
+} from "@/services/templatesFunction";
+import { CALL_PACK_STAGE_LABELS, CALL_PACK_STAGES, getCallPackProgress, getPendingCallPackStage, isCallPackGenerating } from "@/utils/callPackGeneration";
+import { CallCardFileFormat } from "@/utils/callCardPortable";
+import { TEMPLATE_STATUS_LABELS } from "@/utils/templateStatus";
+import { TemplateStatusBadge } from "./template-status-badge";
+
+// Statuses only call-pack generation moves a template into
+const GENERATION_STATUSES: TemplateStatus[] = ['AGENT_ASSISTANCE_REQUESTED', 'AGENT_CALL_SCHEDULED', 'ERROR'];
+
+interface TemplateLibraryCardProps {
+  template: Template;
+  isBusy: boolean;
+  canRetry: boolean;
+  onTransition: (template: Template, status: TemplateStatus) => void;
+  onArchive: (template: Template) => void;
+  onRestore: (template: Template) => void;
+  onRetry: (template: Template) => void;
+  onExport: (template: Template, format: CallCardFileFormat) => void;
+}
+
+/**
+ * TemplateLibraryCard Component
+ *
+ * One call card in the template library: its status, the failure message
+ * when call-pack generation failed, the agent's progress while it's being
+ * generated, and the lifecycle actions allowed from its current status.
+ */
+export function TemplateLibraryCard({
+  template,
+  isBusy,
+  canRetry,
+  onTransition,
+  onArchive,
+  onRestore,
+  onRetry,
+  onExport
+}: TemplateLibraryCardProps) {
+  const manualTransitions = TEMPLATE_STATUS_TRANSITIONS[template.status]
+    .filter(status => status !== 'ARCHIVED' && !GENERATION_STATUSES.includes(status));
+  const isGenerating = isCallPackGenerating(template);
+  const pendingStage = getPendingCallPackStage(template);
+  const completedStageCount = getCallPackProgress(template)?.completedStages.length ?? 0;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium truncate">{template.template_name || 'Untitled call card'}</span>
+            <TemplateStatusBadge status={template.status} />
+          </div>
+          {template.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{template.description}</p>
+          )}
+          {isGenerating && (
+            <p className="text-xs text-muted-foreground">
+              {pendingStage
+                ? `${CALL_PACK_STAGE_LABELS[pendingStage]}... (${completedStageCount}/${CALL_PACK_STAGES.length})`
+                : 'Assembling call card...'}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Updated {new Date(template.updated_at).toLocaleString()}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          {isGenerating && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {manualTransitions.length > 0 && template.status !== 'ARCHIVED' && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isBusy}>
+                  Move to
+                  <ChevronDown className="h-3.5 w-3.5 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {manualTransitions.map(status => (
+                  <DropdownMenuItem key={status} onClick={() => onTransition(template, status)}>
+                    {TEMPLATE_STATUS_LABELS[status]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {!isGenerating && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" title="Export">
+                  <Download className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => onExport(template, 'json')}>JSON (for importing)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport(template, 'markdown')}>Markdown</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {template.status === 'ARCHIVED' ? (
+            <Button variant="ghost" size="sm" onClick={() => onRestore(template)} disabled={isBusy}>
+              <ArchiveRestore className="h-4 w-4 mr-1" />
+              Restore
+            </Button>
+          ) : (
+            <Button variant="ghost" size="icon" title="Archive" onClick={() => onArchive(template)} disabled={isBusy}>
+              <Archive className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {template.status === 'ERROR' && (
+        <Alert variant="destructive" className="py-2">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span className="text-xs">{template.error_message || 'Call pack generation failed.'}</span>
+            {canRetry && (
+              <Button variant="outline" size="sm" onClick={() => onRetry(template)} disabled={isBusy}>
+                <RotateCw className={`h-3.5 w-3.5 mr-1 ${isBusy ? 'animate-spin' : ''}`} />
+                Retry
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
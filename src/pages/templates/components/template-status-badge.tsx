@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { type TemplateStatus } from "@/services/templatesFunction";
+import { TEMPLATE_STATUS_LABELS } from "@/utils/templateStatus";
+
+const STATUS_CLASSES: Record<TemplateStatus, string> = {
+  DRAFT: 'border-gray-300 text-gray-600',
+  AGENT_ASSISTANCE_REQUESTED: 'border-blue-300 text-blue-600',
+  AGENT_CALL_SCHEDULED: 'border-blue-300 text-blue-600',
+  IN_REVIEW: 'border-amber-300 text-amber-600',
+  ACTIVE: 'border-green-300 text-green-600',
+  ARCHIVED: 'border-gray-200 text-muted-foreground',
+  ERROR: 'border-red-300 text-red-600',
+};
+
+export function TemplateStatusBadge({ status }: { status: TemplateStatus }) {
+  return (
+    <Badge variant="outline" className={cn("text-[10px] px-1.5 py-0", STATUS_CLASSES[status])}>
+      {TEMPLATE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
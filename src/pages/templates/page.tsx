@@ -0,0 +1,236 @@
+import * as React from "react"
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, Search, Upload } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  type Template,
+  type TemplateStatus,
+  archiveTemplate,
+  createTemplate,
+  getTemplates,
+  restoreTemplate,
+  transitionTemplateStatus
+} from "@/services/templatesFunction";
+import { useTemplateUpdates } from "@/hooks/useTemplateUpdates";
+import { getCallPackRequest, startCallPackGeneration } from "@/utils/callPackGeneration";
+import { exportCallCardFile, importCallCardFile } from "@/utils/callCardFiles";
+import { CallCardFileFormat, toImportedTemplate, toPortableCallCard } from "@/utils/callCardPortable";
+import { TEMPLATE_STATUS_LABELS } from "@/utils/templateStatus";
+import { TemplateLibraryCard } from "./components/template-library-card";
+
+// Group order: what needs attention first, archive last
+const STATUS_ORDER: TemplateStatus[] = [
+  'ERROR',
+  'IN_REVIEW',
+  'AGENT_ASSISTANCE_REQUESTED',
+  'AGENT_CALL_SCHEDULED',
+  'DRAFT',
+  'ACTIVE',
+  'ARCHIVED',
+];
+
+/**
+ * TemplatesPage Component
+ *
+ * Template library. Lists every call card grouped by lifecycle status, with
+ * search and a status filter, archive/restore, manual status moves and a
+ * retry for call packs whose generation failed. Call packs being generated
+ * update live as the agent works. Call cards can be exported to JSON or
+ * Markdown files and imported from JSON as drafts.
+ */
+export default function TemplatesPage() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = React.useState<Template[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [search, setSearch] = React.useState('');
+  const [statusFilter, setStatusFilter] = React.useState<TemplateStatus | 'all'>('all');
+  const [busyTemplateId, setBusyTemplateId] = React.useState<string | null>(null);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  React.useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    setIsLoading(true);
+    try {
+      setTemplates(await getTemplates());
+    } catch (err) {
+      console.error("Error fetching templates:", err);
+      toast.error('Failed to fetch templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const replaceTemplate = (updated: Template) => {
+    setTemplates(prev => prev.map(t => (t.template_id === updated.template_id ? updated : t)));
+  };
+
+  // Adds a template the list doesn't have yet, e.g. one created elsewhere
+  const upsertTemplate = (changed: Template) => {
+    setTemplates(prev => prev.some(t => t.template_id === changed.template_id)
+      ? prev.map(t => (t.template_id === changed.template_id ? changed : t))
+      : [changed, ...prev]);
+  };
+
+  useTemplateUpdates(upsertTemplate);
+
+  // Runs a lifecycle action for one template, keeping the list in sync
+  const runAction = async (template: Template, action: () => Promise<Template>, success: string) => {
+    setBusyTemplateId(template.template_id);
+    try {
+      replaceTemplate(await action());
+      toast.success(success);
+    } catch (err) {
+      console.error("Error updating template status:", err);
+      toast.error(err instanceof Error ? err.message : 'Failed to update template');
+    } finally {
+      setBusyTemplateId(null);
+    }
+  };
+
+  const handleRetry = async (template: Template) => {
+    const request = getCallPackRequest(template);
+    if (!request) return;
+
+    setBusyTemplateId(template.template_id);
+    try {
+      replaceTemplate(await startCallPackGeneration(template, request));
+      toast.success('Call pack generation restarted');
+    } catch (err) {
+      console.error("Error retrying call pack generation:", err);
+      toast.error('Failed to restart call pack generation');
+      await fetchTemplates();
+    } finally {
+      setBusyTemplateId(null);
+    }
+  };
+
+  const handleExport = async (template: Template, format: CallCardFileFormat) => {
+    try {
+      if (await exportCallCardFile(toPortableCallCard(template), format)) {
+        toast.success('Call card exported');
+      }
+    } catch (err) {
+      console.error("Error exporting call card:", err);
+      toast.error('Failed to export call card');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    setIsImporting(true);
+    try {
+      const card = await importCallCardFile();
+      if (!card) return;
+      upsertTemplate(await createTemplate(toImportedTemplate(card, user.id)));
+      toast.success(`Imported "${card.callCard.name}" as a draft`);
+    } catch (err) {
+      console.error("Error importing call card:", err);
+      toast.error(err instanceof Error ? err.message : 'Failed to import call card');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleTemplates = templates.filter(template =>
+    (statusFilter === 'all' || template.status === statusFilter) &&
+    (!query ||
+      template.template_name.toLowerCase().includes(query) ||
+      (template.description ?? '').toLowerCase().includes(query))
+  );
+  const groups = STATUS_ORDER
+    .map(status => ({
+      status,
+      templates: visibleTemplates
+        .filter(template => template.status === status)
+        .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()),
+    }))
+    .filter(group => group.templates.length > 0);
+
+  return (
+    <div className="container mx-auto">
+      {/* Page Header */}
+      <div className="bg-background border-b p-4 mb-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold">
+            Call Cards
+          </h2>
+          <div className="flex items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search call cards"
+                className="pl-8 w-56"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as TemplateStatus | 'all')}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {STATUS_ORDER.map(status => (
+                  <SelectItem key={status} value={status}>{TEMPLATE_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleImport} size="sm" variant="outline" disabled={isImporting}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button onClick={fetchTemplates} size="sm" variant="outline" disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Card className="p-4 space-y-6">
+        {isLoading ? (
+          [1, 2, 3].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+        ) : groups.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">
+            {templates.length === 0 ? 'No call cards yet.' : 'No call cards match your filters.'}
+          </p>
+        ) : (
+          groups.map(group => (
+            <section key={group.status} className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">
+                {TEMPLATE_STATUS_LABELS[group.status]} ({group.templates.length})
+              </h3>
+              {group.templates.map(template => (
+                <TemplateLibraryCard
+                  key={template.template_id}
+                  template={template}
+                  isBusy={busyTemplateId === template.template_id}
+                  canRetry={Boolean(getCallPackRequest(template))}
+                  onTransition={(t, status) => runAction(
+                    t,
+                    () => transitionTemplateStatus(t, status),
+                    `Moved to ${TEMPLATE_STATUS_LABELS[status]}`
+                  )}
+                  onArchive={(t) => runAction(t, () => archiveTemplate(t), 'Call card archived')}
+                  onRestore={(t) => runAction(t, () => restoreTemplate(t), 'Call card restored')}
+                  onRetry={handleRetry}
+                  onExport={handleExport}
+                />
+              ))}
+            </section>
+          ))
+        )}
+      </Card>
+    </div>
+  );
+}
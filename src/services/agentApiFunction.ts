@@ -1,12 +1,19 @@
 import { postFunction } from '@/lib/supabase/functionsClient'
+import { LeadScoringRequest, LeadScoringResponse } from '@/types/agent/lead-scoring.types'
+import { PostCallSummaryRequest, PostCallSummaryResponse } from '@/types/agent/post-call-summary.types'
+import { CallPackRequest, StartCallPackResponse } from '@/types/agent/call-pack.types'
 
 /**
- * @param prospectLinkedinUrl - The linkedin profile data
- * @param prospectCompanyUrl - The linkedin company data
- * @returns The call pack JSON object
+ * Starts generating a call pack into an existing template as a background job
+ * @param templateId - Template the call pack is written to
+ * @param request - Client company, prospect LinkedIn/company URLs and extra context
+ * @returns As soon as the job is queued. The agent resets and then updates the
+ * template's `generation_progress` as each stage completes, and finishes by
+ * writing the content and moving the template to IN_REVIEW, or to ERROR with
+ * `error_message` set
  */
-export const createCallPack = (clientCompanyUrl: string, prospectLinkedinUrl: string, prospectCompanyUrl: string, callCardContext?: string) => 
-    postFunction<any>('agent-api/create-call-pack', { clientCompanyUrl, prospectLinkedinUrl, prospectCompanyUrl, callCardContext })
+export const startCallPack = (templateId: string, request: CallPackRequest) =>
+    postFunction<StartCallPackResponse>('agent-api/start-call-pack', { templateId, ...request })
 
 
 /**
@@ -16,10 +23,17 @@ export const createCallPack = (clientCompanyUrl: string, prospectLinkedinUrl: st
  * @param transcript - Current transcript of the sales call with speaker turns
  * @returns Analysis of which framework questions have been answered with evidence and confidence scores
  */
-export const leadScoring = (framework: string, questions: string[], transcript: { turns: Array<{ speaker: string; text: string }> }) =>
-    postFunction<any>('agent-api/lead-scoring', { 
+export const leadScoring = (framework: string, questions: string[], transcript: LeadScoringRequest['transcript']) =>
+    postFunction<LeadScoringResponse>('agent-api/lead-scoring', { 
         framework,
         questions,
         transcript
     })
 
+/**
+ * Generates the post-call summary once the rep ends the call
+ * @param request - Full transcript, call card use cases/pain points and final framework results
+ * @returns Structured summary with next steps, owners and due dates
+ */
+export const postCallSummary = (request: PostCallSummaryRequest) =>
+    postFunction<PostCallSummaryResponse>('agent-api/post-call-summary', request)
@@ -1,10 +1,30 @@
-import { getFunction, postFunction, putFunction } from "@/lib/supabase/functionsClient";
+import { deleteFunction, getFunction, patchFunction, postFunction, putFunction } from "@/lib/supabase/functionsClient";
 import type { Tables } from "@/integrations/supabase/types";
 
 export type CalendarEvent = Tables<'calendar_events'>;
+export type UserCalendar = Tables<'user_calendars'>;
+
+// Shape of an entry in `calendar_events.attendees` (Google Calendar attendee resource)
+export interface CalendarAttendee {
+  email: string;
+  displayName?: string;
+  responseStatus?: string;
+  organizer?: boolean;
+  self?: boolean;
+}
+
+// Which occurrences a delete applies to when the event belongs to a recurring series
+export type CalendarEventDeleteScope = 'instance' | 'series';
+
+export interface DeleteCalendarEventOptions {
+  notifyAttendees?: boolean; // Sends Google's cancellation emails to the guests
+  scope?: CalendarEventDeleteScope;
+}
 
 /**
  * Fetches upcoming calendar events from the 'google-calendar' Supabase Edge Function.
+ * Events come from every synced calendar, with recurring events expanded
+ * into their occurrences.
  *
  * @returns A promise that resolves to an array of calendar events.
  * @throws An error if the function invocation fails or returns no data.
@@ -13,6 +33,40 @@ export function fetchUpcomingEvents(): Promise<CalendarEvent[]> {
   return getFunction<CalendarEvent[]>('google-calendar/calendar-events');
 }
 
+/**
+ * Lists all of the user's Google calendars (own and shared) with their
+ * colors and whether each one is synced.
+ *
+ * @returns A promise that resolves to the user's calendars.
+ */
+export function fetchUserCalendars(): Promise<UserCalendar[]> {
+  return getFunction<UserCalendar[]>('google-calendar/calendars');
+}
+
+/**
+ * Chooses whether a calendar's events are synced.
+ *
+ * @param calendarId The Google calendar ID.
+ * @param isSelected Whether to sync the calendar.
+ * @returns A promise that resolves to the updated calendar.
+ */
+export function updateCalendarSelection(calendarId: string, isSelected: boolean): Promise<UserCalendar> {
+  return patchFunction<UserCalendar>(
+    `google-calendar/calendars/${encodeURIComponent(calendarId)}`,
+    { isSelected }
+  );
+}
+
+/**
+ * Fetches a single calendar event, including past events.
+ *
+ * @param eventId The ID of the calendar event.
+ * @returns A promise that resolves to the calendar event.
+ */
+export function fetchCalendarEvent(eventId: string): Promise<CalendarEvent> {
+  return getFunction<CalendarEvent>(`google-calendar/calendar-events/${eventId}`);
+}
+
 /**
  * Creates a new Google Calendar event.
  *
@@ -63,14 +117,21 @@ export function linkTemplateToEvent(eventId: string, templateId: string): Promis
 }
 
 /**
- * Deletes a calendar event.
+ * Deletes a calendar event, or the whole series it belongs to.
  *
  * @param eventId The ID of the calendar event to delete.
+ * @param options Whether to notify attendees and, for recurring events, the delete scope.
  * @returns A promise that resolves to the deletion result.
  */
-export function deleteCalendarEvent(eventId: string): Promise<{ success: boolean; message: string }> {
-  return Promise.resolve({ success: false, message: 'Failed - not implemented' });
-  // return deleteFunction<{ success: boolean; message: string }>(
-  //   `google-calendar/calendar-events/${eventId}`
-  // );
+export function deleteCalendarEvent(
+  eventId: string,
+  { notifyAttendees = false, scope = 'instance' }: DeleteCalendarEventOptions = {}
+): Promise<{ success: boolean; message: string }> {
+  const params = new URLSearchParams({
+    sendUpdates: notifyAttendees ? 'all' : 'none',
+    scope,
+  });
+  return deleteFunction<{ success: boolean; message: string }>(
+    `google-calendar/calendar-events/${eventId}?${params.toString()}`
+  );
 }
@@ -0,0 +1,26 @@
+import {
+  getFunction,
+  postFunction,
+  putFunction,
+  deleteFunction,
+} from '@/lib/supabase/functionsClient'
+import { Database } from '@/integrations/supabase/types'
+
+export type Meeting = Database['public']['Tables']['meetings']['Row']
+export type CreateMeeting = Database['public']['Tables']['meetings']['Insert']
+export type UpdateMeeting = Database['public']['Tables']['meetings']['Update']
+
+export const getMeetings = () =>
+  getFunction<Meeting[]>('meetings')
+
+export const getMeetingById = (meetingId: string) =>
+  getFunction<Meeting>(`meetings/${meetingId}`)
+
+export const createMeeting = (meeting: CreateMeeting) =>
+  postFunction<Meeting>('meetings', meeting)
+
+export const updateMeeting = (meetingId: string, meeting: UpdateMeeting) =>
+  putFunction<Meeting>(`meetings/${meetingId}`, meeting)
+
+export const deleteMeeting = (meetingId: string) =>
+  deleteFunction(`meetings/${meetingId}`)
@@ -0,0 +1,32 @@
+import {
+  getFunction,
+  postFunction,
+  putFunction,
+  deleteFunction,
+} from '@/lib/supabase/functionsClient'
+import { Database } from '@/integrations/supabase/types'
+
+export type SalesFramework = Database['public']['Tables']['sales_frameworks']['Row']
+export type CreateSalesFramework = Database['public']['Tables']['sales_frameworks']['Insert']
+export type UpdateSalesFramework = Database['public']['Tables']['sales_frameworks']['Update']
+export type SalesFrameworkVersion = Database['public']['Tables']['sales_framework_versions']['Row']
+
+// Returns the user's frameworks plus the shared defaults (MEDDIC, BANT, ...)
+export const getSalesFrameworks = () =>
+  getFunction<SalesFramework[]>('sales-frameworks')
+
+export const getSalesFrameworkById = (frameworkId: string) =>
+  getFunction<SalesFramework>(`sales-frameworks/${frameworkId}`)
+
+// Every saved version, newest first; each update bumps `version` and keeps the previous one here
+export const getSalesFrameworkVersions = (frameworkId: string) =>
+  getFunction<SalesFrameworkVersion[]>(`sales-frameworks/${frameworkId}/versions`)
+
+export const createSalesFramework = (framework: CreateSalesFramework) =>
+  postFunction<SalesFramework>('sales-frameworks', framework)
+
+export const updateSalesFramework = (frameworkId: string, framework: UpdateSalesFramework) =>
+  putFunction<SalesFramework>(`sales-frameworks/${frameworkId}`, framework)
+
+export const deleteSalesFramework = (frameworkId: string) =>
+  deleteFunction(`sales-frameworks/${frameworkId}`)
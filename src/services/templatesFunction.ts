@@ -9,6 +9,7 @@ import { Database } from '@/integrations/supabase/types'
 export type Template = Database['public']['Tables']['templates']['Row']
 export type CreateTemplate = Database['public']['Tables']['templates']['Insert']
 export type UpdateTemplate = Database['public']['Tables']['templates']['Update']
+export type TemplateRevision = Database['public']['Tables']['template_revisions']['Row']
 
 export const getTemplates = () =>
   getFunction<Template[]>('templates')
@@ -23,4 +24,53 @@ export const updateTemplate = (templateId: string, template: UpdateTemplate) =>
   putFunction<Template>(`templates/${templateId}`, template)
 
 export const deleteTemplate = (templateId: string) =>
-  deleteFunction(`templates/${templateId}`)
\ No newline at end of file
+  deleteFunction(`templates/${templateId}`)
+
+// Every saved revision, newest first; each create/update that changes the name,
+// description or content is snapshotted here with who made it
+export const getTemplateRevisions = (templateId: string) =>
+  getFunction<TemplateRevision[]>(`templates/${templateId}/revisions`)
+
+export type TemplateStatus = Database['public']['Enums']['template_status']
+
+// Allowed lifecycle moves. Call-pack generation goes AGENT_ASSISTANCE_REQUESTED
+// -> (AGENT_CALL_SCHEDULED) -> IN_REVIEW, or ERROR with `error_message` set;
+// ARCHIVED is reachable from everywhere and restores to DRAFT or ACTIVE.
+export const TEMPLATE_STATUS_TRANSITIONS: Record<TemplateStatus, TemplateStatus[]> = {
+  DRAFT: ['AGENT_ASSISTANCE_REQUESTED', 'IN_REVIEW', 'ACTIVE', 'ARCHIVED'],
+  AGENT_ASSISTANCE_REQUESTED: ['AGENT_CALL_SCHEDULED', 'IN_REVIEW', 'ERROR', 'ARCHIVED'],
+  AGENT_CALL_SCHEDULED: ['IN_REVIEW', 'ERROR', 'ARCHIVED'],
+  IN_REVIEW: ['DRAFT', 'ACTIVE', 'ARCHIVED'],
+  ACTIVE: ['DRAFT', 'IN_REVIEW', 'ARCHIVED'],
+  ARCHIVED: ['DRAFT', 'ACTIVE'],
+  ERROR: ['AGENT_ASSISTANCE_REQUESTED', 'DRAFT', 'ARCHIVED'],
+}
+
+export const canTransitionTemplate = (from: TemplateStatus, to: TemplateStatus) =>
+  TEMPLATE_STATUS_TRANSITIONS[from].includes(to)
+
+// Call cards that can be linked to events and used in meetings
+export const isTemplateSelectable = (template: Template) =>
+  template.status === 'ACTIVE' || template.status === 'IN_REVIEW' || template.status === 'DRAFT'
+
+/**
+ * Moves a template to a new lifecycle status. `errorMessage` is stored with
+ * ERROR and cleared by any other status.
+ * @throws If the move isn't allowed from the template's current status
+ */
+export const transitionTemplateStatus = (template: Template, status: TemplateStatus, errorMessage?: string) => {
+  if (!canTransitionTemplate(template.status, status)) {
+    return Promise.reject(new Error(`Cannot move template from ${template.status} to ${status}`))
+  }
+  return updateTemplate(template.template_id, {
+    status,
+    error_message: status === 'ERROR' ? errorMessage || 'Unknown error' : null,
+  })
+}
+
+export const archiveTemplate = (template: Template) =>
+  transitionTemplateStatus(template, 'ARCHIVED')
+
+// Restored templates go back to DRAFT when they never had content to use
+export const restoreTemplate = (template: Template) =>
+  transitionTemplateStatus(template, template.content ? 'ACTIVE' : 'DRAFT')
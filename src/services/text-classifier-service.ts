@@ -28,12 +28,14 @@ class TextClassifierService {
    * @param text The text to classify
    * @param source Optional source identifier (e.g., 'user', 'speaker')
    * @param isFinal Whether this is a final transcript
+   * @param sessionId Classifier session (meeting id) whose topics and state to use
    * @returns Classification result or null if service unavailable
    */
   async classifyText(
     text: string, 
     source: string = 'unknown',
-    isFinal: boolean = true
+    isFinal: boolean = true,
+    sessionId?: string
   ): Promise<ClassifyTextResponse | null> {
     if (!this.isAvailable()) {
       console.warn('TextClassifierService: Service not available, skipping classification');
@@ -52,6 +54,7 @@ class TextClassifierService {
       
       const request: ClassifyTextRequest = {
         id: requestId,
+        sessionId,
         text,
         metadata: {
           source,
@@ -73,6 +76,8 @@ class TextClassifierService {
         label: 'error',
         score: 0,
         ema: 0,
+        topCandidates: [],
+        activeTopics: [],
         timestamp: Date.now(),
         error: error instanceof Error ? error.message : 'Unknown classification error'
       };
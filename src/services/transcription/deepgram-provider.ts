@@ -0,0 +1,314 @@
+import { TranscriptionResult, TranscriptWord } from '@/types/transcript';
+import { BaseTranscriptionProvider } from './transcription-provider';
+
+// Max reconnect attempts
+export const MAX_RECONNECT_ATTEMPTS = 10;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 30000;
+const CONNECTION_TIMEOUT_MS = 30000;
+const HEARTBEAT_CHECK_INTERVAL_MS = 15000;
+const HEARTBEAT_TIMEOUT_MS = 60000;
+
+// Query params forwarded to Deepgram by the WebSocket proxy
+const DEEPGRAM_QUERY_PARAMS: Record<string, string> = {
+  diarize: 'true',
+  punctuate: 'true',
+};
+
+interface ConnectionMetrics {
+  connectionStartTime?: number;
+  lastSuccessfulConnection?: number;
+  consecutiveFailures: number;
+  totalReconnects: number;
+}
+
+/**
+ * Converts a Deepgram `Results` message into a provider-neutral result.
+ * Also used for the on-device engine, which replies in the same shape.
+ * @param data - Parsed Deepgram message
+ * @returns The result, or null for messages without a transcript
+ */
+export const parseDeepgramResult = (data: any): TranscriptionResult | null => {
+  const alternative = data?.channel?.alternatives?.[0];
+  const transcript: string = alternative?.transcript?.trim() || '';
+  if (!transcript) return null;
+
+  const isFinal = typeof data?.is_final === 'boolean'
+    ? data.is_final
+    : String(data?.type || data?.message_type || '').toLowerCase().includes('final');
+
+  const rawWords: any[] = Array.isArray(alternative?.words) ? alternative.words : [];
+  const words: TranscriptWord[] = rawWords.map(raw => ({
+    word: raw.punctuated_word ?? raw.word,
+    start: raw.start,
+    end: raw.end,
+    confidence: raw.confidence,
+    speaker: typeof raw.speaker === 'number' ? raw.speaker : 0,
+  }));
+
+  return {
+    transcript,
+    isFinal,
+    confidence: alternative?.confidence ?? 0,
+    words,
+    start: data?.start,
+    duration: data?.duration,
+  };
+};
+
+/**
+ * Deepgram streaming transcription through the authenticated WebSocket proxy.
+ *
+ * Authenticates with a `jwt-<token>` subprotocol, reconnects with exponential
+ * backoff and watches for stale connections with a heartbeat check.
+ */
+export class DeepgramProvider extends BaseTranscriptionProvider {
+  readonly name = 'deepgram';
+
+  private socket: WebSocket | null = null;
+  private isActive = false;
+  private attemptCount = 0;
+  private reconnectTimer: number | null = null;
+  private connectionTimeout: number | null = null;
+  private heartbeatInterval: number | null = null;
+  private lastHeartbeat = Date.now();
+  private metrics: ConnectionMetrics = { consecutiveFailures: 0, totalReconnects: 0 };
+
+  async connect(): Promise<void> {
+    this.isActive = true;
+    this.attemptCount = 0;
+    this.metrics = { connectionStartTime: Date.now(), consecutiveFailures: 0, totalReconnects: 0 };
+    this.lastHeartbeat = Date.now();
+
+    await this.openSocket();
+    this.startHeartbeatMonitoring();
+  }
+
+  sendAudio(frame: ArrayBuffer): boolean {
+    const ws = this.socket;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !this.isActive) return false;
+    try {
+      ws.send(frame);
+      this.lastHeartbeat = Date.now();
+      return true;
+    } catch (error) {
+      console.error('[CLIENT] Error sending audio data:', error);
+      this.attemptReconnect();
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.isActive = false;
+    this.clearTimers();
+
+    if (this.socket) {
+      if (this.socket.readyState === WebSocket.OPEN) {
+        // Send a close stream message to Deepgram before closing
+        this.socket.send(JSON.stringify({ type: 'CloseStream' }));
+        this.socket.close(1000, 'Transcription ended by user');
+      }
+      this.socket = null;
+    }
+  }
+
+  private clearTimers() {
+    if (this.reconnectTimer != null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connectionTimeout != null) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
+    if (this.heartbeatInterval != null) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  /**
+   * Sets up heartbeat monitoring to detect stale connections
+   */
+  private startHeartbeatMonitoring() {
+    if (this.heartbeatInterval != null) {
+      clearInterval(this.heartbeatInterval);
+    }
+
+    this.heartbeatInterval = window.setInterval(() => {
+      if (!this.isActive) return;
+
+      // Generous timeout to work with server pings (30s interval)
+      // and account for potential Deepgram processing delays
+      if (Date.now() - this.lastHeartbeat > HEARTBEAT_TIMEOUT_MS) {
+        this.metrics.consecutiveFailures++;
+        this.attemptReconnect();
+      }
+    }, HEARTBEAT_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Centralized reconnect trigger (uses exponential backoff + jitter)
+   */
+  private attemptReconnect() {
+    if (!this.isActive) return;
+
+    this.metrics.consecutiveFailures++;
+    this.metrics.totalReconnects++;
+
+    if (this.attemptCount >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`Max reconnection attempts (${MAX_RECONNECT_ATTEMPTS}) reached. Stopping reconnection attempts.`);
+      console.error(`Connection metrics:`, this.metrics);
+      this.isActive = false;
+      this.emitError(new Error('Connection failed after multiple attempts. Please check your internet connection and try again.'));
+      return;
+    }
+
+    this.attemptCount += 1;
+    this.options.onReconnectionUpdate?.(true, this.attemptCount);
+
+    // Progressive backoff with Edge Function cold start consideration
+    let backoff = Math.min(BASE_DELAY_MS * 2 ** (this.attemptCount - 1), MAX_DELAY_MS);
+
+    // Add extra delay for Edge Function cold starts after multiple failures
+    if (this.metrics.consecutiveFailures > 3) {
+      backoff = Math.max(backoff, 15000);
+    }
+
+    const delay = backoff + (Math.random() * 2000); // Add jitter
+
+    console.warn(`Reconnecting in ${Math.round(delay / 1000)}s (attempt ${this.attemptCount}/${MAX_RECONNECT_ATTEMPTS})`);
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.openSocket().catch(() => {
+        /* swallowed: further attempts by handler */
+      });
+    }, delay);
+  }
+
+  /**
+   * Opens the proxy WebSocket, resolving once it is ready for audio
+   */
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // Cleanup any existing socket & timers
+      if (this.socket) {
+        this.socket.close();
+        this.socket = null;
+      }
+      if (this.reconnectTimer != null) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+      if (this.connectionTimeout != null) {
+        clearTimeout(this.connectionTimeout);
+        this.connectionTimeout = null;
+      }
+
+      // Get WebSocket URL from environment - this should point to your Fly.io service
+      const wsBase = import.meta.env.VITE_WEBSOCKET_URL;
+
+      if (!wsBase) {
+        console.error('VITE_WEBSOCKET_URL not configured. Please set it to your Fly.io WebSocket URL (e.g., ws://127.0.0.1:3001)');
+        console.error('Available env vars:', Object.keys(import.meta.env).filter(k => k.startsWith('VITE_')));
+        return reject(new Error('VITE_WEBSOCKET_URL not configured. Please check your .env file.'));
+      }
+
+      // BUG: ws should only happen in local version
+      if (!wsBase.startsWith('ws://') && !wsBase.startsWith('wss://')) {
+        console.error('WebSocket URL must start with ws:// or wss://, got:', wsBase);
+        return reject(new Error('Invalid WebSocket protocol'));
+      }
+
+      console.log('Connecting to Fly.io WebSocket:', wsBase);
+
+      const wsUrl = new URL(wsBase);
+      Object.entries(DEEPGRAM_QUERY_PARAMS).forEach(([key, value]) => wsUrl.searchParams.set(key, value));
+
+      const socket = new WebSocket(wsUrl.toString(), [`jwt-${this.options.accessToken}`]);
+      socket.binaryType = 'arraybuffer';
+
+      // Connection timeout guard
+      this.connectionTimeout = window.setTimeout(() => {
+        if (socket.readyState !== WebSocket.OPEN) {
+          socket.close(1001, 'Timeout');
+        }
+      }, CONNECTION_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        console.log('WebSocket connection opened.');
+        clearTimeout(this.connectionTimeout!);
+        this.socket = socket;
+
+        // Reset failure metrics on successful connection
+        this.metrics.consecutiveFailures = 0;
+        this.metrics.lastSuccessfulConnection = Date.now();
+        this.lastHeartbeat = Date.now();
+
+        // Notify that reconnection succeeded
+        if (this.attemptCount > 0) {
+          this.options.onReconnectionUpdate?.(false, 0);
+        }
+
+        resolve();
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          if (typeof event.data !== 'string') {
+            console.warn('Received non-string WebSocket message:', event.data);
+            return;
+          }
+
+          const parsedData = JSON.parse(event.data);
+
+          // Always update heartbeat on any message from server
+          this.lastHeartbeat = Date.now();
+
+          if (parsedData.type === 'pong') return;
+
+          this.emitResult(parseDeepgramResult(parsedData));
+        } catch (error) {
+          console.error('Error processing WebSocket message:', error);
+        }
+      };
+
+      socket.onerror = (ev) => {
+        console.error('WebSocket error', ev);
+      };
+
+      socket.onclose = (ev) => {
+        console.log('WebSocket connection closed.', ev.code, ev.reason);
+        clearTimeout(this.connectionTimeout!);
+        console.warn(`WebSocket closed: ${ev.code} - ${ev.reason || 'no reason provided'}`);
+
+        // Handle different close codes
+        if (ev.code === 1006) {
+          console.warn('WebSocket closed abnormally, likely due to network issues or Edge Function timeout');
+        } else if (ev.code === 1008 || ev.code === 1014) {
+          console.error('WebSocket closed due to authentication error. Token may be expired.');
+          this.isActive = false;
+          this.emitError(new Error('Transcription authentication failed. Please refresh the page and try again.'));
+          return;
+        } else if (ev.code === 1011) {
+          console.error('WebSocket closed due to server error in Edge Function');
+        }
+
+        if (this.isActive && this.attemptCount < MAX_RECONNECT_ATTEMPTS) {
+          // Add progressive delay for server errors
+          if (ev.code === 1011 || ev.code === 1006) {
+            // Edge Function might be cold starting or having issues
+            setTimeout(() => this.attemptReconnect(), 5000);
+          } else {
+            this.attemptReconnect();
+          }
+        } else if (this.attemptCount >= MAX_RECONNECT_ATTEMPTS) {
+          console.error(`Max reconnection attempts (${MAX_RECONNECT_ATTEMPTS}) reached. Connection permanently failed.`);
+          this.isActive = false;
+        } else if (this.attemptCount === 0) {
+          reject(new Error(`WebSocket closed: ${ev.reason || 'unknown'}`));
+        }
+      };
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { TranscriptChannel, TranscriptionResult } from '@/types/transcript';
+import { BaseTranscriptionProvider } from './transcription-provider';
+
+const DEFAULT_FAKE_TRANSCRIPT_URL = '/fake-transcript.jsonl';
+
+/**
+ * One line of a recorded transcript. `atMs` is measured from connect();
+ * lines without a channel play on the mic stream.
+ */
+interface FakeTranscriptLine {
+  atMs: number;
+  channel?: TranscriptChannel;
+  transcript?: string;
+  isFinal?: boolean;
+  speaker?: number;
+  confidence?: number;
+  error?: string; // Emitted through onError instead of a result
+}
+
+const toResult = (line: FakeTranscriptLine): TranscriptionResult => {
+  const transcript = line.transcript ?? '';
+  const confidence = line.confidence ?? 1;
+  const seconds = line.atMs / 1000;
+  return {
+    transcript,
+    isFinal: line.isFinal ?? true,
+    confidence,
+    words: typeof line.speaker === 'number'
+      ? transcript.split(/\s+/).filter(Boolean).map(word => ({
+          word,
+          start: seconds,
+          end: seconds,
+          confidence,
+          speaker: line.speaker,
+        }))
+      : [],
+    start: seconds,
+  };
+};
+
+/**
+ * Scripted provider that replays a recorded JSONL transcript without network
+ * or audio, so the start-meeting flow can run under Playwright/Cypress.
+ *
+ * Enabled with `VITE_TRANSCRIPTION_PROVIDER=fake`; the transcript is fetched
+ * from `VITE_FAKE_TRANSCRIPT_URL` (default `/fake-transcript.jsonl`), which
+ * tests are expected to route to a fixture.
+ */
+export class FakeTranscriptionProvider extends BaseTranscriptionProvider {
+  readonly name = 'fake';
+  readonly requiresAudio = false;
+
+  private timers: number[] = [];
+
+  async connect(): Promise<void> {
+    const url = import.meta.env.VITE_FAKE_TRANSCRIPT_URL || DEFAULT_FAKE_TRANSCRIPT_URL;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load fake transcript from ${url} (${response.status})`);
+    }
+
+    const lines = (await response.text())
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as FakeTranscriptLine)
+      .filter(line => (line.channel ?? 'mic') === this.options.channel);
+
+    this.timers = lines.map(line =>
+      window.setTimeout(() => {
+        if (line.error) {
+          this.emitError(new Error(line.error));
+        } else {
+          this.emitResult(toResult(line));
+        }
+      }, line.atMs)
+    );
+  }
+
+  sendAudio(): boolean {
+    return false;
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+}
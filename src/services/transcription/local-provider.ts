@@ -0,0 +1,68 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ElectronAPI } from '@/types/electron';
+import { BaseTranscriptionProvider } from './transcription-provider';
+import { parseDeepgramResult } from './deepgram-provider';
+
+/**
+ * On-device Whisper transcription running in the Electron main process.
+ *
+ * Frames are streamed over IPC under a per-provider stream id; the main
+ * process replies in the Deepgram result shape.
+ */
+export class LocalWhisperProvider extends BaseTranscriptionProvider {
+  readonly name = 'local-whisper';
+
+  private streamId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  async connect(): Promise<void> {
+    const electron = window.electron as ElectronAPI | undefined;
+    if (!electron?.startLocalTranscription || !electron.onLocalTranscriptionResult) {
+      throw new Error('Local transcription is only available in the desktop app');
+    }
+
+    const streamId = uuidv4();
+    // Not gated on an active flag: the final flush arrives after close()
+    const unsubscribeResult = electron.onLocalTranscriptionResult(({ streamId: id, data }) => {
+      if (id === streamId) this.emitResult(parseDeepgramResult(data));
+    });
+    // A failed window only loses that window's text, so it isn't terminal
+    const unsubscribeError = electron.onLocalTranscriptionError?.(({ streamId: id, error }) => {
+      if (id === streamId) console.warn('Local transcription skipped a window:', error);
+    });
+    this.unsubscribe = () => {
+      unsubscribeResult();
+      unsubscribeError?.();
+    };
+
+    const result = await electron.startLocalTranscription(streamId);
+    if (!result.success) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+      throw new Error(result.error || 'Failed to start local transcription');
+    }
+    this.streamId = streamId;
+  }
+
+  sendAudio(frame: ArrayBuffer): boolean {
+    if (!this.streamId || frame.byteLength === 0) return false;
+    window.electron?.sendLocalTranscriptionAudio?.(this.streamId, frame);
+    return true;
+  }
+
+  /**
+   * Ends the session, letting the main process transcribe any buffered audio
+   */
+  async close(): Promise<void> {
+    const streamId = this.streamId;
+    this.streamId = null;
+    try {
+      if (streamId) await window.electron?.stopLocalTranscription?.(streamId);
+    } catch (error) {
+      console.warn('Error stopping local transcription:', error);
+    } finally {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+    }
+  }
+}
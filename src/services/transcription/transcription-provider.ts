@@ -0,0 +1,78 @@
+import { TranscriptChannel, TranscriptionResult } from '@/types/transcript';
+
+export type TranscriptionResultHandler = (result: TranscriptionResult) => void;
+export type TranscriptionErrorHandler = (error: Error) => void;
+
+export interface TranscriptionProviderOptions {
+  accessToken: string;
+  channel: TranscriptChannel;
+  onReconnectionUpdate?: (isReconnecting: boolean, attemptCount: number) => void;
+}
+
+/**
+ * Speech-to-text backend used by the live transcription flow.
+ *
+ * The transcription service captures 16kHz Int16 frames and hands them to
+ * `sendAudio`; each provider owns its transport and wire format and reports
+ * provider-neutral results through the partial/final/error handlers.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  // False for providers that generate results without audio (e.g. replays)
+  readonly requiresAudio: boolean;
+  connect(): Promise<void>;
+  // Returns false when the frame was dropped (e.g. while reconnecting)
+  sendAudio(frame: ArrayBuffer): boolean;
+  onPartial(handler: TranscriptionResultHandler): () => void;
+  onFinal(handler: TranscriptionResultHandler): () => void;
+  // Terminal failures only; the service stops the flow and shows the message
+  onError(handler: TranscriptionErrorHandler): () => void;
+  close(): Promise<void>;
+}
+
+/**
+ * Handler bookkeeping shared by all providers
+ */
+export abstract class BaseTranscriptionProvider implements TranscriptionProvider {
+  abstract readonly name: string;
+  readonly requiresAudio: boolean = true;
+
+  private partialHandlers = new Set<TranscriptionResultHandler>();
+  private finalHandlers = new Set<TranscriptionResultHandler>();
+  private errorHandlers = new Set<TranscriptionErrorHandler>();
+
+  constructor(protected readonly options: TranscriptionProviderOptions) {}
+
+  abstract connect(): Promise<void>;
+  abstract sendAudio(frame: ArrayBuffer): boolean;
+  abstract close(): Promise<void>;
+
+  onPartial(handler: TranscriptionResultHandler): () => void {
+    this.partialHandlers.add(handler);
+    return () => this.partialHandlers.delete(handler);
+  }
+
+  onFinal(handler: TranscriptionResultHandler): () => void {
+    this.finalHandlers.add(handler);
+    return () => this.finalHandlers.delete(handler);
+  }
+
+  onError(handler: TranscriptionErrorHandler): () => void {
+    this.errorHandlers.add(handler);
+    return () => this.errorHandlers.delete(handler);
+  }
+
+  /**
+   * Routes a result to the partial or final handlers, dropping empty transcripts
+   */
+  protected emitResult(result: TranscriptionResult | null): void {
+    if (!result || result.transcript.trim().length === 0) return;
+    const handlers = result.isFinal ? this.finalHandlers : this.partialHandlers;
+    handlers.forEach(handler => handler(result));
+  }
+
+  protected emitError(error: Error): void {
+    console.error(`[${this.name}] ${error.message}`);
+    this.errorHandlers.forEach(handler => handler(error));
+  }
+}
@@ -1,45 +1,120 @@
 import { create } from 'zustand';
-import { ChecklistItem, MeetingSection } from '@/types/meetingTemplates';
+import { ChecklistCompletion, ChecklistItem, MeetingSection } from '@/types/meetingTemplates';
+import { CallCardTopicType, formatTopicLabel } from '@/utils/topicLabels';
 
-interface SectionState {
+export interface SectionState {
   checklist: ChecklistItem[];
   completedItems: ChecklistItem[];
 }
 
+interface ChecklistGroupSource {
+  id?: string;
+  title: string;
+  description: string;
+  questions: Array<{
+    id?: string;
+    text: string;
+  }>;
+}
+
 interface TemplateContent {
   sections?: MeetingSection[];
-  useCases?: Array<{
-    id: string;
-    title: string;
-    description: string;
-    questions: Array<{
-      id: string;
-      text: string;
-    }>;
-  }>;
-  painPoints?: Array<{
-    id: string;
-    title: string;
-    description: string;
-    questions: Array<{
-      id: string;
-      text: string;
-    }>;
-  }>;
+  useCases?: ChecklistGroupSource[];
+  painPoints?: ChecklistGroupSource[];
+}
+
+// One checklist section as defined by the template, independent of progress.
+// Regular templates map 1:1; agent call cards get one section per use case
+// and per pain point, labelled like the classifier topic it corresponds to.
+export interface ChecklistSectionDefinition {
+  id: string;
+  title: string;
+  description?: string;
+  kind: 'section' | CallCardTopicType;
+  topicLabel?: string;
+  questions: ChecklistItem[];
+}
+
+// Builds one section per use case or pain point. Use cases, pain points and
+// questions without an id get one derived from their position, so the same
+// template always yields the same ids (reset, persisted outcomes, undo and
+// following the live topic depend on that).
+const topicSections = (
+  kind: CallCardTopicType,
+  prefix: string,
+  sources: ChecklistGroupSource[]
+): ChecklistSectionDefinition[] =>
+  sources.map((source, sourceIndex) => ({
+    id: `${prefix}-${source.id || sourceIndex}`,
+    title: source.title,
+    description: source.description,
+    kind,
+    topicLabel: formatTopicLabel(kind, source.title),
+    questions: (source.questions || []).map((q, index) => ({
+      id: q.id || `${prefix}-${source.id || sourceIndex}-q${index}`,
+      text: q.text,
+    })),
+  }));
+
+/**
+ * Normalizes either template shape into ordered section definitions
+ * @returns The definitions, or null if the content has neither shape
+ */
+const normalizeTemplateContent = (templateContent: TemplateContent): ChecklistSectionDefinition[] | null => {
+  if (templateContent.sections && templateContent.sections.length > 0) {
+    return templateContent.sections
+      .filter(section => section.id)
+      .map(section => ({
+        id: section.id,
+        title: section.title,
+        description: section.description,
+        kind: 'section' as const,
+        questions: (section.questions || []).map((q, index) => ({
+          id: q.id || `${section.id}-q${index}`,
+          text: q.text,
+        })),
+      }));
+  }
+
+  const useCases = templateContent.useCases || [];
+  const painPoints = templateContent.painPoints || [];
+  if (useCases.length === 0 && painPoints.length === 0) {
+    return null;
+  }
+
+  return [...topicSections('useCase', 'uc', useCases), ...topicSections('painPoint', 'pp', painPoints)];
+};
+
+// Fresh progress for a section: every question open, in template order
+const initialSectionState = (definition: ChecklistSectionDefinition): SectionState => ({
+  checklist: definition.questions.map(q => ({ ...q, checked: false })),
+  completedItems: [],
+});
+
+// The progress part of the store, as journaled for crash recovery
+export interface ChecklistProgress {
+  sections: Record<string, SectionState>;
+  currentSectionId: string | null;
+  sectionDefinitions: ChecklistSectionDefinition[];
 }
 
 interface ChecklistState {
   sections: Record<string, SectionState>;
   currentSectionId: string | null;
   isCompletedOpen: boolean;
-  originalTemplateContent: TemplateContent | null;
+  sectionDefinitions: ChecklistSectionDefinition[];
 
   initializeSections: (templateContent: TemplateContent | null) => void;
   setCurrentSectionId: (sectionId: string | null) => void;
-  toggleItem: (itemId: string) => void;
-  markItemsComplete: (ids: string[]) => void;
+  jumpToTopic: (topicLabel: string) => boolean;
+  toggleItem: (itemId: string, details?: Partial<Pick<ChecklistCompletion, 'outcome' | 'note' | 'turnId'>>) => void;
+  markItemsComplete: (ids: string[], completion?: ChecklistCompletion) => void;
+  reopenItem: (itemId: string) => void;
+  setItemNote: (itemId: string, note: string) => void;
+  moveItem: (sectionId: string, itemId: string, toIndex: number) => void;
   resetSectionChecklist: (sectionId: string) => void;
   resetAllChecklists: () => void;
+  restoreChecklists: (progress: ChecklistProgress) => void;
   setIsCompletedOpen: (isOpen: boolean) => void;
 }
 
@@ -47,98 +122,24 @@ export const useChecklistStore = create<ChecklistState>((set, get) => ({
   sections: {},
   currentSectionId: null,
   isCompletedOpen: false,
-  originalTemplateContent: null,
+  sectionDefinitions: [],
 
   initializeSections: (templateContent) => {
-    if (!templateContent) {
-      set({
-        sections: {},
-        currentSectionId: null,
-        isCompletedOpen: false,
-        originalTemplateContent: null,
-      });
-      return;
+    const definitions = templateContent ? normalizeTemplateContent(templateContent) : [];
+    if (!definitions) {
+      console.error('Invalid template structure:', templateContent);
     }
 
     const initialSections: Record<string, SectionState> = {};
-    let firstSectionId: string | null = null;
-
-    // Handle regular templates with sections
-    if (templateContent.sections && templateContent.sections.length > 0) {
-      templateContent.sections.forEach(section => {
-        if (section.id) {
-          initialSections[section.id] = {
-            checklist: (section.questions || []).map(q => ({ ...q, checked: false })),
-            completedItems: []
-          };
-          if (firstSectionId === null) {
-            firstSectionId = section.id;
-          }
-        }
-      });
-    } 
-    // Handle agent templates with useCases and painPoints
-    else if ((templateContent.useCases && templateContent.useCases.length > 0) || 
-             (templateContent.painPoints && templateContent.painPoints.length > 0)) {
-      
-      // Create a virtual section for useCases
-      if (templateContent.useCases && templateContent.useCases.length > 0) {
-        const useCaseSectionId = 'usecases-section';
-        const useCaseQuestions = templateContent.useCases.flatMap(useCase => 
-          (useCase.questions || []).map(q => ({
-            id: q.id || `uc-${useCase.id}-${Math.random().toString(36).substring(2, 9)}`,
-            text: q.text,
-            checked: false
-          }))
-        );
-        
-        initialSections[useCaseSectionId] = {
-          checklist: useCaseQuestions,
-          completedItems: []
-        };
-        
-        if (firstSectionId === null) {
-          firstSectionId = useCaseSectionId;
-        }
-      }
-      
-      // Create a virtual section for painPoints
-      if (templateContent.painPoints && templateContent.painPoints.length > 0) {
-        const painPointSectionId = 'painpoints-section';
-        const painPointQuestions = templateContent.painPoints.flatMap(painPoint => 
-          (painPoint.questions || []).map(q => ({
-            id: q.id || `pp-${painPoint.id}-${Math.random().toString(36).substring(2, 9)}`,
-            text: q.text,
-            checked: false
-          }))
-        );
-        
-        initialSections[painPointSectionId] = {
-          checklist: painPointQuestions,
-          completedItems: []
-        };
-        
-        if (firstSectionId === null) {
-          firstSectionId = painPointSectionId;
-        }
-      }
-    } else {
-      console.error('Invalid template structure:', templateContent);
-      // Set empty state for invalid templates
-      set({
-        sections: {},
-        currentSectionId: null,
-        isCompletedOpen: false,
-        originalTemplateContent: templateContent,
-      });
-      return;
-    }
+    (definitions || []).forEach(definition => {
+      initialSections[definition.id] = initialSectionState(definition);
+    });
 
     set({
       sections: initialSections,
-      currentSectionId: firstSectionId,
+      currentSectionId: definitions?.[0]?.id ?? null,
       isCompletedOpen: false,
-      originalTemplateContent: templateContent,
+      sectionDefinitions: definitions || [],
     });
   },
 
@@ -151,13 +152,28 @@ export const useChecklistStore = create<ChecklistState>((set, get) => ({
     }
   },
 
-  toggleItem: (itemId: string) => {
+  // Makes the section for a classifier topic current; false if no section matches
+  jumpToTopic: (topicLabel) => {
+    const definition = get().sectionDefinitions.find(d => d.topicLabel === topicLabel);
+    if (!definition) {
+      return false;
+    }
+    if (get().currentSectionId !== definition.id) {
+      set({ currentSectionId: definition.id });
+    }
+    return true;
+  },
+
+  toggleItem: (itemId, details) => {
     set((state) => {
-      if (!state.currentSectionId || !state.sections[state.currentSectionId]) {
+      // The item's own section, so agent call cards (no current section) work too
+      const sectionId = Object.keys(state.sections).find(id =>
+        state.sections[id].checklist.some(item => item.id === itemId)
+      );
+      if (!sectionId) {
            return state;
       }
-      
-      const sectionId = state.currentSectionId;
+
       const section = state.sections[sectionId];
       const itemIndex = section.checklist.findIndex(item => item.id === itemId);
       
@@ -171,7 +187,11 @@ export const useChecklistStore = create<ChecklistState>((set, get) => ({
 
       const newCompletedItems = [...section.completedItems];
       if (!newCompletedItems.some(existing => existing.id === item.id)) {
-          newCompletedItems.push({ ...item, checked: true });
+          newCompletedItems.push({
+            ...item,
+            checked: true,
+            completion: { outcome: 'asked', ...details, source: 'manual', completedAt: Date.now() }
+          });
       }
 
       return {
@@ -188,8 +208,9 @@ export const useChecklistStore = create<ChecklistState>((set, get) => ({
     });
   },
 
-  markItemsComplete: (ids) => {
+  markItemsComplete: (ids, completion) => {
     set((state) => {
+      const itemCompletion: ChecklistCompletion = completion ?? { outcome: 'asked', source: 'manual', completedAt: Date.now() };
       const updatedSections = { ...state.sections };
       let shouldOpenCompleted = state.isCompletedOpen;
       let anySectionModified = false;
@@ -201,7 +222,7 @@ export const useChecklistStore = create<ChecklistState>((set, get) => ({
 
         const newChecklist = originalSection.checklist.filter(item => {
           if (ids.includes(item.id)) {
-            itemsToComplete.push({ ...item, checked: true });
+            itemsToComplete.push({ ...item, checked: true, completion: itemCompletion });
             sectionChanged = true;
             return false;
           }
@@ -239,68 +260,127 @@ export const useChecklistStore = create<ChecklistState>((set, get) => ({
     });
   },
 
-  resetSectionChecklist: (sectionId) => {
+  // Moves a completed item back to the top of its section's checklist
+  reopenItem: (itemId) => {
+    set((state) => {
+      const sectionId = Object.keys(state.sections).find(id =>
+        state.sections[id].completedItems.some(item => item.id === itemId)
+      );
+      if (!sectionId) {
+        return state;
+      }
+
+      const section = state.sections[sectionId];
+      const item = section.completedItems.find(existing => existing.id === itemId)!;
+
+      return {
+        sections: {
+          ...state.sections,
+          [sectionId]: {
+            checklist: [{ ...item, checked: false, completion: undefined }, ...section.checklist],
+            completedItems: section.completedItems.filter(existing => existing.id !== itemId),
+          }
+        }
+      };
+    });
+  },
+
+  // Records the prospect's answer (or the reason for skipping) on a completed item
+  setItemNote: (itemId, note) => {
     set((state) => {
-        const originalSectionData = state.originalTemplateContent?.sections.find(s => s.id === sectionId);
-        if (!originalSectionData || !state.sections[sectionId]) {
-            return state;
+      const sectionId = Object.keys(state.sections).find(id =>
+        state.sections[id].completedItems.some(item => item.id === itemId && item.completion)
+      );
+      if (!sectionId) {
+        return state;
+      }
+
+      const section = state.sections[sectionId];
+      return {
+        sections: {
+          ...state.sections,
+          [sectionId]: {
+            ...section,
+            completedItems: section.completedItems.map(item =>
+              item.id === itemId && item.completion
+                ? { ...item, completion: { ...item.completion, note: note.trim() || undefined } }
+                : item
+            ),
+          }
         }
+      };
+    });
+  },
 
-        return {
-            sections: {
-                ...state.sections,
-                [sectionId]: {
-                    checklist: (originalSectionData.questions || []).map(q => ({ ...q, checked: false })),
-                    completedItems: []
-                }
-            },
-            isCompletedOpen: state.currentSectionId === sectionId ? false : state.isCompletedOpen
-        };
+  // Moves an open item within its section's checklist
+  moveItem: (sectionId, itemId, toIndex) => {
+    set((state) => {
+      const section = state.sections[sectionId];
+      const fromIndex = section ? section.checklist.findIndex(item => item.id === itemId) : -1;
+      if (fromIndex === -1) {
+        return state;
+      }
+
+      const newChecklist = [...section.checklist];
+      const [item] = newChecklist.splice(fromIndex, 1);
+      newChecklist.splice(Math.max(0, Math.min(toIndex, newChecklist.length)), 0, item);
+
+      return {
+        sections: {
+          ...state.sections,
+          [sectionId]: { ...section, checklist: newChecklist }
+        }
+      };
     });
   },
 
-  resetAllChecklists: () => {
+  resetSectionChecklist: (sectionId) => {
     set((state) => {
-      if (!state.originalTemplateContent) {
-        return { sections: {}, currentSectionId: null, isCompletedOpen: false };
+      const definition = state.sectionDefinitions.find(s => s.id === sectionId);
+      if (!definition || !state.sections[sectionId]) {
+        return state;
       }
 
-      // Re-initialize sections with the original template content
-      // This will handle both regular templates and agent templates
-      const { sections, currentSectionId } = state;
-      
-      // Create a new state with the same structure but reset all checklists
+      return {
+        sections: {
+          ...state.sections,
+          [sectionId]: initialSectionState(definition)
+        },
+        isCompletedOpen: state.currentSectionId === sectionId ? false : state.isCompletedOpen
+      };
+    });
+  },
+
+  resetAllChecklists: () => {
+    set((state) => {
       const resetSections: Record<string, SectionState> = {};
-      
-      // For each section in the current state, reset its checklist
-      Object.keys(sections).forEach(sectionId => {
-        resetSections[sectionId] = {
-          checklist: sections[sectionId].checklist.concat(sections[sectionId].completedItems)
-            .map(item => ({ ...item, checked: false })),
-          completedItems: []
-        };
+      state.sectionDefinitions.forEach(definition => {
+        resetSections[definition.id] = initialSectionState(definition);
       });
-      
-      // Determine the new current section ID
-      let newCurrentSectionId = null;
-      
-      // Keep the current section if it exists in the reset sections
-      if (currentSectionId && resetSections[currentSectionId]) {
-        newCurrentSectionId = currentSectionId;
-      } 
-      // Otherwise use the first section ID
-      else if (Object.keys(resetSections).length > 0) {
-        newCurrentSectionId = Object.keys(resetSections)[0];
-      }
+
+      // Keep the current section if it still exists, otherwise start from the first one
+      const currentSectionId = state.currentSectionId && resetSections[state.currentSectionId]
+        ? state.currentSectionId
+        : state.sectionDefinitions[0]?.id ?? null;
 
       return {
         sections: resetSections,
-        currentSectionId: newCurrentSectionId,
+        currentSectionId,
         isCompletedOpen: false
       };
     });
   },
 
+  // Puts back the progress of a meeting resumed after a crash
+  restoreChecklists: (progress) => {
+    set({
+      sections: progress.sections,
+      currentSectionId: progress.currentSectionId,
+      sectionDefinitions: progress.sectionDefinitions,
+      isCompletedOpen: false
+    });
+  },
+
   setIsCompletedOpen: (isOpen) => {
     set({ isCompletedOpen: isOpen });
   }
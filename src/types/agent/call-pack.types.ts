@@ -0,0 +1,22 @@
+// Stages the call-pack agent reports while it works, in the order it runs them
+export type CallPackStage = 'profile_scraped' | 'company_scraped' | 'use_cases_drafted' | 'questions_drafted';
+
+// Input payload for the call-pack agent; also kept in the template's content
+// so a failed generation can be retried
+export interface CallPackRequest {
+  clientCompanyUrl: string;
+  prospectLinkedinUrl: string;
+  prospectCompanyUrl: string;
+  callCardContext?: string;
+}
+
+// Written by the agent to `templates.generation_progress` as each stage completes
+export interface CallPackProgress {
+  completedStages: CallPackStage[];
+  updatedAt: string;
+}
+
+// Returned as soon as the generation job is queued
+export interface StartCallPackResponse {
+  templateId: string;
+}
@@ -4,22 +4,25 @@ export interface LeadScoringRequest {
   questions: string[];
   transcript: {
     turns: Array<{
+      turn_id: number; // Referenced back by `turn_ids` in the response
       speaker: string;
       text: string;
     }>;
   };
 }
 
+export type LeadScoringQuestionStatus =
+  | "answered_by_buyer"
+  | "answered_via_confirmation"
+  | "partial_or_unclear"
+  | "unanswered";
+
 // Output payload returned by the lead-scoring agent
 export interface LeadScoringResponse {
   framework: string;
   questions: Array<{
     question: string;
-    status:
-      | "answered_by_buyer"
-      | "answered_via_confirmation"
-      | "partial_or_unclear"
-      | "unanswered";
+    status: LeadScoringQuestionStatus;
     asked: boolean;
     confidence: number; // 0.0–1.0, two-decimal precision on the wire
     evidence: string;
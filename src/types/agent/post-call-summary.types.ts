@@ -0,0 +1,29 @@
+import { LeadScoringQuestionStatus, LeadScoringRequest } from './lead-scoring.types';
+
+// Input payload sent to the post-call summary agent
+export interface PostCallSummaryRequest {
+  transcript: LeadScoringRequest['transcript'];
+  callCard: {
+    useCases: Array<{ title: string; description: string }>;
+    painPoints: Array<{ title: string; description: string }>;
+  };
+  framework: {
+    name: string;
+    questions: Array<{
+      question: string;
+      status: LeadScoringQuestionStatus;
+      evidence?: string;
+    }>;
+  } | null;
+}
+
+// Output payload returned by the post-call summary agent
+export interface PostCallSummaryResponse {
+  summary: string;
+  keyPoints: string[];
+  nextSteps: Array<{
+    action: string;
+    owner: string; // Attendee name, or "Rep" for the seller
+    dueDate: string | null; // YYYY-MM-DD
+  }>;
+}
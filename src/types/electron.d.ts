@@ -1,3 +1,23 @@
+import type {
+  ChecklistQuestion,
+  ChecklistTurnMatchRequest,
+  ChecklistTurnMatchResponse,
+  ClassifierSessionOptions,
+} from './text-classifier';
+import type { MeetingJournalSnapshot } from './meeting-journal';
+
+export interface CallReminderEvent {
+  id: string;
+  title: string | null;
+  startTime: string;
+  templateId: string;
+}
+
+export interface CallReminderSettings {
+  enabled: boolean;
+  leadMinutes: number;
+}
+
 export interface ElectronAPI {
   // Window controls
   minimize: () => void;
@@ -35,6 +55,23 @@ export interface ElectronAPI {
   saveAudioFile?: (base64Data: string) => Promise<string>;
   openAudioFile?: (filePath: string) => void;
 
+  // Meeting recordings
+  startMeetingRecording?: (meetingId: string, mimeType: string) => Promise<{ filePath: string }>;
+  appendMeetingRecording?: (meetingId: string, chunk: Uint8Array) => void;
+  stopMeetingRecording?: (meetingId: string) => Promise<{ filePath: string; bytes: number } | null>;
+  readMeetingRecording?: (filePath: string) => Promise<Uint8Array<ArrayBuffer> | null>;
+
+  // Call card export/import
+  saveCallCardFile?: (file: { fileName: string; format: 'json' | 'markdown'; content: string }) => Promise<{ filePath: string } | null>;
+  openCallCardFile?: () => Promise<{ fileName: string; content: string } | null>;
+
+  // Local (on-device) transcription engine
+  startLocalTranscription?: (streamId: string) => Promise<{ success: boolean; error?: string }>;
+  sendLocalTranscriptionAudio?: (streamId: string, frame: ArrayBuffer) => void;
+  stopLocalTranscription?: (streamId: string) => Promise<boolean>;
+  onLocalTranscriptionResult?: (callback: (payload: { streamId: string; data: any }) => void) => () => void;
+  onLocalTranscriptionError?: (callback: (payload: { streamId: string; error: string }) => void) => () => void;
+
   // Window management
   minimizeWindow?: () => void;
   maximizeWindow?: () => void;
@@ -57,7 +94,14 @@ export interface ElectronAPI {
 
   // Text classification
   classifyText?: (request: any) => Promise<any>;
-  setTopicLabels?: (topics: Array<{ label: string; description: string }>) => void;
+  setTopicLabels?: (
+    sessionId: string,
+    topics: Array<{ label: string; description: string }>,
+    options?: ClassifierSessionOptions
+  ) => void;
+  disposeClassifierSession?: (sessionId: string) => void;
+  setChecklistQuestions?: (sessionId: string, questions: ChecklistQuestion[]) => void;
+  matchChecklistTurn?: (request: ChecklistTurnMatchRequest) => Promise<ChecklistTurnMatchResponse>;
 
   // Google Auth & Calendar
   openAuthWindow: (url: string) => void;
@@ -79,6 +123,18 @@ export interface ElectronAPI {
   grantNotificationPermission: () => Promise<boolean>;
   revokeNotificationPermission: () => Promise<boolean>;
 
+  // Pre-call reminders and callcard:// deep links
+  setCallReminderEvents?: (events: CallReminderEvent[]) => void;
+  setCallReminderSettings?: (settings: CallReminderSettings) => void;
+  consumePendingDeepLink?: () => Promise<string | null>;
+  onDeepLinkNavigate?: (callback: (route: string) => void) => () => void;
+
+  // Crash-safe meeting journal
+  journalMeeting?: (snapshot: MeetingJournalSnapshot) => Promise<boolean>;
+  getMeetingJournal?: (meetingId: string) => Promise<MeetingJournalSnapshot | null>;
+  findInterruptedMeeting?: () => Promise<MeetingJournalSnapshot | null>;
+  clearMeetingJournal?: (meetingId: string) => void;
+
   // Generic invoke
   invoke: (channel: string, ...args: any[]) => Promise<any>;
   
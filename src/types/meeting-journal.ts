@@ -0,0 +1,25 @@
+/**
+ * Meeting Journal Types
+ *
+ * Snapshot of a live meeting that the main process journals to disk every few
+ * seconds, so the meeting can be resumed after a renderer reload or crash.
+ */
+import { ActiveMeeting } from './meetingTemplates';
+import { TranscriptEntry, TranscriptSpeaker } from './transcript';
+import type { ChecklistProgress } from '@/store/checklistStore';
+import type { FrameworkProgress } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+
+export interface MeetingJournalSnapshot {
+  meeting: ActiveMeeting;
+  title: string;
+  calendarEventId: string | null;
+  elapsedSeconds: number;
+  // Final entries only; interim text is re-sent by the transcription service
+  transcriptEntries: TranscriptEntry[];
+  nextTurnId: number;
+  speakers: Record<string, TranscriptSpeaker>;
+  checklist: ChecklistProgress;
+  frameworkProgress: FrameworkProgress | null;
+  // Set by the main process when the snapshot is written
+  savedAt?: number;
+}
@@ -0,0 +1,54 @@
+/**
+ * Meeting Record Types
+ *
+ * Typed views of the JSON columns stored on a `meetings` row. The database
+ * keeps these as plain JSON, so the renderer casts through these interfaces
+ * when writing a finished meeting or reading one back on the Past meetings page.
+ */
+import { ChecklistItem } from './meetingTemplates';
+import { TranscriptEntry } from './transcript';
+import type { FrameworkProgress } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+
+export interface MeetingChecklistSnapshot {
+  completed: ChecklistItem[];
+  skipped: ChecklistItem[];
+}
+
+export interface MeetingNextStep {
+  id: string;
+  action: string;
+  owner: string;
+  dueDate: string | null; // YYYY-MM-DD
+}
+
+// Post-call summary; editable by the rep until the meeting is confirmed
+export interface MeetingSummary {
+  summary: string;
+  keyPoints: string[];
+  nextSteps: MeetingNextStep[];
+  generatedAt: string | null; // Null when written by hand after a failed generation
+}
+
+// Opt-in audio recording of the call, kept on the rep's machine. One stereo
+// file: the rep's mic on the left channel, the prospect (system audio) on the right.
+export interface MeetingRecording {
+  filePath: string;
+  mimeType: string;
+  startedAt: number; // Epoch ms; transcript entry timestamps seek relative to this
+  durationMs: number; // Audio length, excluding pauses
+  bytes: number;
+  pauses: MeetingRecordingPause[]; // Not in the file; needed to map wall-clock time onto it
+}
+
+export interface MeetingRecordingPause {
+  start: number; // Epoch ms
+  end: number;
+}
+
+export interface MeetingRecordContent {
+  transcript: TranscriptEntry[];
+  frameworkProgress: FrameworkProgress | null;
+  checklist: MeetingChecklistSnapshot;
+  summary: MeetingSummary | null;
+  recording: MeetingRecording | null;
+}
@@ -14,10 +14,26 @@ export interface MeetingSection {
   questions: ChecklistItem[];
 }
 
+// How a checklist question was resolved during the call, and by whom
+export interface ChecklistCompletion {
+  outcome: 'asked' | 'skipped';
+  source: 'manual' | 'auto';
+  completedAt: number;
+  // The prospect's answer, or why the question was skipped
+  note?: string;
+  // Transcript turn the outcome is linked to (the answer, for auto completions)
+  turnId?: number;
+  // Auto completions: the transcript turns where the rep asked it and the prospect answered
+  askedTurnId?: number;
+  answeredTurnId?: number;
+  score?: number;
+}
+
 export interface ChecklistItem {
   id: string;
   text: string;
   checked?: boolean;
+  completion?: ChecklistCompletion;
 }
 
 export interface MeetingTemplate {
@@ -31,6 +47,7 @@ export interface MeetingTemplate {
 }
 
 export interface ActiveMeeting {
+  id: string; // Client-side session id, e.g. for the meeting's classifier session
   templateId: string;
   startTime: number;
   currentSectionIndex: number;
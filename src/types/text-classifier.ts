@@ -1,6 +1,7 @@
 /**
  * TypeScript interfaces for text classification IPC communication
  */
+import type { TranscriptChannel } from './transcript';
 
 /**
  * Topic definition for classification
@@ -32,6 +33,52 @@ export interface ClassificationTopic {
   threshold?: number;
 }
 
+/**
+ * Options for a meeting's classifier session
+ */
+export interface ClassifierSessionOptions {
+  /**
+   * Keep every topic over the threshold active at once, each with its own
+   * hysteresis, instead of a single stable topic
+   */
+  multiLabel?: boolean;
+}
+
+/**
+ * One of the best-scoring topics for the latest chunk
+ */
+export interface TopicCandidate {
+  /**
+   * Topic label
+   */
+  label: string;
+
+  /**
+   * Similarity score as a whole percentage (0-100)
+   */
+  percentage: number;
+}
+
+/**
+ * A topic that is currently active in the session
+ */
+export interface ActiveTopicScore {
+  /**
+   * Topic label
+   */
+  label: string;
+
+  /**
+   * Current confidence score (0-1)
+   */
+  score: number;
+
+  /**
+   * Exponential moving average of the topic's score
+   */
+  ema: number;
+}
+
 /**
  * Request object for text classification
  */
@@ -46,6 +93,11 @@ export interface ClassifyTextRequest {
    */
   text: string;
   
+  /**
+   * Classifier session (one per meeting) whose topics and smoothing state to use
+   */
+  sessionId?: string;
+
   /**
    * Optional custom topics to use for classification
    */
@@ -72,6 +124,31 @@ export interface ClassifyTextRequest {
   };
 }
 
+/**
+ * Latency breakdown for a classification, measured in the main process
+ */
+export interface ClassificationMetrics {
+  /**
+   * Time the request waited in the queue before its batch was sent (ms)
+   */
+  queuedMs: number;
+
+  /**
+   * Embedding and scoring time for the whole batch (ms)
+   */
+  inferenceMs: number;
+
+  /**
+   * Time from the request being queued to its response (ms)
+   */
+  totalMs: number;
+
+  /**
+   * Number of requests classified in the same batch (0 if cancelled)
+   */
+  batchSize: number;
+}
+
 /**
  * Response object from text classification
  */
@@ -102,6 +179,17 @@ export interface ClassifyTextResponse {
    */
   matches?: number;
   
+  /**
+   * Best-scoring topics for this chunk (up to 3), regardless of thresholds
+   */
+  topCandidates: TopicCandidate[];
+
+  /**
+   * Every active topic, strongest first. In single-label mode this is at
+   * most the stable topic in `label`.
+   */
+  activeTopics: ActiveTopicScore[];
+
   /**
    * Timestamp when the classification was performed
    */
@@ -111,4 +199,112 @@ export interface ClassifyTextResponse {
    * Error message if classification failed
    */
   error?: string;
+
+  /**
+   * True if a newer chunk from the same source superseded this interim
+   * request before it was classified
+   */
+  cancelled?: boolean;
+
+  /**
+   * Queue and inference latency for this request
+   */
+  metrics?: ClassificationMetrics;
+}
+
+/**
+ * An open checklist question the matcher listens for
+ */
+export interface ChecklistQuestion {
+  /**
+   * Checklist item identifier
+   */
+  id: string;
+
+  /**
+   * Question text, as shown on the call card
+   */
+  text: string;
+}
+
+/**
+ * A final transcript turn to match against the open checklist questions
+ */
+export interface ChecklistTurnMatchRequest {
+  /**
+   * Unique identifier for the request
+   */
+  id: string;
+
+  /**
+   * Meeting session the questions belong to
+   */
+  sessionId: string;
+
+  /**
+   * Transcript turn the text came from
+   */
+  turnId: number;
+
+  /**
+   * 'mic' for the rep, 'system' for the prospect
+   */
+  channel: TranscriptChannel;
+
+  /**
+   * Final transcript text of the turn
+   */
+  text: string;
+}
+
+/**
+ * A checklist question the rep was heard asking
+ */
+export interface ChecklistQuestionAsked {
+  questionId: string;
+  turnId: number;
+  score: number;
+}
+
+/**
+ * A checklist question the prospect answered after the rep asked it
+ */
+export interface ChecklistQuestionAnswered {
+  questionId: string;
+  askedTurnId: number;
+  answeredTurnId: number;
+
+  /**
+   * Weaker of the ask and answer similarities (0-1)
+   */
+  score: number;
+}
+
+/**
+ * Response object from checklist turn matching
+ */
+export interface ChecklistTurnMatchResponse {
+  /**
+   * Identifier matching the request
+   */
+  id: string;
+
+  asked: ChecklistQuestionAsked[];
+
+  answered: ChecklistQuestionAnswered[];
+
+  /**
+   * Error message if matching failed
+   */
+  error?: string;
+
+  /**
+   * True if the request was dropped before it was matched
+   */
+  cancelled?: boolean;
+
+  /**
+   * Queue and inference latency for this request
+   */
+  metrics?: ClassificationMetrics;
 }
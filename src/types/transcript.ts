@@ -0,0 +1,50 @@
+/**
+ * Transcript Types
+ *
+ * Speaker-diarized transcript model shared by the live transcription flow,
+ * lead scoring and persisted meeting records. Each entry is one turn: a run
+ * of consecutive words from a single diarized speaker on a single channel.
+ */
+
+// Speech-to-text backend for a meeting: Deepgram over WebSocket, or Whisper on-device
+export type TranscriptionEngine = 'cloud' | 'local';
+
+// Audio source a turn was captured from: the rep's microphone or the system loopback
+export type TranscriptChannel = 'mic' | 'system';
+
+export interface TranscriptWord {
+  word: string;
+  start: number; // Seconds from the start of the stream
+  end: number;
+  confidence: number;
+  speaker?: number; // Diarized speaker index within the channel
+}
+
+export interface TranscriptSpeaker {
+  id: string; // `${channel}-${speakerIndex}`, stable for the whole meeting
+  channel: TranscriptChannel;
+  name: string;
+  attendeeEmail?: string; // Set when the rep maps the speaker to a calendar attendee
+}
+
+export interface TranscriptEntry {
+  turnId: number;
+  speakerId: string;
+  channel: TranscriptChannel;
+  timestamp: number; // Store as milliseconds since epoch
+  text: string;
+  isFinal: boolean;
+  confidence?: number;
+  words?: TranscriptWord[];
+  speaker?: string; // Display name snapshot, written when the meeting record is saved
+}
+
+// Provider-neutral speech-to-text result emitted by a TranscriptionProvider
+export interface TranscriptionResult {
+  transcript: string;
+  isFinal: boolean;
+  confidence: number;
+  words: TranscriptWord[]; // Empty when the provider has no word timings
+  start?: number; // Seconds from the start of the stream
+  duration?: number;
+}
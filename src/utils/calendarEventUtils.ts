@@ -0,0 +1,99 @@
+import type { CalendarAttendee, CalendarEvent, UserCalendar } from '@/services/google-calendar-api-function';
+
+// Subset of the Google Calendar event resource kept in `raw_event_data`
+interface RawGoogleEvent {
+  iCalUID?: string;
+  recurringEventId?: string;
+  recurrence?: string[];
+  originalStartTime?: { dateTime?: string; date?: string };
+}
+
+// Google's default calendar color, used until the calendar list has loaded
+export const DEFAULT_CALENDAR_COLOR = '#4285f4';
+
+const WEEKDAY_NAMES: Record<string, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+const FREQUENCY_LABELS: Record<string, { single: string; unit: string }> = {
+  DAILY: { single: 'Daily', unit: 'days' },
+  WEEKLY: { single: 'Weekly', unit: 'weeks' },
+  MONTHLY: { single: 'Monthly', unit: 'months' },
+  YEARLY: { single: 'Yearly', unit: 'years' },
+};
+
+const getRawEvent = (event: CalendarEvent): RawGoogleEvent =>
+  (event.raw_event_data as unknown as RawGoogleEvent | null) ?? {};
+
+/**
+ * Returns the series id for an occurrence of a recurring event, or the
+ * event's own id when it is the series master; null for one-off events
+ */
+export const getRecurringEventId = (event: CalendarEvent): string | null => {
+  const raw = getRawEvent(event);
+  if (raw.recurringEventId) return raw.recurringEventId;
+  return raw.recurrence?.length ? event.id : null;
+};
+
+export const isRecurringEvent = (event: CalendarEvent): boolean => getRecurringEventId(event) !== null;
+
+/**
+ * Attendees other than the signed-in user
+ */
+export const getGuestAttendees = (event: CalendarEvent): CalendarAttendee[] =>
+  ((event.attendees as unknown as CalendarAttendee[] | null) ?? []).filter(attendee => !attendee.self);
+
+/**
+ * Collapses copies of the same occurrence synced from more than one calendar,
+ * e.g. a team calendar event the rep is also invited to. The first copy wins,
+ * so callers pass events from the preferred calendar first.
+ */
+export const dedupeCalendarEvents = (events: CalendarEvent[]): CalendarEvent[] => {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    const raw = getRawEvent(event);
+    const occurrence = raw.originalStartTime?.dateTime ?? raw.originalStartTime?.date ?? event.start_time;
+    const key = `${raw.iCalUID ?? event.id}|${occurrence ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Human-readable summary of an RRULE, e.g. "Weekly on Mon, Wed" or
+ * "Every 2 weeks"; null when there is no rule
+ */
+export const describeRecurrence = (recurrence: string[] | undefined): string | null => {
+  const rule = recurrence?.find(line => line.startsWith('RRULE:'));
+  if (!rule) return null;
+
+  const parts = Object.fromEntries(rule.slice('RRULE:'.length).split(';').map(part => part.split('=')));
+  const frequency = FREQUENCY_LABELS[parts.FREQ];
+  if (!frequency) return 'Repeats';
+
+  const interval = Number(parts.INTERVAL) || 1;
+  let label = interval > 1 ? `Every ${interval} ${frequency.unit}` : frequency.single;
+  if (parts.FREQ === 'WEEKLY' && parts.BYDAY) {
+    label += ` on ${parts.BYDAY.split(',').map((day: string) => WEEKDAY_NAMES[day] ?? day).join(', ')}`;
+  }
+  return label;
+};
+
+/**
+ * Recurrence label for an event, looking up the series master among the
+ * loaded events when the event is a single occurrence
+ */
+export const getRecurrenceLabel = (event: CalendarEvent, events: CalendarEvent[]): string | null => {
+  const seriesId = getRecurringEventId(event);
+  if (!seriesId) return null;
+
+  const master = events.find(candidate => candidate.id === seriesId) ?? event;
+  return describeRecurrence(getRawEvent(master).recurrence) ?? 'Repeats';
+};
+
+/**
+ * Color for a calendar's events, falling back to the default calendar color
+ */
+export const getCalendarColor = (calendars: UserCalendar[], calendarId: string): string =>
+  calendars.find(calendar => calendar.calendar_id === calendarId)?.background_color || DEFAULT_CALENDAR_COLOR;
@@ -0,0 +1,73 @@
+import {
+  CallCardFileFormat,
+  PortableCallCard,
+  getCallCardFileName,
+  parseCallCardFile,
+  toCallCardJson,
+  toCallCardMarkdown
+} from '@/utils/callCardPortable';
+
+const MIME_TYPES: Record<CallCardFileFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+};
+
+const EXTENSIONS: Record<CallCardFileFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+};
+
+// Browser fallback for the save dialog: a regular download
+const downloadFile = (fileName: string, format: CallCardFileFormat, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${EXTENSIONS[format]}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Browser fallback for the open dialog: a file input; resolves null if nothing was picked
+const pickFile = () => new Promise<string | null>((resolve) => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,application/json';
+  input.onchange = () => {
+    const file = input.files?.[0];
+    if (!file) {
+      resolve(null);
+      return;
+    }
+    file.text().then(resolve, () => resolve(null));
+  };
+  input.oncancel = () => resolve(null);
+  input.click();
+});
+
+/**
+ * Exports a call card through the desktop app's save dialog, or as a
+ * download in the browser
+ * @returns False if the user cancelled the save dialog
+ */
+export const exportCallCardFile = async (card: PortableCallCard, format: CallCardFileFormat) => {
+  const fileName = getCallCardFileName(card);
+  const content = format === 'json' ? toCallCardJson(card) : toCallCardMarkdown(card);
+
+  if (window.electron?.saveCallCardFile) {
+    return Boolean(await window.electron.saveCallCardFile({ fileName, format, content }));
+  }
+  downloadFile(fileName, format, content);
+  return true;
+};
+
+/**
+ * Asks for an exported call card JSON file and validates it
+ * @returns The call card with fresh ids, or null if the user cancelled
+ * @throws If the file isn't a valid call card file
+ */
+export const importCallCardFile = async (): Promise<PortableCallCard | null> => {
+  const content = window.electron?.openCallCardFile
+    ? (await window.electron.openCallCardFile())?.content ?? null
+    : await pickFile();
+  return content === null ? null : parseCallCardFile(content);
+};
@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Json } from '@/integrations/supabase/types';
+import { CreateTemplate, Template } from '@/services/templatesFunction';
+import { PainPoint, UseCase } from '@/types/agent/call-card-create.types';
+import { CallFramework } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+import { CallCardSnapshot } from '@/utils/callCardRevisions';
+
+// Identifies exported call card files; bump the version when the shape changes
+export const CALL_CARD_FILE_FORMAT = 'call-card';
+export const CALL_CARD_FILE_VERSION = 1;
+
+export type CallCardFileFormat = 'json' | 'markdown';
+
+// A call card outside any account: its content plus the attached framework's
+// snapshot (library ids are account-specific and aren't carried over)
+export interface PortableCallCard {
+  callCard: CallCardSnapshot;
+  salesFramework: CallFramework | null;
+}
+
+// The versioned JSON document written by an export
+export interface CallCardFile extends PortableCallCard {
+  format: typeof CALL_CARD_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+export const toPortableCallCard = (template: Template): PortableCallCard => {
+  const content = template.content as { useCases?: UseCase[]; painPoints?: PainPoint[] } | null;
+  return {
+    callCard: {
+      name: template.template_name,
+      description: template.description ?? '',
+      useCases: content?.useCases ?? [],
+      painPoints: content?.painPoints ?? [],
+    },
+    salesFramework: (template.sales_framework as unknown as CallFramework | null) ?? null,
+  };
+};
+
+// Imported cards start as drafts for the importer to review
+export const toImportedTemplate = (card: PortableCallCard, userId: string): CreateTemplate => ({
+  template_name: card.callCard.name,
+  description: card.callCard.description,
+  content: { useCases: card.callCard.useCases, painPoints: card.callCard.painPoints } as unknown as Json,
+  sales_framework: card.salesFramework as unknown as Json,
+  sales_framework_id: null,
+  sales_framework_version: null,
+  user_id: userId,
+  is_default_template: false,
+  status: 'DRAFT',
+});
+
+export const getCallCardFileName = (card: PortableCallCard) =>
+  card.callCard.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'call-card';
+
+export const toCallCardJson = (card: PortableCallCard) => {
+  const file: CallCardFile = {
+    format: CALL_CARD_FILE_FORMAT,
+    version: CALL_CARD_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Only the snapshot fields, so editor state like the template id stays out
+    callCard: {
+      name: card.callCard.name,
+      description: card.callCard.description,
+      useCases: card.callCard.useCases,
+      painPoints: card.callCard.painPoints,
+    },
+    salesFramework: card.salesFramework,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const itemsToMarkdown = (heading: string, items: (UseCase | PainPoint)[]) => [
+  `## ${heading}`,
+  '',
+  ...(items.length === 0 ? ['_None_', ''] : items.flatMap((item, index) => [
+    `### ${index + 1}. ${item.title}`,
+    '',
+    ...(item.description ? [item.description, ''] : []),
+    ...(item.questions.length > 0 ? [...item.questions.map(question => `- ${question.text}`), ''] : []),
+  ])),
+];
+
+// Readable export for sharing outside the app; imports only accept JSON
+export const toCallCardMarkdown = ({ callCard, salesFramework }: PortableCallCard) => [
+  `# ${callCard.name}`,
+  '',
+  ...(callCard.description ? [callCard.description, ''] : []),
+  ...(salesFramework ? [
+    `**Sales framework:** ${salesFramework.framework_name}`,
+    '',
+    ...salesFramework.framework_content.map(item => `- **${item.title}:** ${item.question}`),
+    '',
+  ] : []),
+  ...itemsToMarkdown('Use Cases', callCard.useCases),
+  ...itemsToMarkdown('Pain Points', callCard.painPoints),
+].join('\n').trimEnd() + '\n';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (path: string, expected: string) =>
+  new Error(`Invalid call card file: ${path} must be ${expected}`);
+
+const readString = (record: Record<string, unknown>, key: string, path: string, optional = false) => {
+  const value = record[key];
+  if (optional && (value === undefined || value === null)) return '';
+  if (typeof value !== 'string') throw invalid(`${path}.${key}`, 'a string');
+  return value;
+};
+
+const readArray = (record: Record<string, unknown>, key: string, path: string) => {
+  const value = record[key] ?? [];
+  if (!Array.isArray(value)) throw invalid(`${path}.${key}`, 'a list');
+  return value as unknown[];
+};
+
+// Ids are regenerated so an imported card never collides with existing ones
+const readItems = (record: Record<string, unknown>, key: string): (UseCase | PainPoint)[] =>
+  readArray(record, key, 'callCard').map((item, index) => {
+    const path = `callCard.${key}[${index}]`;
+    if (!isRecord(item)) throw invalid(path, 'an object');
+    return {
+      id: uuidv4(),
+      title: readString(item, 'title', path),
+      description: readString(item, 'description', path, true),
+      questions: readArray(item, 'questions', path).map((question, questionIndex) => {
+        const questionPath = `${path}.questions[${questionIndex}]`;
+        if (!isRecord(question)) throw invalid(questionPath, 'an object');
+        return { id: uuidv4(), text: readString(question, 'text', questionPath) };
+      }),
+    };
+  });
+
+const readSalesFramework = (value: unknown): CallFramework | null => {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) throw invalid('salesFramework', 'an object');
+  return {
+    framework_name: readString(value, 'framework_name', 'salesFramework'),
+    framework_description: readString(value, 'framework_description', 'salesFramework', true),
+    framework_content: readArray(value, 'framework_content', 'salesFramework').map((item, index) => {
+      const path = `salesFramework.framework_content[${index}]`;
+      if (!isRecord(item)) throw invalid(path, 'an object');
+      return { title: readString(item, 'title', path), question: readString(item, 'question', path) };
+    }),
+  };
+};
+
+/**
+ * Parses and validates an exported call card JSON file
+ * @returns The call card with freshly generated ids
+ * @throws If the text isn't a call card file this version can read
+ */
+export const parseCallCardFile = (text: string): PortableCallCard => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid call card file: not valid JSON');
+  }
+
+  if (!isRecord(file) || file.format !== CALL_CARD_FILE_FORMAT) {
+    throw new Error('Not a call card file');
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw invalid('version', 'a positive whole number');
+  }
+  if (file.version > CALL_CARD_FILE_VERSION) {
+    throw new Error(`This call card was exported by a newer version of the app (format v${file.version})`);
+  }
+  if (!isRecord(file.callCard)) throw invalid('callCard', 'an object');
+
+  const name = readString(file.callCard, 'name', 'callCard').trim();
+  if (!name) throw invalid('callCard.name', 'a non-empty string');
+
+  return {
+    callCard: {
+      name,
+      description: readString(file.callCard, 'description', 'callCard', true),
+      useCases: readItems(file.callCard, 'useCases'),
+      painPoints: readItems(file.callCard, 'painPoints'),
+    },
+    salesFramework: readSalesFramework(file.salesFramework),
+  };
+};
@@ -0,0 +1,103 @@
+import { TemplateRevision } from '@/services/templatesFunction';
+import { CallCard, PainPoint, Question, UseCase } from '@/types/agent/call-card-create.types';
+
+// The parts of a call card a revision captures
+export type CallCardSnapshot = Pick<CallCard, 'name' | 'description' | 'useCases' | 'painPoints'>;
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuestionDiff {
+  text: string;
+  status: Exclude<DiffStatus, 'changed'>;
+}
+
+// One use case or pain point across two revisions; `before`/`after` is null
+// when it only exists on one side
+export interface CallCardItemDiff {
+  key: string;
+  status: DiffStatus;
+  before: UseCase | PainPoint | null;
+  after: UseCase | PainPoint | null;
+  questions: QuestionDiff[];
+}
+
+export interface CallCardDiff {
+  nameChanged: boolean;
+  descriptionChanged: boolean;
+  useCases: CallCardItemDiff[];
+  painPoints: CallCardItemDiff[];
+}
+
+export const toCallCardSnapshot = (revision: TemplateRevision): CallCardSnapshot => {
+  const content = revision.content as { useCases?: UseCase[]; painPoints?: PainPoint[] } | null;
+  return {
+    name: revision.template_name,
+    description: revision.description ?? '',
+    useCases: content?.useCases ?? [],
+    painPoints: content?.painPoints ?? [],
+  };
+};
+
+// Items keep their id across edits; older ones without an id match by title
+const itemKey = (item: UseCase | PainPoint) => item.id || `title:${item.title.trim()}`;
+
+const questionTexts = (questions: Question[]) =>
+  questions.map(question => question.text.trim()).filter(Boolean);
+
+// Questions are compared by text, in the order of the newer side, with
+// removed ones listed last
+const diffQuestions = (before: Question[], after: Question[]): QuestionDiff[] => {
+  const beforeTexts = questionTexts(before);
+  const afterTexts = questionTexts(after);
+  return [
+    ...afterTexts.map(text => ({ text, status: beforeTexts.includes(text) ? 'unchanged' as const : 'added' as const })),
+    ...beforeTexts.filter(text => !afterTexts.includes(text)).map(text => ({ text, status: 'removed' as const })),
+  ];
+};
+
+const diffItems = (before: (UseCase | PainPoint)[], after: (UseCase | PainPoint)[]): CallCardItemDiff[] => {
+  const beforeByKey = new Map(before.map(item => [itemKey(item), item]));
+  const afterKeys = new Set(after.map(itemKey));
+
+  const current = after.map((item): CallCardItemDiff => {
+    const key = itemKey(item);
+    const previous = beforeByKey.get(key) ?? null;
+    const questions = diffQuestions(previous?.questions ?? [], item.questions);
+    const isChanged = previous !== null && (
+      previous.title !== item.title ||
+      previous.description !== item.description ||
+      questions.some(question => question.status !== 'unchanged')
+    );
+    return {
+      key,
+      status: !previous ? 'added' : isChanged ? 'changed' : 'unchanged',
+      before: previous,
+      after: item,
+      questions,
+    };
+  });
+
+  const removed = before
+    .filter(item => !afterKeys.has(itemKey(item)))
+    .map((item): CallCardItemDiff => ({
+      key: itemKey(item),
+      status: 'removed',
+      before: item,
+      after: null,
+      questions: diffQuestions(item.questions, []),
+    }));
+
+  return [...current, ...removed];
+};
+
+/**
+ * Compares two call card revisions: use cases and pain points are matched
+ * across them and flagged as added, removed, changed or unchanged, along
+ * with their follow-up questions.
+ */
+export const diffCallCards = (before: CallCardSnapshot, after: CallCardSnapshot): CallCardDiff => ({
+  nameChanged: before.name !== after.name,
+  descriptionChanged: before.description !== after.description,
+  useCases: diffItems(before.useCases, after.useCases),
+  painPoints: diffItems(before.painPoints, after.painPoints),
+});
@@ -0,0 +1,89 @@
+import { format } from 'date-fns';
+import { MeetingSummary } from '@/types/meeting-record';
+import type { FrameworkProgress } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+
+// Markers around the notes block in the event description. Re-syncing replaces
+// everything between them, so they must not change once events carry them.
+export const CALL_NOTES_START = '=== Call Card notes ===';
+export const CALL_NOTES_END = '=== End of Call Card notes ===';
+
+const RESOLVED_STATUSES = ['completed', 'answered_by_buyer', 'answered_via_confirmation'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const CALL_NOTES_BLOCK = new RegExp(
+  `\\n*${escapeRegExp(CALL_NOTES_START)}[\\s\\S]*?${escapeRegExp(CALL_NOTES_END)}\\n*`,
+  'g'
+);
+
+const formatDueDate = (dueDate: string) => format(new Date(`${dueDate}T00:00:00`), 'MMM d, yyyy');
+
+interface CallNotesInput {
+  summary: MeetingSummary | null;
+  frameworkProgress: FrameworkProgress | null;
+  startedAt: string;
+  durationSeconds?: number | null;
+}
+
+/**
+ * Renders the post-call notes as a plain-text block wrapped in the markers
+ */
+export const formatCallNotes = ({ summary, frameworkProgress, startedAt, durationSeconds }: CallNotesInput): string => {
+  const lines: string[] = [CALL_NOTES_START];
+
+  const minutes = durationSeconds ? Math.max(1, Math.round(durationSeconds / 60)) : null;
+  lines.push(`Call on ${format(new Date(startedAt), 'MMM d, yyyy h:mm a')}${minutes ? ` (${minutes} min)` : ''}`);
+
+  if (summary?.summary.trim()) {
+    lines.push('', 'Summary', summary.summary.trim());
+  }
+
+  if (summary?.keyPoints.length) {
+    lines.push('', 'Key points', ...summary.keyPoints.map(point => `- ${point}`));
+  }
+
+  if (frameworkProgress && frameworkProgress.questions.length > 0) {
+    lines.push(
+      '',
+      `${frameworkProgress.name} coverage: ${frameworkProgress.completedQuestions}/${frameworkProgress.totalQuestions} (${frameworkProgress.progressPercentage}%)`,
+      ...frameworkProgress.questions.map(q =>
+        `[${RESOLVED_STATUSES.includes(q.status) ? 'x' : ' '}] ${q.category}: ${q.question}`
+      )
+    );
+  }
+
+  if (summary?.nextSteps.length) {
+    lines.push(
+      '',
+      'Next steps',
+      ...summary.nextSteps.map(step => {
+        const details = [
+          step.owner && `owner: ${step.owner}`,
+          step.dueDate && `due ${formatDueDate(step.dueDate)}`,
+        ].filter(Boolean);
+        return `- ${step.action}${details.length ? ` (${details.join(', ')})` : ''}`;
+      })
+    );
+  }
+
+  lines.push(CALL_NOTES_END);
+  return lines.join('\n');
+};
+
+/**
+ * Puts the notes block into an event description, replacing a previously
+ * synced block in place (and dropping any duplicates) instead of appending
+ */
+export const mergeCallNotesIntoDescription = (description: string | null | undefined, notes: string): string => {
+  const current = description ?? '';
+  let replaced = false;
+  const merged = current.replace(CALL_NOTES_BLOCK, (match) => {
+    if (replaced) return '\n\n';
+    replaced = true;
+    const leading = match.startsWith('\n') ? '\n\n' : '';
+    return `${leading}${notes}\n\n`;
+  }).trim();
+
+  if (replaced) return merged;
+  return current.trim() ? `${current.trim()}\n\n${notes}` : notes;
+};
@@ -0,0 +1,61 @@
+import { startCallPack } from '@/services/agentApiFunction';
+import { Template, TemplateStatus, transitionTemplateStatus } from '@/services/templatesFunction';
+import { CallPackProgress, CallPackRequest, CallPackStage } from '@/types/agent/call-pack.types';
+
+// Stages in the order the agent runs them
+export const CALL_PACK_STAGES: CallPackStage[] = [
+  'profile_scraped',
+  'company_scraped',
+  'use_cases_drafted',
+  'questions_drafted',
+];
+
+export const CALL_PACK_STAGE_LABELS: Record<CallPackStage, string> = {
+  profile_scraped: 'Scraping LinkedIn profile',
+  company_scraped: 'Scraping company website',
+  use_cases_drafted: 'Drafting use cases',
+  questions_drafted: 'Drafting questions',
+};
+
+// Statuses a template is in while the agent is still working on it
+export const CALL_PACK_GENERATING_STATUSES: TemplateStatus[] = ['AGENT_ASSISTANCE_REQUESTED', 'AGENT_CALL_SCHEDULED'];
+
+export const isCallPackGenerating = (template: Pick<Template, 'status'>) =>
+  CALL_PACK_GENERATING_STATUSES.includes(template.status);
+
+export const getCallPackRequest = (template: Template): CallPackRequest | null =>
+  (template.content as { callPackRequest?: CallPackRequest } | null)?.callPackRequest ?? null;
+
+export const getCallPackProgress = (template: Template): CallPackProgress | null =>
+  (template.generation_progress as unknown as CallPackProgress | null) ?? null;
+
+// First stage the agent hasn't reported yet, null once all are done
+export const getPendingCallPackStage = (template: Template): CallPackStage | null => {
+  const completed = getCallPackProgress(template)?.completedStages ?? [];
+  return CALL_PACK_STAGES.find(stage => !completed.includes(stage)) ?? null;
+};
+
+/**
+ * Starts generating a call pack into an existing template as a background
+ * job. The template moves to AGENT_ASSISTANCE_REQUESTED; the agent then
+ * reports each stage in `generation_progress` and finishes by moving it to
+ * IN_REVIEW with the generated content, or ERROR with the failure message.
+ * Follow along with `useTemplateUpdates`.
+ * @returns The template as the job started
+ * @throws The error starting the job, after the template was moved to ERROR
+ */
+export const startCallPackGeneration = async (template: Template, request: CallPackRequest) => {
+  const pending = template.status === 'AGENT_ASSISTANCE_REQUESTED'
+    ? template
+    : await transitionTemplateStatus(template, 'AGENT_ASSISTANCE_REQUESTED');
+
+  try {
+    await startCallPack(pending.template_id, request);
+    return pending;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to start call pack generation';
+    await transitionTemplateStatus(pending, 'ERROR', message)
+      .catch(statusError => console.error('Error recording call pack failure:', statusError));
+    throw error;
+  }
+};
@@ -0,0 +1,27 @@
+// Utility for the pre-call reminder preferences
+
+import { CallReminderSettings } from '@/types/electron';
+import { getFromStorage, setToStorage } from './localStorage';
+
+export const CALL_REMINDER_STORAGE_KEY = 'call-card-call-reminders';
+
+// Minutes before the call a reminder can be shown
+export const CALL_REMINDER_LEAD_OPTIONS = [1, 5, 10, 15];
+
+const DEFAULT_CALL_REMINDER_SETTINGS: CallReminderSettings = { enabled: true, leadMinutes: 5 };
+
+export function getCallReminderSettings(): CallReminderSettings {
+  const stored = getFromStorage<Partial<CallReminderSettings>>(CALL_REMINDER_STORAGE_KEY, {});
+  return {
+    enabled: stored.enabled ?? DEFAULT_CALL_REMINDER_SETTINGS.enabled,
+    leadMinutes: CALL_REMINDER_LEAD_OPTIONS.includes(stored.leadMinutes ?? -1)
+      ? stored.leadMinutes!
+      : DEFAULT_CALL_REMINDER_SETTINGS.leadMinutes,
+  };
+}
+
+// Stores the preference and applies it to the scheduler in the main process
+export function setCallReminderSettings(settings: CallReminderSettings): void {
+  setToStorage(CALL_REMINDER_STORAGE_KEY, settings);
+  window.electron?.setCallReminderSettings?.(settings);
+}
@@ -0,0 +1,23 @@
+import { MeetingRecording } from '@/types/meeting-record';
+
+// The recorder pauses with the meeting, so wall-clock time only maps onto the
+// audio once the pauses before it are taken out.
+
+// Position in the recording (ms) of a wall-clock time, e.g. a transcript entry
+export const recordingOffsetAt = (recording: MeetingRecording, timestamp: number) => {
+  const paused = (recording.pauses ?? []).reduce((total, pause) => {
+    if (pause.start >= timestamp) return total;
+    return total + Math.min(pause.end, timestamp) - pause.start;
+  }, 0);
+  return Math.max(0, timestamp - recording.startedAt - paused);
+};
+
+// Wall-clock time of a position in the recording (ms)
+export const timestampAtOffset = (recording: MeetingRecording, offsetMs: number) => {
+  let timestamp = recording.startedAt + offsetMs;
+  for (const pause of recording.pauses ?? []) {
+    if (pause.start > timestamp) break;
+    timestamp += pause.end - pause.start;
+  }
+  return timestamp;
+};
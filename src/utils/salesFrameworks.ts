@@ -0,0 +1,47 @@
+import { Json } from '@/integrations/supabase/types';
+import { SalesFramework } from '@/services/sales-frameworks-api-function';
+import { Template } from '@/services/templatesFunction';
+import { CallFramework } from '@/pages/start-meeting/components/meeting/call-framework-progress-tab';
+
+export type SalesFrameworkQuestion = CallFramework['framework_content'][number];
+
+// The template columns that attach a library framework to a call card. The
+// card is pinned to the version it was attached at: `sales_framework` holds
+// that version's snapshot, which is what live meetings and lead scoring read.
+export interface SalesFrameworkAttachment {
+  sales_framework: Json | null;
+  sales_framework_id: string | null;
+  sales_framework_version: number | null;
+}
+
+export const DETACHED_SALES_FRAMEWORK: SalesFrameworkAttachment = {
+  sales_framework: null,
+  sales_framework_id: null,
+  sales_framework_version: null,
+};
+
+export const getFrameworkQuestions = (framework: Pick<SalesFramework, 'questions'>) =>
+  (framework.questions as unknown as SalesFrameworkQuestion[] | null) ?? [];
+
+export const toCallFramework = (framework: Pick<SalesFramework, 'name' | 'description' | 'questions'>): CallFramework => ({
+  framework_name: framework.name,
+  framework_description: framework.description ?? '',
+  framework_content: getFrameworkQuestions(framework),
+});
+
+// Pins a call card to the framework's current version
+export const attachSalesFramework = (framework: SalesFramework): SalesFrameworkAttachment => ({
+  sales_framework: toCallFramework(framework) as unknown as Json,
+  sales_framework_id: framework.id,
+  sales_framework_version: framework.version,
+});
+
+// The framework attached to a call card, or null if it has none
+export const getFrameworkAttachment = (template?: Template | null): SalesFrameworkAttachment | null =>
+  template?.sales_framework
+    ? {
+        sales_framework: template.sales_framework,
+        sales_framework_id: template.sales_framework_id,
+        sales_framework_version: template.sales_framework_version,
+      }
+    : null;
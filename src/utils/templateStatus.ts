@@ -0,0 +1,12 @@
+import { TemplateStatus } from '@/services/templatesFunction';
+
+// How each lifecycle status reads in the template library
+export const TEMPLATE_STATUS_LABELS: Record<TemplateStatus, string> = {
+  DRAFT: 'Draft',
+  AGENT_ASSISTANCE_REQUESTED: 'Generating',
+  AGENT_CALL_SCHEDULED: 'Agent call scheduled',
+  IN_REVIEW: 'In review',
+  ACTIVE: 'Active',
+  ARCHIVED: 'Archived',
+  ERROR: 'Failed',
+};
@@ -0,0 +1,12 @@
+// Classifier topic labels for agent call cards, e.g. "Use case: Reporting".
+// The classifier session and the live checklist sections both key on these,
+// so they have to be built the same way.
+export type CallCardTopicType = 'useCase' | 'painPoint';
+
+const TOPIC_LABEL_PREFIXES: Record<CallCardTopicType, string> = {
+  useCase: 'Use case',
+  painPoint: 'Pain point',
+};
+
+export const formatTopicLabel = (type: CallCardTopicType, title: string) =>
+  `${TOPIC_LABEL_PREFIXES[type]}: ${title}`;
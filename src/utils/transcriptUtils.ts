@@ -0,0 +1,76 @@
+import {
+  TranscriptChannel,
+  TranscriptEntry,
+  TranscriptionResult,
+  TranscriptSpeaker,
+  TranscriptWord,
+} from '@/types/transcript';
+import { LeadScoringRequest } from '@/types/agent/lead-scoring.types';
+
+export const getSpeakerId = (channel: TranscriptChannel, speakerIndex: number) =>
+  `${channel}-${speakerIndex}`;
+
+// Default label before the rep maps a speaker to an attendee
+export const getDefaultSpeakerName = (channel: TranscriptChannel, speakerIndex: number) => {
+  if (channel === 'mic') {
+    return speakerIndex === 0 ? 'You' : `You (${speakerIndex + 1})`;
+  }
+  return `Speaker ${speakerIndex + 1}`;
+};
+
+export const resolveSpeakerName = (
+  entry: TranscriptEntry,
+  speakers: Record<string, TranscriptSpeaker>
+) => speakers[entry.speakerId]?.name ?? entry.speaker ?? 'Unknown';
+
+// Final turns in the shape expected by the lead-scoring agent
+export const toLeadScoringTurns = (
+  entries: TranscriptEntry[],
+  speakers: Record<string, TranscriptSpeaker>
+): LeadScoringRequest['transcript']['turns'] =>
+  entries
+    .filter(entry => entry.isFinal)
+    .map(entry => ({
+      turn_id: entry.turnId,
+      speaker: resolveSpeakerName(entry, speakers),
+      text: entry.text,
+    }));
+
+// A run of consecutive words attributed to one diarized speaker
+export interface TranscriptSpeakerSegment {
+  speaker: number;
+  text: string;
+  confidence: number;
+  words: TranscriptWord[];
+}
+
+/**
+ * Splits a transcription result into per-speaker segments using its
+ * word-level diarization. Results without word timings (e.g. diarization
+ * disabled, or the on-device engine) come back as one segment for speaker 0.
+ */
+export const splitResultBySpeaker = (result: TranscriptionResult): TranscriptSpeakerSegment[] => {
+  const transcript = result?.transcript?.trim();
+  if (!transcript) return [];
+
+  if (result.words.length === 0) {
+    return [{ speaker: 0, text: transcript, confidence: result.confidence, words: [] }];
+  }
+
+  const segments: TranscriptSpeakerSegment[] = [];
+  for (const word of result.words) {
+    const speaker = word.speaker ?? 0;
+    const current = segments[segments.length - 1];
+    if (current && current.speaker === speaker) {
+      current.words.push(word);
+    } else {
+      segments.push({ speaker, text: '', confidence: 0, words: [word] });
+    }
+  }
+
+  for (const segment of segments) {
+    segment.text = segment.words.map(w => w.word).join(' ');
+    segment.confidence = segment.words.reduce((sum, w) => sum + w.confidence, 0) / segment.words.length;
+  }
+  return segments;
+};
@@ -0,0 +1,22 @@
+// Utility for the user's preferred transcription engine
+
+import { TranscriptionEngine } from '@/types/transcript';
+import { getFromStorage, setToStorage } from './localStorage';
+
+export const TRANSCRIPTION_ENGINE_STORAGE_KEY = 'call-card-transcription-engine';
+
+// Cloud (Deepgram) unless the user has opted into the on-device engine
+export function getPreferredTranscriptionEngine(): TranscriptionEngine {
+  const engine = getFromStorage<TranscriptionEngine>(TRANSCRIPTION_ENGINE_STORAGE_KEY, 'cloud');
+  return engine === 'local' ? 'local' : 'cloud';
+}
+
+export function setPreferredTranscriptionEngine(engine: TranscriptionEngine): void {
+  setToStorage(TRANSCRIPTION_ENGINE_STORAGE_KEY, engine);
+}
+
+// Parses an `engine` query param, falling back to the stored preference
+export function resolveTranscriptionEngine(value: string | null): TranscriptionEngine {
+  if (value === 'cloud' || value === 'local') return value;
+  return getPreferredTranscriptionEngine();
+}
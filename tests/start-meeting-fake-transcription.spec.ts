@@ -0,0 +1,87 @@
+import { test, expect, Page } from '@playwright/test';
+
+// Runs the start-meeting flow offline: Supabase is mocked, and the dev server
+// runs with VITE_TRANSCRIPTION_PROVIDER=fake (see playwright.config.ts), so
+// transcription replays cypress/fixtures/sample-transcript.jsonl.
+
+const FIXTURE_TRANSCRIPT = 'cypress/fixtures/sample-transcript.jsonl';
+
+const USER = {
+  id: '00000000-0000-4000-8000-000000000001',
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: 'test+user1@example.com',
+  app_metadata: { provider: 'email' },
+  user_metadata: {},
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+const TEMPLATE = {
+  template_id: '00000000-0000-4000-8000-000000000002',
+  template_name: 'Discovery call',
+  description: 'Offline test call card',
+  content: {
+    useCases: [{
+      id: 'reporting',
+      title: 'Automated reporting',
+      description: 'Replacing manual weekly reports',
+      questions: [{ id: 'reporting-q0', text: 'How do you build weekly reports today?' }],
+    }],
+    painPoints: [],
+  },
+  sales_framework: null,
+  sales_framework_id: null,
+  sales_framework_version: null,
+  status: 'ACTIVE',
+  error_message: null,
+  generation_progress: null,
+  is_default_template: true,
+  user_id: USER.id,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+// A stored session the Supabase client accepts without refreshing it
+const signIn = async (page: Page) => {
+  await page.addInitScript((user) => {
+    localStorage.setItem('call-card-auth', JSON.stringify({
+      access_token: 'test-access-token',
+      refresh_token: 'test-refresh-token',
+      token_type: 'bearer',
+      expires_in: 3600,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      user,
+    }));
+  }, USER);
+};
+
+const mockBackend = async (page: Page) => {
+  // Anything not mocked below answers with an empty list
+  await page.route('**/functions/v1/**', route => route.fulfill({ json: [] }));
+  await page.route('**/rest/v1/**', route => route.fulfill({ json: [] }));
+
+  await page.route('**/auth/v1/user', route => route.fulfill({ json: USER }));
+  await page.route('**/functions/v1/templates', route => route.fulfill({ json: [TEMPLATE] }));
+  await page.route('**/fake-transcript.jsonl', route => route.fulfill({
+    path: FIXTURE_TRANSCRIPT,
+    contentType: 'application/x-ndjson',
+  }));
+};
+
+test.use({
+  // The page checks microphone access before starting either flow
+  permissions: ['microphone'],
+  launchOptions: { args: ['--use-fake-ui-for-media-stream', '--use-fake-device-for-media-stream'] },
+});
+
+test('transcribes a meeting from the replayed transcript', async ({ page }) => {
+  await signIn(page);
+  await mockBackend(page);
+
+  await page.goto(`/start-meeting/${TEMPLATE.template_id}`);
+  await page.getByRole('tab', { name: 'Transcript' }).click();
+
+  // One turn from each channel: the rep's mic and the prospect's system audio
+  await expect(page.getByText('Hi, thanks for taking the time to chat today.')).toBeVisible({ timeout: 15_000 });
+  await expect(page.getByText('Of course, happy to be here.')).toBeVisible({ timeout: 15_000 });
+});